@@ -1,8 +1,9 @@
-import React from 'react';
+import React, { useEffect } from 'react';
 import { HashRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider, useAuth } from './context/AuthContext';
 import { Layout } from './components/Layout';
+import { accrueDebtInterest, applyDuePriceChanges, postDueRecurringExpenses, seedDefaultCategories } from './services/data';
 
 // Pages
 import Login from './pages/Login';
@@ -17,6 +18,11 @@ import Assets from './pages/Assets';
 import Debts from './pages/Debts';
 import Goals from './pages/Goals';
 import Reports from './pages/Reports';
+import Import from './pages/Import';
+import Rules from './pages/Rules';
+import Categories from './pages/Categories';
+import Accounts from './pages/Accounts';
+import Budgets from './pages/Budgets';
 
 const queryClient = new QueryClient();
 
@@ -31,6 +37,41 @@ const ProtectedRoute: React.FC<{ children: React.ReactNode }> = ({ children }) =
 
 function AppRoutes() {
   const { user, loading } = useAuth();
+
+  // Catch up on recurring bills, price changes and debt interest that came due while the app was closed,
+  // and give first-time users their own copy of the default categories
+  useEffect(() => {
+    if (!user) return;
+    postDueRecurringExpenses()
+      .then(posted => {
+        if (posted > 0) {
+          queryClient.invalidateQueries({ queryKey: ['assetflow_expenses'] });
+          queryClient.invalidateQueries({ queryKey: ['assetflow_recurring_expenses'] });
+        }
+      })
+      .catch(error => console.error('Recurring bill rollover failed:', error));
+    applyDuePriceChanges()
+      .then(applied => {
+        if (applied > 0) {
+          queryClient.invalidateQueries({ queryKey: ['assetflow_recurring_expenses'] });
+          queryClient.invalidateQueries({ queryKey: ['assetflow_benefits'] });
+        }
+      })
+      .catch(error => console.error('Price change catch-up failed:', error));
+    accrueDebtInterest()
+      .then(charged => {
+        if (charged > 0) {
+          queryClient.invalidateQueries({ queryKey: ['assetflow_debts'] });
+          queryClient.invalidateQueries({ queryKey: ['assetflow_debt_payments'] });
+        }
+      })
+      .catch(error => console.error('Debt interest accrual failed:', error));
+    seedDefaultCategories(user.id)
+      .then(seeded => {
+        if (seeded > 0) queryClient.invalidateQueries({ queryKey: ['assetflow_categories'] });
+      })
+      .catch(error => console.error('Category setup failed:', error));
+  }, [user?.id]);
   
   if (loading) return null;
 
@@ -40,15 +81,20 @@ function AppRoutes() {
       <Route path="/register" element={!user ? <Register /> : <Navigate to="/" />} />
       
       <Route path="/" element={<ProtectedRoute><Layout><Dashboard /></Layout></ProtectedRoute>} />
+      <Route path="/accounts" element={<ProtectedRoute><Layout><Accounts /></Layout></ProtectedRoute>} />
       <Route path="/assets" element={<ProtectedRoute><Layout><Assets /></Layout></ProtectedRoute>} />
       <Route path="/debts" element={<ProtectedRoute><Layout><Debts /></Layout></ProtectedRoute>} />
       <Route path="/goals" element={<ProtectedRoute><Layout><Goals /></Layout></ProtectedRoute>} />
       <Route path="/income" element={<ProtectedRoute><Layout><Income /></Layout></ProtectedRoute>} />
       <Route path="/expenses" element={<ProtectedRoute><Layout><Expenses /></Layout></ProtectedRoute>} />
+      <Route path="/budgets" element={<ProtectedRoute><Layout><Budgets /></Layout></ProtectedRoute>} />
       <Route path="/benefits" element={<ProtectedRoute><Layout><Benefits /></Layout></ProtectedRoute>} />
       <Route path="/payday" element={<ProtectedRoute><Layout><Payday /></Layout></ProtectedRoute>} />
       <Route path="/projections" element={<ProtectedRoute><Layout><Projections /></Layout></ProtectedRoute>} />
       <Route path="/reports" element={<ProtectedRoute><Layout><Reports /></Layout></ProtectedRoute>} />
+      <Route path="/import" element={<ProtectedRoute><Layout><Import /></Layout></ProtectedRoute>} />
+      <Route path="/rules" element={<ProtectedRoute><Layout><Rules /></Layout></ProtectedRoute>} />
+      <Route path="/categories" element={<ProtectedRoute><Layout><Categories /></Layout></ProtectedRoute>} />
     </Routes>
   );
 }
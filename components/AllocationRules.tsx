@@ -0,0 +1,136 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { supabase } from '../lib/supabase';
+import { deleteAllocationRule } from '../services/data';
+import { Button, Input, Select, Card } from './UI';
+import { useAuth } from '../context/AuthContext';
+import { AllocationRule, Category, Goal } from '../types';
+import { ALLOCATION_TYPE_OPTIONS, describeAllocationRule } from '../lib/allocations';
+import { getCategoryOptions } from '../lib/categories';
+import { ArrowUp, ArrowDown, Pause, Play, Trash2, Shuffle } from 'lucide-react';
+
+const ruleSchema = z.object({
+  goal_id: z.string().min(1, 'Pick a goal'),
+  category: z.string(),
+  type: z.enum(['PERCENT', 'FIXED']),
+  value: z.coerce.number().positive('Must be positive'),
+}).refine(data => data.type !== 'PERCENT' || data.value <= 100, {
+  message: 'Percentage cannot be more than 100',
+  path: ['value'],
+});
+
+type RuleFormData = z.infer<typeof ruleSchema>;
+
+interface AllocationRulesProps {
+  rules: AllocationRule[];
+  goals: Goal[];
+  categories: Category[];
+}
+
+export const AllocationRules: React.FC<AllocationRulesProps> = ({ rules, goals, categories }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<RuleFormData>({
+    resolver: zodResolver(ruleSchema),
+    defaultValues: { goal_id: '', category: 'ALL', type: 'PERCENT' }
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['assetflow_allocation_rules'] });
+
+  const mutation = useMutation({
+    mutationFn: async ({ category, ...data }: RuleFormData) => {
+      const { error } = await supabase.from('assetflow_allocation_rules').insert([{
+        user_id: user?.id,
+        ...data,
+        category: category === 'ALL' ? null : category,
+        position: rules.length ? Math.max(...rules.map(r => r.position)) + 1 : 0,
+        paused: false
+      }]);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      reset({ goal_id: '', category: 'ALL', type: 'PERCENT' });
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (updates: { id: string; changes: Partial<AllocationRule> }[]) => {
+      for (const { id, changes } of updates) {
+        const { error } = await supabase.from('assetflow_allocation_rules').update(changes).eq('id', id);
+        if (error) throw error;
+      }
+    },
+    onSuccess: invalidate
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteAllocationRule,
+    onSuccess: invalidate
+  });
+
+  // Swaps positions with the neighbouring rule
+  const moveRule = (index: number, direction: -1 | 1) => {
+    const other = rules[index + direction];
+    if (!other) return;
+    const rule = rules[index];
+    updateMutation.mutate([
+      { id: rule.id, changes: { position: other.position } },
+      { id: other.id, changes: { position: rule.position } },
+    ]);
+  };
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <Shuffle size={18} className="text-primary-600" /> Income Allocation Rules
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">
+        Run top to bottom whenever you add income. Each rule takes from what's left after the ones above it.
+      </p>
+
+      {rules.length > 0 && (
+        <ol className="divide-y border rounded-lg mb-6">
+          {rules.map((rule, i) => (
+            <li key={rule.id} className={`flex items-center justify-between px-4 py-3 text-sm ${rule.paused ? 'bg-gray-50 text-gray-400' : 'text-gray-700'}`}>
+              <span>
+                {i + 1}. {describeAllocationRule(rule, goals)}
+                {rule.paused && <span className="ml-2 text-xs bg-gray-200 text-gray-600 px-2 py-0.5 rounded-full">Paused</span>}
+              </span>
+              <div className="flex items-center gap-3">
+                <button onClick={() => moveRule(i, -1)} disabled={i === 0} className="text-gray-400 hover:text-gray-900 disabled:opacity-30" title="Move up"><ArrowUp size={16} /></button>
+                <button onClick={() => moveRule(i, 1)} disabled={i === rules.length - 1} className="text-gray-400 hover:text-gray-900 disabled:opacity-30" title="Move down"><ArrowDown size={16} /></button>
+                <button
+                  onClick={() => updateMutation.mutate([{ id: rule.id, changes: { paused: !rule.paused } }])}
+                  className="text-primary-600 hover:text-primary-900"
+                  title={rule.paused ? 'Resume' : 'Pause'}
+                >
+                  {rule.paused ? <Play size={16} /> : <Pause size={16} />}
+                </button>
+                <button onClick={() => { if (confirm('Delete this rule?')) deleteMutation.mutate(rule.id) }} className="text-red-600 hover:text-red-900" title="Delete">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <form onSubmit={handleSubmit((d) => mutation.mutate(d))} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <Select label="Rule" options={ALLOCATION_TYPE_OPTIONS} {...register('type')} />
+        <Input label="Amount or %" type="number" step="0.01" {...register('value')} error={errors.value?.message} />
+        <Select
+          label="From"
+          options={[{ label: 'All income', value: 'ALL' }, ...getCategoryOptions(categories, 'INCOME')]}
+          {...register('category')}
+        />
+        <Select label="Into Goal" options={goals.map(g => ({ label: g.name, value: g.id }))} {...register('goal_id')} error={errors.goal_id?.message} />
+        <Button type="submit" isLoading={mutation.isPending}>Add Rule</Button>
+      </form>
+    </Card>
+  );
+};
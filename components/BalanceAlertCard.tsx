@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { saveSettings } from '../services/data';
+import { Button, Input, Card } from './UI';
+import { useAuth } from '../context/AuthContext';
+import { LowBalanceAlert } from '../lib/alerts';
+import { format } from 'date-fns';
+import { AlertTriangle, ShieldCheck, Pencil, X } from 'lucide-react';
+
+interface BalanceAlertCardProps {
+  alert: LowBalanceAlert | null;
+  threshold: number;
+  startingBalance: number;
+  nextPayday: Date | null;
+}
+
+export const BalanceAlertCard: React.FC<BalanceAlertCardProps> = ({ alert, threshold, startingBalance, nextPayday }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isEditing, setIsEditing] = useState(false);
+  const [thresholdInput, setThresholdInput] = useState(String(threshold));
+
+  const mutation = useMutation({
+    mutationFn: (value: number) => saveSettings({ user_id: user!.id, low_balance_threshold: value }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_settings'] });
+      setIsEditing(false);
+    }
+  });
+
+  const thresholdEditor = isEditing ? (
+    <form
+      className="flex items-end gap-2 mt-4"
+      onSubmit={(e) => { e.preventDefault(); mutation.mutate(Number(thresholdInput) || 0); }}
+    >
+      <div className="w-40">
+        <Input label="Warn me below" type="number" step="0.01" value={thresholdInput} onChange={(e) => setThresholdInput(e.target.value)} />
+      </div>
+      <Button type="submit" isLoading={mutation.isPending}>Save</Button>
+      <Button type="button" variant="ghost" onClick={() => setIsEditing(false)}><X size={16} /></Button>
+    </form>
+  ) : (
+    <button
+      onClick={() => { setThresholdInput(String(threshold)); setIsEditing(true); }}
+      className="text-xs text-gray-500 hover:text-gray-900 inline-flex items-center gap-1 mt-2"
+    >
+      <Pencil size={12} /> Alert threshold ${threshold.toFixed(2)}
+    </button>
+  );
+
+  if (!alert) {
+    return (
+      <Card className="p-6">
+        <div className="flex items-start gap-4">
+          <div className="p-3 bg-green-100 rounded-lg text-green-600">
+            <ShieldCheck size={24} />
+          </div>
+          <div>
+            <p className="text-sm font-medium text-gray-500">Balance Forecast</p>
+            <h4 className="text-lg font-bold text-gray-900">
+              Stays above ${threshold.toFixed(2)} {nextPayday ? `until payday on ${format(nextPayday, 'MMM do')}` : 'for the next month'}
+            </h4>
+            <p className="text-xs text-gray-400">Starting from ${startingBalance.toFixed(2)} in Cash/Bank assets</p>
+            {thresholdEditor}
+          </div>
+        </div>
+      </Card>
+    );
+  }
+
+  const shortfall = alert.threshold - alert.balance;
+
+  return (
+    <Card className="p-6 border-red-200 bg-red-50">
+      <div className="flex items-start gap-4">
+        <div className="p-3 bg-red-100 rounded-lg text-red-600">
+          <AlertTriangle size={24} />
+        </div>
+        <div className="flex-1">
+          <p className="text-sm font-medium text-red-700">
+            {alert.balance < 0 ? 'Overdraft Warning' : 'Low Balance Warning'}
+          </p>
+          <h4 className="text-lg font-bold text-gray-900">
+            Balance drops to ${alert.balance.toFixed(2)} on {format(alert.date, 'EEEE, MMM do')}
+          </h4>
+          <p className="text-sm text-gray-600">
+            ${shortfall.toFixed(2)} below your ${alert.threshold.toFixed(2)} threshold
+            {alert.payday ? `, before payday on ${format(alert.payday, 'MMM do')}` : ''}.
+          </p>
+
+          {alert.causes.length > 0 && (
+            <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="bg-white rounded-lg border p-4">
+                <h5 className="text-sm font-semibold text-gray-700 mb-2">Bills Due Before Then</h5>
+                <ul className="space-y-1 text-sm">
+                  {alert.causes.map((e, i) => (
+                    <li key={i} className="flex justify-between text-gray-600">
+                      <span>{e.stream.label} <span className="text-gray-400">({format(e.date, 'MMM d')})</span></span>
+                      <span className="font-medium text-red-600">-${Math.abs(e.amount).toFixed(2)}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              <div className="bg-white rounded-lg border p-4">
+                <h5 className="text-sm font-semibold text-gray-700 mb-2">Could Move Past Payday</h5>
+                <ul className="space-y-1 text-sm">
+                  {alert.movable.map((m, i) => (
+                    <li key={i} className="flex justify-between items-center text-gray-600">
+                      <span>{m.event.stream.label}</span>
+                      {m.clearsAlert ? (
+                        <span className="text-xs bg-green-100 text-green-700 px-2 py-0.5 rounded-full">Fixes it alone</span>
+                      ) : (
+                        <span className="text-xs text-gray-400">Frees ${Math.abs(m.event.amount).toFixed(2)}</span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </div>
+          )}
+
+          {thresholdEditor}
+        </div>
+      </div>
+    </Card>
+  );
+};
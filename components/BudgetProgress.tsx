@@ -0,0 +1,45 @@
+import React from 'react';
+import { Category } from '../types';
+import { BudgetStatus } from '../lib/budgets';
+import { CategoryBadge } from './CategoryBadge';
+
+interface BudgetProgressProps {
+  status: BudgetStatus;
+  categories: Category[];
+  actions?: React.ReactNode;
+}
+
+// One budget's bar: spent, then bills still to come, against what's available this month
+export const BudgetProgress: React.FC<BudgetProgressProps> = ({ status, categories, actions }) => {
+  const { budget, available, spent, committed, remaining, carried } = status;
+  const scale = Math.max(available, spent + committed, 0.01);
+  const over = remaining < 0;
+
+  return (
+    <div>
+      <div className="flex justify-between items-center text-sm mb-1">
+        <div className="flex items-center gap-2">
+          <CategoryBadge name={budget.category} kind="EXPENSE" categories={categories} />
+          {budget.rollover && carried !== 0 && (
+            <span className={`text-xs ${carried > 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {carried > 0 ? '+' : '-'}${Math.abs(carried).toFixed(2)} rolled over
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <span className={over ? 'font-semibold text-red-600' : 'text-gray-600'}>
+            {over ? `$${Math.abs(remaining).toFixed(2)} over` : `$${remaining.toFixed(2)} left`} of ${available.toFixed(2)}
+          </span>
+          {actions}
+        </div>
+      </div>
+      <div className="h-2 bg-gray-100 rounded-full overflow-hidden flex">
+        <div className={`h-full ${over ? 'bg-red-500' : 'bg-primary-500'}`} style={{ width: `${(spent / scale) * 100}%` }} />
+        <div className="h-full bg-orange-300" style={{ width: `${(committed / scale) * 100}%` }} />
+      </div>
+      <p className="text-xs text-gray-400 mt-1">
+        ${spent.toFixed(2)} spent{committed > 0 && <> · ${committed.toFixed(2)} in bills still due</>}
+      </p>
+    </div>
+  );
+};
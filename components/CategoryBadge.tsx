@@ -0,0 +1,44 @@
+import React from 'react';
+import {
+  Baby, Briefcase, Building2, Bus, Car, Coins, CreditCard, Dog, Dumbbell, Film, Fuel, Gem, Gift,
+  GraduationCap, HeartPulse, Home, Laptop, LucideIcon, Phone, PiggyBank, Plane, Receipt, Shirt,
+  ShoppingCart, Tag, TrendingUp, Utensils, Wifi, Zap
+} from 'lucide-react';
+import { Category, CategoryKind } from '../types';
+import { findCategory, getParentCategory } from '../lib/categories';
+
+// Icons a category can pick from, stored by name
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  Tag, Home, Zap, Utensils, ShoppingCart, Car, Bus, Fuel, HeartPulse, Dumbbell, Film, CreditCard, Receipt,
+  Phone, Wifi, Shirt, Baby, GraduationCap, Plane, Dog, Gift, Briefcase, Laptop, Building2, TrendingUp,
+  PiggyBank, Coins, Gem,
+};
+
+export const CategoryIcon: React.FC<{ icon: string; size?: number; className?: string }> = ({ icon, size = 14, className }) => {
+  const Icon = CATEGORY_ICONS[icon] || Tag;
+  return <Icon size={size} className={className} />;
+};
+
+interface CategoryBadgeProps {
+  name: string;
+  kind: CategoryKind;
+  categories: Category[];
+}
+
+// Pill showing a category in its own colour, with the parent when it's a subcategory
+export const CategoryBadge: React.FC<CategoryBadgeProps> = ({ name, kind, categories }) => {
+  const category = findCategory(categories, kind, name);
+  const parent = getParentCategory(categories, kind, name);
+  const color = category?.color || '#64748b';
+
+  return (
+    <span
+      className="px-2 inline-flex items-center gap-1 text-xs leading-5 font-semibold rounded-full"
+      style={{ backgroundColor: `${color}1a`, color }}
+    >
+      <CategoryIcon icon={category?.icon || 'Tag'} size={12} />
+      {parent && parent.name !== name && <span className="font-normal opacity-75">{parent.name} ›</span>}
+      {name}
+    </span>
+  );
+};
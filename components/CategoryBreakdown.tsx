@@ -0,0 +1,97 @@
+import React, { useMemo, useState } from 'react';
+import { Cell, Pie, PieChart, ResponsiveContainer, Tooltip } from 'recharts';
+import { startOfMonth, startOfYear, subMonths } from 'date-fns';
+import { Card } from './UI';
+import { Category, Transaction } from '../types';
+import { rollUpByParent } from '../lib/categories';
+import { getCategoryLines } from '../lib/splits';
+import { toDate } from '../lib/recurrence';
+
+type Period = 'MONTH' | 'QUARTER' | 'YEAR' | 'ALL';
+
+const PERIODS: { label: string; value: Period }[] = [
+  { label: 'This month', value: 'MONTH' },
+  { label: 'Last 3 months', value: 'QUARTER' },
+  { label: 'This year', value: 'YEAR' },
+  { label: 'All time', value: 'ALL' },
+];
+
+const periodStart = (period: Period, today: Date) => {
+  if (period === 'MONTH') return startOfMonth(today);
+  if (period === 'QUARTER') return startOfMonth(subMonths(today, 2));
+  if (period === 'YEAR') return startOfYear(today);
+  return null;
+};
+
+interface CategoryBreakdownProps {
+  title: string;
+  transactions: Transaction[];
+  categories: Category[];
+  kind: 'INCOME' | 'EXPENSE';
+}
+
+// Totals per top-level category for a period, with subcategories listed under their parent
+export const CategoryBreakdown: React.FC<CategoryBreakdownProps> = ({ title, transactions, categories, kind }) => {
+  const [period, setPeriod] = useState<Period>('MONTH');
+
+  const totals = useMemo(() => {
+    const start = periodStart(period, new Date());
+    const inPeriod = start ? transactions.filter(t => toDate(t.date) >= start) : transactions;
+    return rollUpByParent(getCategoryLines(inPeriod), categories, kind);
+  }, [transactions, categories, kind, period]);
+
+  const grandTotal = totals.reduce((sum, t) => sum + t.amount, 0);
+
+  return (
+    <Card className="p-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+        <select
+          className="rounded-md border-gray-300 text-sm px-2 py-1 border bg-white"
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as Period)}
+        >
+          {PERIODS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+        </select>
+      </div>
+
+      {totals.length === 0 ? (
+        <div className="py-8 text-center text-sm text-gray-400">Nothing recorded in this period.</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
+          <div className="h-[220px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <PieChart>
+                <Pie data={totals} dataKey="amount" nameKey="name" cx="50%" cy="50%" innerRadius={50} outerRadius={90} paddingAngle={2}>
+                  {totals.map(t => <Cell key={t.name} fill={t.color} />)}
+                </Pie>
+                <Tooltip formatter={(value: number) => `$${value.toFixed(2)}`} />
+              </PieChart>
+            </ResponsiveContainer>
+          </div>
+          <ul className="space-y-2 text-sm">
+            {totals.map(t => (
+              <li key={t.name}>
+                <div className="flex justify-between">
+                  <span className="flex items-center gap-2 font-medium text-gray-900">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: t.color }} />
+                    {t.name}
+                  </span>
+                  <span className="text-gray-900">
+                    ${t.amount.toFixed(2)} <span className="text-gray-400">({((t.amount / grandTotal) * 100).toFixed(0)}%)</span>
+                  </span>
+                </div>
+                {t.children.map(c => (
+                  <div key={c.name} className="flex justify-between pl-5 text-gray-500">
+                    <span>{c.name}</span>
+                    <span>${c.amount.toFixed(2)}</span>
+                  </div>
+                ))}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { recordDebtPayment } from '../services/data';
+import { Button, Input, Card } from './UI';
+import { Debt, DebtPayment } from '../types';
+import { getBalanceChange, getBalanceHistory, getLedgerBalances } from '../lib/debts';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { format } from 'date-fns';
+import { toDate } from '../lib/recurrence';
+import { X } from 'lucide-react';
+
+const paymentSchema = z.object({
+  amount: z.coerce.number().positive('Amount must be positive'),
+  date: z.string().min(1, 'Date is required'),
+  notes: z.string().optional(),
+  create_expense: z.boolean(),
+});
+
+type PaymentFormData = z.infer<typeof paymentSchema>;
+
+interface DebtLedgerProps {
+  debt: Debt;
+  entries: DebtPayment[];
+  onClose: () => void;
+}
+
+export const DebtLedger: React.FC<DebtLedgerProps> = ({ debt, entries, onClose }) => {
+  const queryClient = useQueryClient();
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<PaymentFormData>({
+    resolver: zodResolver(paymentSchema),
+    defaultValues: { amount: debt.minimum_payment || undefined, date: format(new Date(), 'yyyy-MM-dd'), create_expense: true }
+  });
+
+  const mutation = useMutation({
+    mutationFn: ({ create_expense, ...payment }: PaymentFormData) => recordDebtPayment(debt, payment, create_expense),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_debts'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_debt_payments'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_expenses'] });
+      reset();
+    }
+  });
+
+  const ledger = useMemo(() => entries.filter(e => e.debt_id === debt.id), [entries, debt.id]);
+
+  const balances = useMemo(
+    () => new Map(getLedgerBalances(debt, entries).rows.map(r => [r.entry.id, r.balance])),
+    [debt, entries]
+  );
+
+  const chartData = useMemo(
+    () => getBalanceHistory(debt, entries).map(p => ({ date: format(toDate(p.date), 'MMM d, yyyy'), Balance: Number(p.balance.toFixed(2)) })),
+    [debt, entries]
+  );
+
+  const totalPaid = ledger.filter(e => e.type === 'PAYMENT').reduce((sum, e) => sum + e.amount, 0);
+  const totalInterest = ledger.filter(e => e.type === 'INTEREST').reduce((sum, e) => sum + e.amount, 0);
+
+  return (
+    <Card className="p-6 space-y-6 animate-in slide-in-from-top-4 duration-200">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-lg font-semibold">{debt.name} Payments</h2>
+          <p className="text-sm text-gray-500">
+            ${totalPaid.toFixed(2)} paid, ${totalInterest.toFixed(2)} interest charged at {debt.interest_rate}% APR
+          </p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+      </div>
+
+      <form onSubmit={handleSubmit((d) => mutation.mutate(d))} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <Input label="Amount" type="number" step="0.01" {...register('amount')} error={errors.amount?.message} />
+        <Input label="Date" type="date" {...register('date')} error={errors.date?.message} />
+        <Input label="Notes" {...register('notes')} placeholder="Optional" />
+        <Button type="submit" variant="danger" isLoading={mutation.isPending}>Record Payment</Button>
+        <label className="flex items-center gap-2 text-sm text-gray-700 md:col-span-4">
+          <input type="checkbox" className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" {...register('create_expense')} />
+          Also add this payment to Expenses under Debt
+        </label>
+      </form>
+
+      <div className="h-[250px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <XAxis dataKey="date" minTickGap={40} />
+            <YAxis />
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <Tooltip formatter={(value: number) => `$${value.toLocaleString()}`} />
+            <Area type="stepAfter" dataKey="Balance" stroke="#ef4444" fill="#fee2e2" />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {ledger.length === 0 ? (
+        <div className="p-6 text-center text-gray-500 border-2 border-dashed rounded-xl text-sm">No payments or interest recorded yet.</div>
+      ) : (
+        <div className="max-h-80 overflow-y-auto border rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Entry</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {ledger.map(entry => (
+                <tr key={entry.id}>
+                  <td className="px-4 py-2 text-gray-500">{format(toDate(entry.date), 'MMM d, yyyy')}</td>
+                  <td className="px-4 py-2 text-gray-900">
+                    {entry.type === 'PAYMENT' ? 'Payment' : entry.type === 'INTEREST' ? 'Interest' : 'Adjustment'}
+                    {entry.notes && <span className="block text-xs text-gray-400">{entry.notes}</span>}
+                  </td>
+                  <td className={`px-4 py-2 text-right font-medium ${getBalanceChange(entry) < 0 ? 'text-green-600' : 'text-red-500'}`}>
+                    {getBalanceChange(entry) < 0 ? '-' : '+'}${Math.abs(entry.amount).toFixed(2)}
+                  </td>
+                  <td className="px-4 py-2 text-right">${(balances.get(entry.id) ?? entry.balance_after).toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,203 @@
+import React, { useMemo, useState } from 'react';
+import { Input, Card } from './UI';
+import { Debt } from '../types';
+import { PAYOFF_STRATEGY_OPTIONS, PayoffStrategy, orderDebts, simulatePayoff } from '../lib/debts';
+import { LineChart, Line, XAxis, YAxis, Tooltip, Legend, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { format } from 'date-fns';
+import { ArrowUp, ArrowDown, TrendingDown } from 'lucide-react';
+
+const STRATEGY_COLORS: Record<PayoffStrategy, string> = {
+  AVALANCHE: '#0ea5e9',
+  SNOWBALL: '#f97316',
+  CUSTOM: '#8b5cf6',
+};
+
+export const DebtPlanner: React.FC<{ debts: Debt[] }> = ({ debts }) => {
+  const [extraInput, setExtraInput] = useState('');
+  const [strategy, setStrategy] = useState<PayoffStrategy>('AVALANCHE');
+  const [customOrder, setCustomOrder] = useState<string[]>([]);
+  const [scheduleDebtId, setScheduleDebtId] = useState<string | null>(null);
+
+  const extraPayment = Number(extraInput) || 0;
+
+  // Start the custom order from whatever the user last arranged, falling back to avalanche order
+  const customDebts = useMemo(
+    () => orderDebts(debts, 'CUSTOM', [...customOrder, ...orderDebts(debts, 'AVALANCHE').map(d => d.id)]),
+    [debts, customOrder]
+  );
+
+  const plans = useMemo(() => PAYOFF_STRATEGY_OPTIONS.map(option => {
+    const order = option.value === 'CUSTOM' ? customDebts : orderDebts(debts, option.value);
+    return { ...option, plan: simulatePayoff(order, extraPayment) };
+  }), [debts, customDebts, extraPayment]);
+
+  const minimumsOnly = useMemo(() => simulatePayoff(orderDebts(debts, 'AVALANCHE'), 0), [debts]);
+  const selected = plans.find(p => p.value === strategy)!;
+  const worstInterest = Math.max(...plans.map(p => p.plan.totalInterest));
+
+  const chartData = useMemo(() => {
+    const length = Math.max(...plans.map(p => p.plan.months.length));
+    return Array.from({ length }, (_, i) => {
+      const point: Record<string, string | number> = { month: '' };
+      plans.forEach(p => {
+        const m = p.plan.months[i];
+        if (m) point.month = m.label;
+        point[p.label] = m ? Number(m.totalBalance.toFixed(2)) : 0;
+      });
+      return point;
+    });
+  }, [plans]);
+
+  const moveDebt = (id: string, direction: -1 | 1) => {
+    const ids = customDebts.map(d => d.id);
+    const index = ids.indexOf(id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    setCustomOrder(ids);
+  };
+
+  const scheduleDebt = debts.find(d => d.id === scheduleDebtId) || selected.plan.order[0];
+
+  if (debts.length === 0) return null;
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
+        <div>
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <TrendingDown size={18} className="text-red-600" /> Payoff Planner
+          </h3>
+          <p className="text-sm text-gray-500">Minimums on everything, then the extra goes to one debt at a time.</p>
+        </div>
+        <div className="w-48">
+          <Input
+            label="Extra Monthly Payment"
+            type="number"
+            step="0.01"
+            min="0"
+            value={extraInput}
+            placeholder="0.00"
+            onChange={(e) => setExtraInput(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {plans.map(p => (
+          <button
+            key={p.value}
+            onClick={() => setStrategy(p.value)}
+            className={`text-left rounded-lg border p-4 transition-all ${strategy === p.value ? 'border-primary-500 ring-2 ring-primary-100' : 'hover:border-gray-300'}`}
+          >
+            <p className="font-semibold text-gray-900">{p.label}</p>
+            <p className="text-xs text-gray-400 mb-3">{p.description}</p>
+            <div className="text-sm space-y-1">
+              <div className="flex justify-between">
+                <span className="text-gray-500">Debt free</span>
+                <span className="font-medium">{p.plan.payoffDate ? format(p.plan.payoffDate, 'MMM yyyy') : 'Never'}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Total interest</span>
+                <span className="font-medium">${p.plan.totalInterest.toFixed(2)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-gray-500">Saved vs costliest</span>
+                <span className="font-medium text-green-600">${(worstInterest - p.plan.totalInterest).toFixed(2)}</span>
+              </div>
+              {extraPayment > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-500">Saved vs minimums only</span>
+                  <span className="font-medium text-green-600">${(minimumsOnly.totalInterest - p.plan.totalInterest).toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+          </button>
+        ))}
+      </div>
+
+      {!selected.plan.payoffDate && (
+        <p className="text-sm text-red-600">These payments don't cover the interest, so the balance never reaches zero. Try a larger extra payment.</p>
+      )}
+
+      <div className="h-[300px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <XAxis dataKey="month" minTickGap={40} />
+            <YAxis />
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <Tooltip formatter={(value: number) => `$${value.toLocaleString()}`} />
+            <Legend />
+            {plans.map(p => (
+              <Line key={p.value} type="monotone" dataKey={p.label} stroke={STRATEGY_COLORS[p.value]} dot={false} strokeWidth={strategy === p.value ? 3 : 1.5} />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">{selected.label} Order</h4>
+          <ol className="space-y-2 text-sm">
+            {selected.plan.debts.map((d, i) => (
+              <li key={d.debt.id} className="flex items-center justify-between bg-gray-50 rounded-md px-3 py-2">
+                <div>
+                  <span className="font-medium text-gray-900">{i + 1}. {d.debt.name}</span>
+                  <span className="block text-xs text-gray-400">
+                    {d.payoffDate ? `Paid off ${format(d.payoffDate, 'MMM yyyy')}` : 'Not paid off'} · ${d.interestPaid.toFixed(2)} interest
+                  </span>
+                </div>
+                {strategy === 'CUSTOM' && (
+                  <div className="flex flex-col">
+                    <button onClick={() => moveDebt(d.debt.id, -1)} className="text-gray-400 hover:text-gray-900" title="Move up"><ArrowUp size={14} /></button>
+                    <button onClick={() => moveDebt(d.debt.id, 1)} className="text-gray-400 hover:text-gray-900" title="Move down"><ArrowDown size={14} /></button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+
+        <div className="lg:col-span-2">
+          <div className="flex justify-between items-center mb-2">
+            <h4 className="text-sm font-semibold text-gray-700">Amortization Schedule</h4>
+            <select
+              className="rounded-md border-gray-300 text-sm px-2 py-1 border bg-white"
+              value={scheduleDebt?.id}
+              onChange={(e) => setScheduleDebtId(e.target.value)}
+            >
+              {selected.plan.order.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+            </select>
+          </div>
+          <div className="max-h-80 overflow-y-auto border rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Month</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Opening</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Interest</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
+                  <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Closing</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {scheduleDebt && selected.plan.months.filter(m => m.rows[scheduleDebt.id]).map(m => {
+                  const row = m.rows[scheduleDebt.id];
+                  return (
+                    <tr key={m.label}>
+                      <td className="px-4 py-2 text-gray-900">{m.label}</td>
+                      <td className="px-4 py-2 text-right text-gray-500">${row.opening.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-right text-red-500">${row.interest.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-right text-green-600">${row.payment.toFixed(2)}</td>
+                      <td className="px-4 py-2 text-right font-medium">${row.closing.toFixed(2)}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </Card>
+  );
+};
@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { supabase } from '../lib/supabase';
+import {
+  fetchEnvelopes, deleteEnvelope, fetchEnvelopeMoves, deleteEnvelopeMove, fetchTransactions,
+  fetchRecurringExpenses, fetchGoals, fetchGoalContributions, fetchCategories
+} from '../services/data';
+import { Button, Input, Select, Card } from './UI';
+import { useAuth } from '../context/AuthContext';
+import { ENVELOPE_KIND_LABELS, getEnvelopeBalances, getEnvelopeStart, getToBeAssigned, getUnassignedIncome } from '../lib/envelopes';
+import { getCategoryOptions } from '../lib/categories';
+import { toDate } from '../lib/recurrence';
+import { EnvelopeKind } from '../types';
+import { ArrowRightLeft, Mail, Plus, Trash2, Undo2, X } from 'lucide-react';
+
+const POOL = 'POOL';
+
+const envelopeSchema = z.object({
+  kind: z.enum(['CATEGORY', 'BILL', 'GOAL']),
+  target: z.string().min(1, 'Pick what this envelope is for'),
+});
+
+const moveSchema = z.object({
+  from: z.string().min(1, 'Pick where the money comes from'),
+  to: z.string().min(1, 'Pick where the money goes'),
+  amount: z.coerce.number().positive('Amount must be positive'),
+  date: z.string().min(1, 'Date is required'),
+  notes: z.string().optional(),
+}).refine(data => data.from !== data.to, {
+  message: 'Pick a different envelope',
+  path: ['to'],
+});
+
+type EnvelopeFormData = z.infer<typeof envelopeSchema>;
+type MoveFormData = z.infer<typeof moveSchema>;
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+// Zero-based budgeting: every dollar of income is given to an envelope, and spending draws the envelope down
+export const EnvelopeBudget: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<'envelope' | 'move' | null>(null);
+
+  const { data: envelopes = [], isLoading } = useQuery({ queryKey: ['assetflow_envelopes'], queryFn: fetchEnvelopes });
+  const { data: moves = [] } = useQuery({ queryKey: ['assetflow_envelope_moves'], queryFn: fetchEnvelopeMoves });
+  const { data: income = [] } = useQuery({ queryKey: ['assetflow_income'], queryFn: () => fetchTransactions('INCOME') });
+  const { data: expenses = [] } = useQuery({ queryKey: ['assetflow_expenses'], queryFn: () => fetchTransactions('EXPENSE') });
+  const { data: bills = [] } = useQuery({ queryKey: ['assetflow_recurring_expenses'], queryFn: fetchRecurringExpenses });
+  const { data: goals = [] } = useQuery({ queryKey: ['assetflow_goals'], queryFn: fetchGoals });
+  const { data: contributions = [] } = useQuery({ queryKey: ['assetflow_goal_contributions'], queryFn: fetchGoalContributions });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+
+  const start = getEnvelopeStart(envelopes);
+  const balances = useMemo(
+    () => getEnvelopeBalances(envelopes, moves, expenses, contributions, categories, bills, goals),
+    [envelopes, moves, expenses, contributions, categories, bills, goals]
+  );
+  const toBeAssigned = useMemo(() => getToBeAssigned(income, moves, start), [income, moves, start]);
+  const unassigned = useMemo(() => getUnassignedIncome(income, moves, start), [income, moves, start]);
+
+  const envelopeForm = useForm<EnvelopeFormData>({
+    resolver: zodResolver(envelopeSchema),
+    defaultValues: { kind: 'CATEGORY', target: '' }
+  });
+  const kind = envelopeForm.watch('kind');
+
+  const moveForm = useForm<MoveFormData>({
+    resolver: zodResolver(moveSchema),
+    defaultValues: { from: POOL, to: '', date: today() }
+  });
+
+  const nameOf = (id?: string | null) => (id ? balances.find(b => b.envelope.id === id)?.name || 'Deleted envelope' : 'To be assigned');
+  const sideOptions = [{ label: 'To be assigned', value: POOL }, ...balances.map(b => ({ label: b.name, value: b.envelope.id }))];
+
+  const targetOptions: Record<EnvelopeKind, { label: string; value: string }[]> = {
+    CATEGORY: getCategoryOptions(categories, 'EXPENSE'),
+    BILL: bills.map(b => ({ label: b.title, value: b.id })),
+    GOAL: goals.map(g => ({ label: g.name, value: g.id })),
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['assetflow_envelopes'] });
+    queryClient.invalidateQueries({ queryKey: ['assetflow_envelope_moves'] });
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    envelopeForm.reset({ kind: 'CATEGORY', target: '' });
+    moveForm.reset({ from: POOL, to: '', date: today() });
+  };
+
+  const openMove = (values: Partial<MoveFormData>) => {
+    setForm('move');
+    moveForm.reset({ from: POOL, to: '', date: today(), ...values });
+  };
+
+  const envelopeMutation = useMutation({
+    mutationFn: async ({ kind, target }: EnvelopeFormData) => {
+      const column = kind === 'CATEGORY' ? 'category' : kind === 'BILL' ? 'recurring_expense_id' : 'goal_id';
+      if (envelopes.some(e => e.kind === kind && e[column] === target)) {
+        throw new Error('There is already an envelope for that.');
+      }
+      const { error } = await supabase.from('assetflow_envelopes').insert([{ user_id: user?.id, kind, [column]: target }]);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      closeForm();
+    }
+  });
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ from, to, ...data }: MoveFormData) => {
+      const available = from === POOL ? toBeAssigned : balances.find(b => b.envelope.id === from)?.balance || 0;
+      if (data.amount > available + 0.005) {
+        throw new Error(`Only $${Math.max(available, 0).toFixed(2)} is available in ${nameOf(from === POOL ? null : from)}.`);
+      }
+      const { error } = await supabase.from('assetflow_envelope_moves').insert([{
+        user_id: user?.id,
+        ...data,
+        from_envelope_id: from === POOL ? null : from,
+        to_envelope_id: to === POOL ? null : to,
+      }]);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      closeForm();
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteEnvelope,
+    onSuccess: invalidate
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: deleteEnvelopeMove,
+    onSuccess: invalidate
+  });
+
+  if (isLoading) return <div className="p-8 text-center text-gray-500">Loading envelopes...</div>;
+
+  return (
+    <div className="space-y-6">
+      <Card className={`p-6 text-center ${toBeAssigned < 0 ? 'bg-red-50' : toBeAssigned > 0 ? 'bg-orange-50' : 'bg-green-50'}`}>
+        <p className="text-sm text-gray-500">To Be Assigned</p>
+        <p className={`text-3xl font-bold ${toBeAssigned < 0 ? 'text-red-600' : toBeAssigned > 0 ? 'text-orange-600' : 'text-green-600'}`}>
+          {toBeAssigned < 0 ? '-' : ''}${Math.abs(toBeAssigned).toFixed(2)}
+        </p>
+        <p className="text-sm text-gray-600 mt-1">
+          {envelopes.length === 0
+            ? 'Create an envelope to start giving your income a job.'
+            : toBeAssigned < 0
+              ? 'More has been assigned than has come in. Move money back from an envelope.'
+              : toBeAssigned > 0 ? 'Assign the rest of your income until this reaches zero.' : 'Every dollar has a job.'}
+        </p>
+      </Card>
+
+      {envelopes.length > 0 && unassigned.length > 0 && (
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold mb-4">Income Waiting to be Assigned</h2>
+          <ul className="divide-y text-sm">
+            {unassigned.map(({ income: entry, remaining }) => (
+              <li key={entry.id} className="flex items-center justify-between py-2">
+                <span className="text-gray-900">
+                  {entry.title}
+                  <span className="text-gray-400 ml-2">{format(toDate(entry.date), 'MMM d, yyyy')}</span>
+                </span>
+                <span className="flex items-center gap-4">
+                  <span className="text-gray-600">
+                    ${remaining.toFixed(2)}{remaining < entry.amount && <span className="text-gray-400"> of ${entry.amount.toFixed(2)}</span>}
+                  </span>
+                  <button onClick={() => openMove({ amount: remaining })} className="text-primary-600 hover:text-primary-800 font-medium">
+                    Assign
+                  </button>
+                </span>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="secondary" onClick={() => (form === 'envelope' ? closeForm() : setForm('envelope'))}>
+          {form === 'envelope' ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> New Envelope</>}
+        </Button>
+        {envelopes.length > 0 && (
+          <Button onClick={() => (form === 'move' ? closeForm() : openMove({}))} variant={form === 'move' ? 'secondary' : 'primary'}>
+            {form === 'move' ? <><X size={16} className="mr-2"/> Cancel</> : <><ArrowRightLeft size={16} className="mr-2"/> Move Money</>}
+          </Button>
+        )}
+      </div>
+
+      {form === 'envelope' && (
+        <Card className="p-6 animate-in slide-in-from-top-4 duration-200">
+          <h2 className="text-lg font-semibold mb-4">New Envelope</h2>
+          <form onSubmit={envelopeForm.handleSubmit((d) => envelopeMutation.mutate(d))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select
+                label="Envelope For"
+                options={Object.entries(ENVELOPE_KIND_LABELS).map(([value, label]) => ({ value, label }))}
+                {...envelopeForm.register('kind', { onChange: () => envelopeForm.setValue('target', '') })}
+              />
+              <Select
+                label={ENVELOPE_KIND_LABELS[kind]}
+                options={targetOptions[kind]}
+                {...envelopeForm.register('target')}
+                error={envelopeForm.formState.errors.target?.message}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Spending draws down from the day the envelope is created: a bill's posted payments, a category's expenses (and its subcategories'), or contributions to a goal.
+            </p>
+            {envelopeMutation.error && <p className="text-sm text-red-600">{envelopeMutation.error.message}</p>}
+            <div className="flex justify-end pt-2">
+              <Button type="submit" isLoading={envelopeMutation.isPending}>Create Envelope</Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      {form === 'move' && (
+        <Card className="p-6 animate-in slide-in-from-top-4 duration-200">
+          <h2 className="text-lg font-semibold mb-4">Move Money</h2>
+          <form onSubmit={moveForm.handleSubmit((d) => moveMutation.mutate(d))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select label="From" options={sideOptions} {...moveForm.register('from')} error={moveForm.formState.errors.from?.message} />
+              <Select label="To" options={sideOptions} {...moveForm.register('to')} error={moveForm.formState.errors.to?.message} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input label="Amount" type="number" step="0.01" {...moveForm.register('amount')} error={moveForm.formState.errors.amount?.message} />
+              <Input label="Date" type="date" {...moveForm.register('date')} error={moveForm.formState.errors.date?.message} />
+              <Input label="Notes (Optional)" {...moveForm.register('notes')} placeholder="e.g. Overspent on groceries" />
+            </div>
+            {moveMutation.error && <p className="text-sm text-red-600">{moveMutation.error.message}</p>}
+            <div className="flex justify-end pt-2">
+              <Button type="submit" isLoading={moveMutation.isPending}>Move Money</Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      {envelopes.length === 0 ? (
+        <div className="p-12 text-center text-gray-500 border-2 border-dashed rounded-xl bg-gray-50">
+          <Mail size={48} className="mx-auto text-gray-300 mb-4" />
+          <p className="text-lg font-medium text-gray-900">No envelopes yet</p>
+          <p>Make an envelope for each category, bill or goal, then share your income out between them.</p>
+        </div>
+      ) : (
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold mb-4">Envelopes</h2>
+          <ul className="divide-y text-sm">
+            {balances.map(({ envelope, name, assigned, spent, balance }) => (
+              <li key={envelope.id} className="flex items-center justify-between py-3">
+                <div>
+                  <span className="font-medium text-gray-900">{name}</span>
+                  <span className="ml-2 text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">{ENVELOPE_KIND_LABELS[envelope.kind]}</span>
+                  <p className="text-xs text-gray-400">${assigned.toFixed(2)} assigned · ${spent.toFixed(2)} spent</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className={`font-semibold ${balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {balance < 0 ? '-' : ''}${Math.abs(balance).toFixed(2)}
+                  </span>
+                  <button onClick={() => openMove({ from: envelope.id })} className="text-gray-400 hover:text-gray-900" title="Move money">
+                    <ArrowRightLeft size={14} />
+                  </button>
+                  <button
+                    onClick={() => { if (confirm(`Delete the ${name} envelope? Money assigned to it from To Be Assigned goes back there. Moves with other envelopes stay in the history.`)) deleteMutation.mutate(envelope.id) }}
+                    className="text-red-600 hover:text-red-900"
+                    title="Delete"
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+
+      {moves.length > 0 && (
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold mb-4">Move History</h2>
+          <ul className="divide-y text-sm">
+            {moves.map(move => (
+              <li key={move.id} className="flex items-center justify-between py-2">
+                <div>
+                  <span className="text-gray-900">{nameOf(move.from_envelope_id)} → {nameOf(move.to_envelope_id)}</span>
+                  <p className="text-xs text-gray-400">
+                    {format(toDate(move.date), 'MMM d, yyyy')}{move.notes && ` · ${move.notes}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="text-gray-600">${move.amount.toFixed(2)}</span>
+                  <button
+                    onClick={() => { if (confirm('Undo this move?')) undoMutation.mutate(move.id) }}
+                    className="text-gray-400 hover:text-gray-900"
+                    title="Undo"
+                  >
+                    <Undo2 size={14} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </Card>
+      )}
+    </div>
+  );
+};
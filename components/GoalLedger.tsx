@@ -0,0 +1,149 @@
+import React, { useMemo } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { supabase } from '../lib/supabase';
+import { deleteGoalContribution } from '../services/data';
+import { Button, Input, Select, Card } from './UI';
+import { Goal, GoalContribution } from '../types';
+import { getGoalProgressHistory } from '../lib/goals';
+import { toDate } from '../lib/recurrence';
+import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine } from 'recharts';
+import { format } from 'date-fns';
+import { Undo2, X } from 'lucide-react';
+
+const contributionSchema = z.object({
+  direction: z.enum(['IN', 'OUT']),
+  amount: z.coerce.number().positive('Amount must be positive'),
+  date: z.string().min(1, 'Date is required'),
+  notes: z.string().optional(),
+});
+
+type ContributionFormData = z.infer<typeof contributionSchema>;
+
+interface GoalLedgerProps {
+  goal: Goal;
+  contributions: GoalContribution[];
+  onClose: () => void;
+}
+
+export const GoalLedger: React.FC<GoalLedgerProps> = ({ goal, contributions, onClose }) => {
+  const queryClient = useQueryClient();
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<ContributionFormData>({
+    resolver: zodResolver(contributionSchema),
+    defaultValues: { direction: 'IN', date: format(new Date(), 'yyyy-MM-dd') }
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['assetflow_goals'] });
+    queryClient.invalidateQueries({ queryKey: ['assetflow_goal_contributions'] });
+  };
+
+  const mutation = useMutation({
+    mutationFn: async ({ direction, amount, ...data }: ContributionFormData) => {
+      if (direction === 'OUT' && amount > goal.current_amount) {
+        throw new Error(`Only $${goal.current_amount.toFixed(2)} is saved in this goal`);
+      }
+      const { error } = await supabase.from('assetflow_goal_contributions').insert([{
+        user_id: goal.user_id,
+        goal_id: goal.id,
+        amount: direction === 'OUT' ? -amount : amount,
+        ...data
+      }]);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      reset({ direction: 'IN', date: format(new Date(), 'yyyy-MM-dd') });
+    }
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: deleteGoalContribution,
+    onSuccess: invalidate
+  });
+
+  const ledger = useMemo(() => contributions.filter(c => c.goal_id === goal.id), [contributions, goal.id]);
+
+  const chartData = useMemo(
+    () => getGoalProgressHistory(goal, contributions).map(p => ({ date: format(toDate(p.date), 'MMM d, yyyy'), Saved: Number(p.balance.toFixed(2)) })),
+    [goal, contributions]
+  );
+
+  return (
+    <Card className="p-6 space-y-6 animate-in slide-in-from-top-4 duration-200">
+      <div className="flex justify-between items-start">
+        <div>
+          <h2 className="text-lg font-semibold">{goal.name} History</h2>
+          <p className="text-sm text-gray-500">${goal.current_amount.toFixed(2)} saved of ${goal.target_amount.toFixed(2)}</p>
+        </div>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600"><X size={18} /></button>
+      </div>
+
+      <form onSubmit={handleSubmit((d) => mutation.mutate(d))} className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+        <Select
+          label="Type"
+          options={[{ label: 'Add money', value: 'IN' }, { label: 'Withdraw', value: 'OUT' }]}
+          {...register('direction')}
+        />
+        <Input label="Amount" type="number" step="0.01" {...register('amount')} error={errors.amount?.message} />
+        <Input label="Date" type="date" {...register('date')} error={errors.date?.message} />
+        <Input label="Notes" {...register('notes')} placeholder="Optional" />
+        <Button type="submit" isLoading={mutation.isPending}>Save</Button>
+      </form>
+      {mutation.error && <p className="text-sm text-red-600">{mutation.error.message}</p>}
+
+      <div className="h-[250px]">
+        <ResponsiveContainer width="100%" height="100%">
+          <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <XAxis dataKey="date" minTickGap={40} />
+            <YAxis />
+            <CartesianGrid strokeDasharray="3 3" vertical={false} />
+            <Tooltip formatter={(value: number) => `$${value.toLocaleString()}`} />
+            <ReferenceLine y={goal.target_amount} stroke="#eab308" strokeDasharray="4 4" label="Target" />
+            <Area type="stepAfter" dataKey="Saved" stroke="#0ea5e9" fill="#e0f2fe" />
+          </AreaChart>
+        </ResponsiveContainer>
+      </div>
+
+      {ledger.length === 0 ? (
+        <div className="p-6 text-center text-gray-500 border-2 border-dashed rounded-xl text-sm">No contributions yet.</div>
+      ) : (
+        <div className="max-h-80 overflow-y-auto border rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Undo</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {ledger.map(c => (
+                <tr key={c.id}>
+                  <td className="px-4 py-2 text-gray-500">{format(toDate(c.date), 'MMM d, yyyy')}</td>
+                  <td className="px-4 py-2 text-gray-900">{c.notes || '-'}</td>
+                  <td className={`px-4 py-2 text-right font-medium ${c.amount >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                    {c.amount >= 0 ? '+' : '-'}${Math.abs(c.amount).toFixed(2)}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => { if (confirm('Undo this entry?')) undoMutation.mutate(c.id) }}
+                      className="text-gray-400 hover:text-red-600"
+                      title="Undo"
+                    >
+                      <Undo2 size={16} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Button } from './UI';
+import { ImportRow } from '../lib/imports';
+import { Category } from '../types';
+import { getCategoryOptions } from '../lib/categories';
+import { toDate } from '../lib/recurrence';
+import { format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+
+interface ImportReviewProps {
+  rows: ImportRow[];
+  categories: Category[];
+  onChange: (rows: ImportRow[]) => void;
+  onConfirm: () => void;
+  isSaving: boolean;
+}
+
+// Review step shared by every statement format: tick rows, fix categories, then insert
+export const ImportReview: React.FC<ImportReviewProps> = ({ rows, categories, onChange, onConfirm, isSaving }) => {
+  const update = (key: string, changes: Partial<ImportRow>) =>
+    onChange(rows.map(r => (r.key === key ? { ...r, ...changes } : r)));
+
+  const selected = rows.filter(r => r.include);
+  const duplicates = rows.filter(r => r.duplicate).length;
+  const allIncluded = rows.length > 0 && selected.length === rows.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-2 text-sm">
+        <p className="text-gray-600">
+          {rows.length} rows read
+          {duplicates > 0 && <span className="text-orange-600"> · {duplicates} look like duplicates</span>}
+        </p>
+        <Button onClick={onConfirm} isLoading={isSaving} disabled={selected.length === 0}>
+          Import {selected.length} Transaction{selected.length === 1 ? '' : 's'}
+        </Button>
+      </div>
+
+      <div className="max-h-[32rem] overflow-y-auto border rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50 sticky top-0">
+            <tr>
+              <th className="px-4 py-2 text-left">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  checked={allIncluded}
+                  onChange={() => onChange(rows.map(r => ({ ...r, include: !allIncluded })))}
+                />
+              </th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Title</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {rows.map(row => (
+              <tr key={row.key} className={row.include ? '' : 'bg-gray-50 text-gray-400'}>
+                <td className="px-4 py-2">
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    checked={row.include}
+                    onChange={(e) => update(row.key, { include: e.target.checked })}
+                  />
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap">{format(toDate(row.date), 'MMM d, yyyy')}</td>
+                <td className="px-4 py-2">
+                  {row.title}
+                  {row.duplicate && (
+                    <span className="ml-2 inline-flex items-center gap-1 text-xs bg-orange-100 text-orange-700 px-2 py-0.5 rounded-full">
+                      <AlertTriangle size={12} /> Likely duplicate
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2">
+                  <select
+                    className="rounded-md border-gray-300 text-sm px-2 py-1 border bg-white"
+                    value={row.category}
+                    onChange={(e) => update(row.key, { category: e.target.value })}
+                  >
+                    {getCategoryOptions(categories, row.type).map(c => <option key={c.value} value={c.value}>{c.label}</option>)}
+                  </select>
+                </td>
+                <td className={`px-4 py-2 text-right font-medium whitespace-nowrap ${row.type === 'INCOME' ? 'text-green-600' : 'text-red-500'}`}>
+                  {row.type === 'INCOME' ? '+' : '-'}${row.amount.toFixed(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
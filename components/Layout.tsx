@@ -12,7 +12,12 @@ import {
   Building2,
   CreditCard,
   Target,
-  FileText
+  FileText,
+  Upload,
+  Wand2,
+  Tags,
+  Landmark,
+  PiggyBank
 } from 'lucide-react';
 
 export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) => {
@@ -25,11 +30,16 @@ export const Layout: React.FC<{ children: React.ReactNode }> = ({ children }) =>
 
   const navItems = [
     { label: 'Dashboard', path: '/', icon: LayoutDashboard },
+    { label: 'Accounts', path: '/accounts', icon: Landmark },
     { label: 'Assets', path: '/assets', icon: Building2 },
     { label: 'Debts', path: '/debts', icon: CreditCard },
     { label: 'Goals', path: '/goals', icon: Target },
     { label: 'Income', path: '/income', icon: TrendingUp },
     { label: 'Expenses', path: '/expenses', icon: TrendingDown },
+    { label: 'Budgets', path: '/budgets', icon: PiggyBank },
+    { label: 'Import', path: '/import', icon: Upload },
+    { label: 'Rules', path: '/rules', icon: Wand2 },
+    { label: 'Categories', path: '/categories', icon: Tags },
     { label: 'Benefits', path: '/benefits', icon: Wallet },
     { label: 'Payday', path: '/payday', icon: CalendarDays },
     { label: 'Projections', path: '/projections', icon: LineChart },
@@ -0,0 +1,144 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { fetchPaydays, fetchTransactions, fetchRecurringExpenses, fetchGoals, fetchGoalContributions, fetchPriceChanges } from '../services/data';
+import { getMainPayday, getPayPeriod, getPayPeriodSummary } from '../lib/payPeriods';
+import { Card, Select } from './UI';
+import { CalendarClock, ChevronLeft, ChevronRight } from 'lucide-react';
+
+// "Left to spend until next payday": budgeting by pay period instead of calendar month
+export const PayPeriodView: React.FC = () => {
+  const [paydayId, setPaydayId] = useState('');
+  const [offset, setOffset] = useState(0);
+
+  const { data: paydays = [], isLoading } = useQuery({ queryKey: ['assetflow_paydays'], queryFn: fetchPaydays });
+  const { data: income = [] } = useQuery({ queryKey: ['assetflow_income'], queryFn: () => fetchTransactions('INCOME') });
+  const { data: expenses = [] } = useQuery({ queryKey: ['assetflow_expenses'], queryFn: () => fetchTransactions('EXPENSE') });
+  const { data: bills = [] } = useQuery({ queryKey: ['assetflow_recurring_expenses'], queryFn: fetchRecurringExpenses });
+  const { data: goals = [] } = useQuery({ queryKey: ['assetflow_goals'], queryFn: fetchGoals });
+  const { data: contributions = [] } = useQuery({ queryKey: ['assetflow_goal_contributions'], queryFn: fetchGoalContributions });
+  const { data: priceChanges = [] } = useQuery({ queryKey: ['assetflow_price_changes'], queryFn: fetchPriceChanges });
+
+  const payday = paydays.find(p => p.id === paydayId) || getMainPayday(paydays);
+  const period = useMemo(() => (payday ? getPayPeriod(payday, offset) : null), [payday, offset]);
+  const summary = useMemo(
+    () => period && getPayPeriodSummary(period, { income, expenses, bills, goals, contributions, paydays, priceChanges }),
+    [period, income, expenses, bills, goals, contributions, paydays, priceChanges]
+  );
+
+  if (isLoading) return <div className="p-8 text-center text-gray-500">Loading pay periods...</div>;
+
+  if (!payday) {
+    return (
+      <div className="p-12 text-center text-gray-500 border-2 border-dashed rounded-xl bg-gray-50">
+        <CalendarClock size={48} className="mx-auto text-gray-300 mb-4" />
+        <p className="text-lg font-medium text-gray-900">No paydays yet</p>
+        <p>Add your pay schedule on the Payday page to budget from one payday to the next.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {paydays.length > 1 && (
+        <div className="max-w-xs">
+          <Select
+            label="Periods Follow"
+            value={payday.id}
+            onChange={e => { setPaydayId(e.target.value); setOffset(0); }}
+            options={paydays.map(p => ({ value: p.id, label: p.name || 'Payday' }))}
+          />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <button
+          onClick={() => setOffset(offset - 1)}
+          disabled={!getPayPeriod(payday, offset - 1)}
+          className="p-2 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+          title="Previous pay period"
+        >
+          <ChevronLeft size={20} />
+        </button>
+        <div className="text-center">
+          <p className="font-semibold text-gray-900">
+            {period ? `${format(period.start, 'MMM d')} – ${format(period.end, 'MMM d, yyyy')}` : 'No pay period'}
+          </p>
+          {offset !== 0 && (
+            <button onClick={() => setOffset(0)} className="text-xs text-primary-600 hover:text-primary-800">Back to this pay period</button>
+          )}
+        </div>
+        <button
+          onClick={() => setOffset(offset + 1)}
+          disabled={offset >= 0}
+          className="p-2 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+          title="Next pay period"
+        >
+          <ChevronRight size={20} />
+        </button>
+      </div>
+
+      {summary && (
+        <>
+          <Card className={`p-6 text-center ${summary.leftToSpend < 0 ? 'bg-red-50' : 'bg-green-50'}`}>
+            <p className="text-sm text-gray-500">{summary.isCurrent ? 'Left to spend until next payday' : 'Left over at the end of the period'}</p>
+            <p className={`text-3xl font-bold ${summary.leftToSpend < 0 ? 'text-red-600' : 'text-green-600'}`}>
+              {summary.leftToSpend < 0 ? '-' : ''}${Math.abs(summary.leftToSpend).toFixed(2)}
+            </p>
+            {summary.safePerDay !== null && (
+              <p className="text-sm text-gray-600 mt-1">
+                ${summary.safePerDay.toFixed(2)} a day safe to spend for the {summary.daysLeft} day{summary.daysLeft === 1 ? '' : 's'} left
+              </p>
+            )}
+          </Card>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card className="p-4">
+              <p className="text-sm text-gray-500">Income Received</p>
+              <p className="text-xl font-bold text-green-600">${summary.incomeReceived.toFixed(2)}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-sm text-gray-500">Bills Paid</p>
+              <p className="text-xl font-bold text-gray-900">${summary.billsPaid.toFixed(2)}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-sm text-gray-500">Other Spending</p>
+              <p className="text-xl font-bold text-gray-900">${summary.otherSpending.toFixed(2)}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-sm text-gray-500">Saved to Goals</p>
+              <p className="text-xl font-bold text-primary-600">${summary.goalsContributed.toFixed(2)}</p>
+              {summary.goalsPlanned > 0 && <p className="text-xs text-gray-400">of ${summary.goalsPlanned.toFixed(2)} planned</p>}
+            </Card>
+          </div>
+
+          {summary.isCurrent && (
+            <Card className="p-6">
+              <h2 className="text-lg font-semibold mb-4">Still to Come Before Payday</h2>
+              {summary.billsDue.length === 0 && summary.goalsStillToSave === 0 ? (
+                <p className="text-sm text-gray-500">Nothing else is due this period.</p>
+              ) : (
+                <ul className="divide-y text-sm">
+                  {summary.billsDue.map(({ bill, date, amount }) => (
+                    <li key={`${bill.id}-${date.getTime()}`} className="flex justify-between py-2">
+                      <span className="text-gray-900">{bill.title}</span>
+                      <span className="text-gray-600">
+                        <span className="text-gray-400 mr-3">{format(date, 'EEE, MMM d')}</span>${amount.toFixed(2)}
+                      </span>
+                    </li>
+                  ))}
+                  {summary.goalsStillToSave > 0 && (
+                    <li className="flex justify-between py-2">
+                      <span className="text-gray-900">Goal saving still to do</span>
+                      <span className="text-gray-600">${summary.goalsStillToSave.toFixed(2)}</span>
+                    </li>
+                  )}
+                </ul>
+              )}
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,44 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { cancelPriceChange } from '../services/data';
+import { getCurrentChange, getScheduledChanges } from '../lib/priceHistory';
+import { toDate } from '../lib/recurrence';
+import { PriceChange } from '../types';
+import { X } from 'lucide-react';
+
+interface PriceHistoryNoteProps {
+  itemId: string;
+  priceChanges: PriceChange[];
+}
+
+// The last price change on a bill or benefit, and any still to come
+export const PriceHistoryNote: React.FC<PriceHistoryNoteProps> = ({ itemId, priceChanges }) => {
+  const queryClient = useQueryClient();
+  const current = getCurrentChange(itemId, priceChanges);
+  const scheduled = getScheduledChanges(itemId, priceChanges);
+
+  const cancelMutation = useMutation({
+    mutationFn: (id: string) => cancelPriceChange(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_price_changes'] })
+  });
+
+  return (
+    <>
+      {current && (
+        <p className="text-xs text-gray-400">
+          was ${current.previous_amount.toFixed(2)} before {format(toDate(current.effective_date), 'MMM d, yyyy')}
+        </p>
+      )}
+      {scheduled.map(change => (
+        <p key={change.id} className="text-xs text-orange-600 flex items-center justify-end gap-1">
+          ${change.amount.toFixed(2)} from {format(toDate(change.effective_date), 'MMM d, yyyy')}
+          <button onClick={() => cancelMutation.mutate(change.id)} className="text-gray-400 hover:text-gray-900" title="Cancel scheduled change">
+            <X size={12} />
+          </button>
+        </p>
+      ))}
+      {cancelMutation.error && <p className="text-xs text-red-600">{cancelMutation.error.message}</p>}
+    </>
+  );
+};
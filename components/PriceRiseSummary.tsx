@@ -0,0 +1,48 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { PriceRise } from '../lib/priceHistory';
+import { toDate } from '../lib/recurrence';
+import { Card } from './UI';
+import { TrendingUp } from 'lucide-react';
+
+interface PriceRiseSummaryProps {
+  rises: PriceRise[];
+}
+
+// Bills that went up (or are set to) this calendar year, and what that adds over a full year
+export const PriceRiseSummary: React.FC<PriceRiseSummaryProps> = ({ rises }) => {
+  const total = rises.reduce((sum, r) => sum + r.annualImpact, 0);
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  return (
+    <Card className="p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-lg font-semibold flex items-center gap-2">
+            <TrendingUp size={18} className="text-red-500" /> Bills That Went Up This Year
+          </h2>
+          <p className="text-sm text-gray-500">Extra cost over a full year at the new prices.</p>
+        </div>
+        <div className="text-right">
+          <p className="text-2xl font-bold text-red-600">+${total.toFixed(2)}</p>
+          <p className="text-xs text-gray-400">a year</p>
+        </div>
+      </div>
+      <ul className="divide-y text-sm">
+        {rises.map(({ bill, change, previousAmount, annualImpact }) => (
+          <li key={change.id} className="flex items-center justify-between py-2">
+            <div>
+              <span className="font-medium text-gray-900">{bill.title}</span>
+              <p className="text-xs text-gray-400">
+                ${previousAmount.toFixed(2)} → ${change.amount.toFixed(2)}
+                {change.effective_date > today ? ' from ' : ' since '}
+                {format(toDate(change.effective_date), 'MMM d')}
+              </p>
+            </div>
+            <span className="font-semibold text-red-600">+${annualImpact.toFixed(2)}/yr</span>
+          </li>
+        ))}
+      </ul>
+    </Card>
+  );
+};
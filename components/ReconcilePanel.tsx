@@ -0,0 +1,169 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { Account, Reconciliation } from '../types';
+import { LedgerEntry, getReconcileSummary } from '../lib/accounts';
+import { toDate } from '../lib/recurrence';
+import { completeReconciliation, undoReconciliation } from '../services/data';
+import { Button, Card, Input } from './UI';
+import { CheckCircle2, Lock, Undo2 } from 'lucide-react';
+
+interface ReconcilePanelProps {
+  account: Account;
+  ledger: LedgerEntry[]; // oldest first
+  reconciliations: Reconciliation[]; // this account's, newest first
+  onDone: () => void;
+}
+
+// Tick off ledger entries against a bank statement until the cleared balance matches it
+export const ReconcilePanel: React.FC<ReconcilePanelProps> = ({ account, ledger, reconciliations, onDone }) => {
+  const queryClient = useQueryClient();
+  const [statementDate, setStatementDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [closingBalance, setClosingBalance] = useState('');
+  const [ticked, setTicked] = useState<Set<string>>(new Set());
+
+  const outstanding = useMemo(
+    () => ledger.filter(e => !e.reconciliation_id && e.date <= statementDate),
+    [ledger, statementDate]
+  );
+  const visibleTicked = useMemo(
+    () => new Set(outstanding.filter(e => ticked.has(e.key)).map(e => e.key)),
+    [outstanding, ticked]
+  );
+
+  const closing = parseFloat(closingBalance);
+  const hasBalance = closingBalance.trim() !== '' && !isNaN(closing);
+  const summary = getReconcileSummary(account, ledger, visibleTicked, hasBalance ? closing : 0);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['assetflow_reconciliations'] });
+    queryClient.invalidateQueries({ queryKey: ['assetflow_income'] });
+    queryClient.invalidateQueries({ queryKey: ['assetflow_expenses'] });
+    queryClient.invalidateQueries({ queryKey: ['assetflow_transfers'] });
+  };
+
+  const finishMutation = useMutation({
+    mutationFn: () => completeReconciliation(
+      account,
+      statementDate,
+      closing,
+      outstanding.filter(e => visibleTicked.has(e.key))
+    ),
+    onSuccess: () => {
+      invalidate();
+      setTicked(new Set());
+      setClosingBalance('');
+      onDone();
+    }
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: undoReconciliation,
+    onSuccess: invalidate
+  });
+
+  const toggle = (key: string) => {
+    const next = new Set(ticked);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    setTicked(next);
+  };
+
+  const toggleAll = () =>
+    setTicked(visibleTicked.size === outstanding.length ? new Set() : new Set(outstanding.map(e => e.key)));
+
+  return (
+    <Card className="p-6 space-y-5 animate-in slide-in-from-top-4 duration-200">
+      <div>
+        <h2 className="text-lg font-semibold">Reconcile {account.name}</h2>
+        <p className="text-sm text-gray-500">Enter the figures from your statement, then tick each transaction that appears on it.</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input label="Statement End Date" type="date" value={statementDate} onChange={e => setStatementDate(e.target.value)} />
+        <Input
+          label="Statement Closing Balance"
+          type="number"
+          step="0.01"
+          value={closingBalance}
+          onChange={e => setClosingBalance(e.target.value)}
+          placeholder="0.00"
+        />
+      </div>
+
+      {outstanding.length === 0 ? (
+        <p className="text-sm text-gray-500">Nothing left to reconcile up to this date.</p>
+      ) : (
+        <div className="border rounded-lg divide-y max-h-96 overflow-y-auto">
+          <label className="flex items-center gap-3 px-4 py-2 bg-gray-50 text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <input type="checkbox" checked={visibleTicked.size === outstanding.length} onChange={toggleAll} />
+            Tick all
+          </label>
+          {outstanding.map(entry => (
+            <label key={entry.key} className="flex items-center gap-3 px-4 py-2 text-sm cursor-pointer hover:bg-gray-50">
+              <input type="checkbox" checked={visibleTicked.has(entry.key)} onChange={() => toggle(entry.key)} />
+              <span className="w-28 text-gray-500">{format(toDate(entry.date), 'MMM d, yyyy')}</span>
+              <span className="flex-1 text-gray-900">{entry.title}</span>
+              <span className={`font-medium ${entry.amount >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                {entry.amount >= 0 ? '+' : '-'}${Math.abs(entry.amount).toFixed(2)}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <p className="text-gray-500">Statement balance</p>
+          <p className="text-lg font-semibold text-gray-900">{hasBalance ? `$${closing.toFixed(2)}` : '—'}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Cleared balance</p>
+          <p className="text-lg font-semibold text-gray-900">${summary.cleared.toFixed(2)}</p>
+        </div>
+        <div>
+          <p className="text-gray-500">Difference</p>
+          <p className={`text-lg font-semibold ${hasBalance && summary.difference === 0 ? 'text-green-600' : 'text-orange-600'}`}>
+            {hasBalance ? `$${summary.difference.toFixed(2)}` : '—'}
+          </p>
+        </div>
+      </div>
+
+      {finishMutation.error && <p className="text-sm text-red-600">{finishMutation.error.message}</p>}
+      <div className="flex justify-between items-center">
+        <p className="text-xs text-gray-500">Reconciled transactions are locked so they can't be edited or deleted by accident.</p>
+        <Button
+          onClick={() => finishMutation.mutate()}
+          disabled={!hasBalance || summary.difference !== 0}
+          isLoading={finishMutation.isPending}
+        >
+          <CheckCircle2 size={16} className="mr-2" /> Finish Reconciliation
+        </Button>
+      </div>
+
+      {reconciliations.length > 0 && (
+        <div className="border-t pt-4">
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Previous Statements</h3>
+          <ul className="space-y-1 text-sm">
+            {reconciliations.map((r, index) => (
+              <li key={r.id} className="flex items-center justify-between">
+                <span className="flex items-center gap-2 text-gray-600">
+                  <Lock size={14} className="text-gray-400" />
+                  {format(toDate(r.statement_date), 'MMM d, yyyy')} · ${r.closing_balance.toFixed(2)}
+                </span>
+                {index === 0 && (
+                  <button
+                    onClick={() => { if (confirm('Undo this reconciliation? Its transactions will be unlocked.')) undoMutation.mutate(r.id) }}
+                    className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-900"
+                  >
+                    <Undo2 size={14} /> Undo
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+};
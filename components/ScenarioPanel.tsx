@@ -0,0 +1,274 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, useWatch } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { supabase } from '../lib/supabase';
+import { deleteScenario } from '../services/data';
+import { Button, Input, Select, Card } from './UI';
+import { useAuth } from '../context/AuthContext';
+import { Scenario, ScenarioAdjustment } from '../types';
+import { CashFlowStream } from '../lib/cashflow';
+import { ADJUSTMENT_TYPE_OPTIONS, describeAdjustment } from '../lib/scenarios';
+import { FREQUENCY_OPTIONS, isValidSchedule, normalizeRRule } from '../lib/recurrence';
+import { Plus, Trash2, X, Pencil, FlaskConical } from 'lucide-react';
+
+const adjustmentSchema = z.object({
+  type: z.enum(['ADD', 'ADD_DEBT', 'REMOVE', 'MODIFY']),
+  kind: z.enum(['PAYDAY', 'BENEFIT', 'BILL']),
+  label: z.string().optional(),
+  amount: z.coerce.number().optional(),
+  frequency: z.enum(['WEEKLY', 'FORTNIGHTLY', 'MONTHLY', 'YEARLY', 'EVERY_X_DAYS', 'SPECIFIC_DAY', 'RRULE']),
+  custom_value: z.coerce.number().optional(),
+  rrule: z.string().optional(),
+  start: z.string().optional(),
+  balance: z.coerce.number().optional(),
+  interest_rate: z.coerce.number().optional(),
+  payment: z.coerce.number().optional(),
+  stream_id: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const require = (ok: unknown, path: string, message: string) => {
+    if (!ok) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message });
+  };
+  if (data.type === 'ADD' || data.type === 'ADD_DEBT') {
+    require(data.label && data.label.length >= 2, 'label', 'Name is required');
+    require(data.start, 'start', 'Start date is required');
+  }
+  if (data.type === 'ADD' || data.type === 'MODIFY') require(data.amount && data.amount > 0, 'amount', 'Amount must be positive');
+  if (data.type === 'ADD' && !isValidSchedule(data)) {
+    if (data.frequency === 'RRULE') require(false, 'rrule', 'Invalid recurrence rule');
+    else require(false, 'custom_value', 'Invalid schedule for selected frequency');
+  }
+  if (data.type === 'ADD_DEBT') {
+    require(data.balance && data.balance > 0, 'balance', 'Balance must be positive');
+    require(data.interest_rate !== undefined && data.interest_rate >= 0, 'interest_rate', 'Interest cannot be negative');
+    require(data.payment && data.payment > 0, 'payment', 'Payment must be positive');
+  }
+  if (data.type === 'REMOVE' || data.type === 'MODIFY') require(data.stream_id, 'stream_id', 'Pick an item');
+});
+
+type AdjustmentFormData = z.infer<typeof adjustmentSchema>;
+
+const toAdjustment = (data: AdjustmentFormData): ScenarioAdjustment => {
+  const id = crypto.randomUUID();
+  switch (data.type) {
+    case 'ADD':
+      return {
+        id,
+        type: 'ADD',
+        kind: data.kind,
+        label: data.label!,
+        amount: data.amount!,
+        frequency: data.frequency,
+        custom_value: data.custom_value,
+        rrule: normalizeRRule(data) || undefined,
+        start: data.start!,
+      };
+    case 'ADD_DEBT':
+      return { id, type: 'ADD_DEBT', label: data.label!, balance: data.balance!, interest_rate: data.interest_rate!, payment: data.payment!, start: data.start! };
+    case 'REMOVE':
+      return { id, type: 'REMOVE', stream_id: data.stream_id! };
+    case 'MODIFY':
+      return { id, type: 'MODIFY', stream_id: data.stream_id!, amount: data.amount! };
+  }
+};
+
+interface ScenarioPanelProps {
+  scenarios: Scenario[];
+  streams: CashFlowStream[];
+  compareIds: string[];
+  onToggleCompare: (id: string) => void;
+}
+
+export const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ scenarios, streams, compareIds, onToggleCompare }) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const editing = scenarios.find(s => s.id === editingId) || null;
+
+  const form = useForm<AdjustmentFormData>({
+    resolver: zodResolver(adjustmentSchema),
+    defaultValues: { type: 'ADD', kind: 'BILL', frequency: 'MONTHLY' }
+  });
+  const adjustmentType = useWatch({ control: form.control, name: 'type' });
+  const selectedFrequency = useWatch({ control: form.control, name: 'frequency' });
+  const errors = form.formState.errors;
+
+  const createMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const { data, error } = await supabase.from('assetflow_scenarios').insert([{
+        user_id: user?.id,
+        name,
+        adjustments: []
+      }]).select().single();
+      if (error) throw error;
+      return data as Scenario;
+    },
+    onSuccess: (scenario) => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_scenarios'] });
+      setNewName('');
+      setEditingId(scenario.id);
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, adjustments }: { id: string; adjustments: ScenarioAdjustment[] }) => {
+      const { error } = await supabase.from('assetflow_scenarios').update({ adjustments }).eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_scenarios'] });
+      form.reset();
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteScenario,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_scenarios'] });
+      setEditingId(null);
+    }
+  });
+
+  const onAddAdjustment = (data: AdjustmentFormData) => {
+    if (!editing) return;
+    saveMutation.mutate({ id: editing.id, adjustments: [...editing.adjustments, toAdjustment(data)] });
+  };
+
+  const removeAdjustment = (adjustmentId: string) => {
+    if (!editing) return;
+    saveMutation.mutate({ id: editing.id, adjustments: editing.adjustments.filter(a => a.id !== adjustmentId) });
+  };
+
+  const streamOptions = streams.map(s => ({ label: `${s.label} ($${Math.abs(s.amount).toFixed(2)})`, value: s.id }));
+
+  return (
+    <Card className="p-6">
+      <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <FlaskConical size={18} className="text-primary-600" /> What-If Scenarios
+      </h3>
+      <p className="text-sm text-gray-500 mb-4">Try out changes without touching your real data. Tick a scenario to chart it against your baseline.</p>
+
+      <form
+        onSubmit={(e) => { e.preventDefault(); if (newName.trim()) createMutation.mutate(newName.trim()); }}
+        className="flex gap-2 mb-4"
+      >
+        <Input placeholder="e.g. Take the new job" value={newName} onChange={(e) => setNewName(e.target.value)} />
+        <Button type="submit" isLoading={createMutation.isPending} className="whitespace-nowrap">
+          <Plus size={16} className="mr-2"/> New Scenario
+        </Button>
+      </form>
+
+      {scenarios.length === 0 ? (
+        <div className="p-6 text-center text-gray-500 border-2 border-dashed rounded-xl text-sm">No scenarios saved yet.</div>
+      ) : (
+        <div className="divide-y border rounded-lg">
+          {scenarios.map(scenario => (
+            <div key={scenario.id} className="flex items-center justify-between px-4 py-3 text-sm">
+              <label className="flex items-center gap-2 font-medium text-gray-900">
+                <input
+                  type="checkbox"
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                  checked={compareIds.includes(scenario.id)}
+                  onChange={() => onToggleCompare(scenario.id)}
+                />
+                {scenario.name}
+                <span className="text-xs text-gray-400 font-normal">{scenario.adjustments.length} change{scenario.adjustments.length === 1 ? '' : 's'}</span>
+              </label>
+              <div className="flex gap-3">
+                <button onClick={() => setEditingId(editingId === scenario.id ? null : scenario.id)} className="text-primary-600 hover:text-primary-900" title="Edit">
+                  <Pencil size={16} />
+                </button>
+                <button onClick={() => { if (confirm('Delete this scenario?')) deleteMutation.mutate(scenario.id) }} className="text-red-600 hover:text-red-900" title="Delete">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {editing && (
+        <div className="mt-6 border-t pt-4 space-y-4">
+          <div className="flex justify-between items-center">
+            <h4 className="font-semibold text-gray-700">Editing "{editing.name}"</h4>
+            <button onClick={() => setEditingId(null)} className="text-gray-400 hover:text-gray-600"><X size={16} /></button>
+          </div>
+
+          {editing.adjustments.length > 0 && (
+            <ul className="space-y-2 text-sm">
+              {editing.adjustments.map(adjustment => (
+                <li key={adjustment.id} className="flex justify-between items-center bg-gray-50 rounded-md px-3 py-2">
+                  <span className="text-gray-700">{describeAdjustment(adjustment, streams)}</span>
+                  <button onClick={() => removeAdjustment(adjustment.id)} className="text-gray-400 hover:text-red-600"><X size={14} /></button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form onSubmit={form.handleSubmit(onAddAdjustment)} className="space-y-4">
+            <Select label="Change" options={ADJUSTMENT_TYPE_OPTIONS} {...form.register('type')} error={errors.type?.message} />
+
+            {adjustmentType === 'ADD' && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <Select
+                    label="Type"
+                    options={[
+                      { label: 'Bill', value: 'BILL' },
+                      { label: 'Salary', value: 'PAYDAY' },
+                      { label: 'Benefit / Other Income', value: 'BENEFIT' },
+                    ]}
+                    {...form.register('kind')}
+                  />
+                  <Input label="Name" {...form.register('label')} error={errors.label?.message} />
+                  <Input label="Amount" type="number" step="0.01" {...form.register('amount')} error={errors.amount?.message} />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Select label="Frequency" options={FREQUENCY_OPTIONS} {...form.register('frequency')} error={errors.frequency?.message} />
+                  <Input label="First Date" type="date" {...form.register('start')} error={errors.start?.message} />
+                </div>
+                {(selectedFrequency === 'EVERY_X_DAYS' || selectedFrequency === 'SPECIFIC_DAY') && (
+                  <Input label={selectedFrequency === 'EVERY_X_DAYS' ? 'Number of Days' : 'Day of Month (1-31)'} type="number" {...form.register('custom_value')} error={errors.custom_value?.message} />
+                )}
+                {selectedFrequency === 'RRULE' && (
+                  <Input label="Recurrence Rule" {...form.register('rrule')} error={errors.rrule?.message} />
+                )}
+              </>
+            )}
+
+            {adjustmentType === 'ADD_DEBT' && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <Input label="Debt Name" {...form.register('label')} error={errors.label?.message} placeholder="e.g. Car Loan" />
+                  <Input label="Amount Borrowed" type="number" step="0.01" {...form.register('balance')} error={errors.balance?.message} />
+                </div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <Input label="Interest Rate (%)" type="number" step="0.01" {...form.register('interest_rate')} error={errors.interest_rate?.message} />
+                  <Input label="Monthly Payment" type="number" step="0.01" {...form.register('payment')} error={errors.payment?.message} />
+                  <Input label="First Payment" type="date" {...form.register('start')} error={errors.start?.message} />
+                </div>
+              </>
+            )}
+
+            {(adjustmentType === 'REMOVE' || adjustmentType === 'MODIFY') && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <Select label="Item" options={streamOptions} {...form.register('stream_id')} error={errors.stream_id?.message} defaultValue="" />
+                {adjustmentType === 'MODIFY' && (
+                  <Input label="New Amount" type="number" step="0.01" {...form.register('amount')} error={errors.amount?.message} />
+                )}
+                <p className="text-xs text-gray-500 md:col-span-2">Debts are included through a bill named after them, or else as their minimum payment each month until paid off.</p>
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button type="submit" isLoading={saveMutation.isPending}>Add Change</Button>
+            </div>
+          </form>
+        </div>
+      )}
+    </Card>
+  );
+};
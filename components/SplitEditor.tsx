@@ -0,0 +1,57 @@
+import React from 'react';
+import { Control, UseFormRegister, useFieldArray, useFormState, useWatch } from 'react-hook-form';
+import { Button, Input, Select } from './UI';
+import { TransactionSplit } from '../types';
+import { sumSplits } from '../lib/splits';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface SplitEditorProps {
+  control: Control<any>;
+  register: UseFormRegister<any>;
+  categoryOptions: { label: string; value: string }[];
+  total: number;
+  error?: string;
+}
+
+// Category/amount/note lines for a form's `splits` field, with what's left to allocate
+export const SplitEditor: React.FC<SplitEditorProps> = ({ control, register, categoryOptions, total, error }) => {
+  const { fields, append, remove } = useFieldArray({ control, name: 'splits' });
+  const lines: TransactionSplit[] = useWatch({ control, name: 'splits' }) || [];
+  const { errors } = useFormState({ control, name: 'splits' });
+  const lineErrors = Array.isArray(errors.splits) ? errors.splits : [];
+  const remaining = Math.round((total - sumSplits(lines)) * 100) / 100;
+
+  return (
+    <div className="rounded-lg border bg-gray-50 p-4 space-y-3">
+      {fields.map((field, index) => (
+        <div key={field.id} className="grid grid-cols-1 md:grid-cols-[2fr_1fr_2fr_auto] gap-2 items-end">
+          <Select label={index === 0 ? 'Category' : undefined} options={categoryOptions} {...register(`splits.${index}.category`)} error={lineErrors[index]?.category?.message} />
+          <Input label={index === 0 ? 'Amount' : undefined} type="number" step="0.01" {...register(`splits.${index}.amount`)} error={lineErrors[index]?.amount?.message} />
+          <Input label={index === 0 ? 'Note' : undefined} {...register(`splits.${index}.notes`)} placeholder="Optional" />
+          <button
+            type="button"
+            onClick={() => remove(index)}
+            disabled={fields.length <= 2}
+            className="p-2 text-red-600 hover:text-red-900 disabled:opacity-30"
+            title="Remove line"
+          >
+            <Trash2 size={16} />
+          </button>
+        </div>
+      ))}
+      <div className="flex justify-between items-center text-sm">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() => append({ category: '', amount: remaining > 0 ? remaining : '', notes: '' })}
+        >
+          <Plus size={14} className="mr-1" /> Add Line
+        </Button>
+        <span className={remaining === 0 ? 'text-green-600' : 'text-orange-600'}>
+          {remaining === 0 ? 'Lines add up to the total' : `$${Math.abs(remaining).toFixed(2)} ${remaining > 0 ? 'left to allocate' : 'over the total'}`}
+        </span>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
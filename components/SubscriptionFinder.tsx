@@ -0,0 +1,128 @@
+import React from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { recordPriceChange } from '../services/data';
+import { DetectedSubscription } from '../lib/subscriptions';
+import { toDate } from '../lib/recurrence';
+import { PriceChange } from '../types';
+import { Button, Card } from './UI';
+import { Plus, Repeat, TrendingUp, PauseCircle } from 'lucide-react';
+
+interface SubscriptionFinderProps {
+  subscriptions: DetectedSubscription[];
+  priceChanges: PriceChange[];
+  onAddBill: (subscription: DetectedSubscription) => void;
+}
+
+const FREQUENCY_LABELS = { WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' };
+
+const billIsOut = (s: DetectedSubscription) => !!s.bill && Math.abs(s.bill.amount - s.amount) >= 0.01;
+
+// Repeating charges found in expense history: new ones to set up as bills, price changes and ones that stopped
+export const SubscriptionFinder: React.FC<SubscriptionFinderProps> = ({ subscriptions, priceChanges, onAddBill }) => {
+  const queryClient = useQueryClient();
+
+  const suggestions = subscriptions.filter(s => !s.bill && !s.stopped);
+  const repriced = subscriptions.filter(s => !s.stopped && (s.previousAmount !== null || billIsOut(s)));
+  const stopped = subscriptions.filter(s => s.stopped);
+
+  // The bill's old amount goes into its price history, effective from when the charge changed
+  const updateMutation = useMutation({
+    mutationFn: (s: DetectedSubscription) =>
+      recordPriceChange('BILL', s.bill!, s.amount, s.priceChangedOn || s.lastDate, priceChanges),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_recurring_expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_price_changes'] });
+    }
+  });
+
+  if (!suggestions.length && !repriced.length && !stopped.length) return null;
+
+  return (
+    <Card className="p-6 space-y-5">
+      <div>
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Repeat size={18} className="text-primary-600" /> Detected Subscriptions
+        </h2>
+        <p className="text-sm text-gray-500">Found by looking for the same charge repeating weekly, monthly or yearly in your expense history.</p>
+      </div>
+
+      {suggestions.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Not Set Up as Bills</h3>
+          <ul className="divide-y border rounded-lg text-sm">
+            {suggestions.map(s => (
+              <li key={s.key} className="flex items-center justify-between px-4 py-3">
+                <div>
+                  <span className="font-medium text-gray-900">{s.title}</span>
+                  <span className="ml-2 text-xs bg-orange-100 text-orange-800 px-2 py-0.5 rounded-full">{FREQUENCY_LABELS[s.frequency]}</span>
+                  <p className="text-xs text-gray-400">
+                    {s.count} charges · next expected {format(toDate(s.nextDueDate), 'MMM d')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold text-red-600">${s.amount.toFixed(2)}</span>
+                  <Button variant="secondary" onClick={() => onAddBill(s)}>
+                    <Plus size={14} className="mr-1" /> Add as Bill
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {repriced.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Price Changes</h3>
+          <ul className="divide-y border rounded-lg text-sm">
+            {repriced.map(s => (
+              <li key={s.key} className="flex items-center justify-between px-4 py-3">
+                <div>
+                  <span className="font-medium text-gray-900 flex items-center gap-2">
+                    <TrendingUp size={14} className="text-orange-500" /> {s.bill?.title || s.title}
+                  </span>
+                  <p className="text-xs text-gray-500">
+                    {s.previousAmount !== null && s.priceChangedOn
+                      ? `$${s.previousAmount.toFixed(2)} → $${s.amount.toFixed(2)} since ${format(toDate(s.priceChangedOn), 'MMM d, yyyy')}`
+                      : `Last charged $${s.amount.toFixed(2)}`}
+                    {billIsOut(s) && ` · your bill still says $${s.bill!.amount.toFixed(2)}`}
+                  </p>
+                </div>
+                {billIsOut(s) && (
+                  <Button
+                    variant="secondary"
+                    isLoading={updateMutation.isPending && updateMutation.variables?.key === s.key}
+                    onClick={() => updateMutation.mutate(s)}
+                  >
+                    Update Bill
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+          {updateMutation.error && <p className="text-sm text-red-600 mt-2">{updateMutation.error.message}</p>}
+        </div>
+      )}
+
+      {stopped.length > 0 && (
+        <div>
+          <h3 className="text-sm font-semibold text-gray-900 mb-2">Stopped Recurring</h3>
+          <ul className="divide-y border rounded-lg text-sm">
+            {stopped.map(s => (
+              <li key={s.key} className="flex items-center justify-between px-4 py-3">
+                <span className="font-medium text-gray-900 flex items-center gap-2">
+                  <PauseCircle size={14} className="text-gray-400" /> {s.bill?.title || s.title}
+                </span>
+                <span className="text-xs text-gray-500">
+                  Last charged {format(toDate(s.lastDate), 'MMM d, yyyy')}
+                  {s.bill && <span className="text-orange-600"> · still set up as a bill</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,87 @@
+import { Account, AccountType, Transaction, Transfer } from '../types';
+
+export const ACCOUNT_TYPE_OPTIONS: { label: string; value: AccountType }[] = [
+  { label: 'Current account', value: 'CURRENT' },
+  { label: 'Savings', value: 'SAVINGS' },
+  { label: 'Credit card', value: 'CREDIT' },
+  { label: 'Cash', value: 'CASH' },
+];
+
+export const describeAccountType = (type: AccountType) =>
+  ACCOUNT_TYPE_OPTIONS.find(o => o.value === type)?.label || type;
+
+export interface LedgerEntry {
+  key: string;
+  source_id: string; // the transaction or transfer behind this entry
+  date: string;
+  title: string;
+  kind: 'INCOME' | 'EXPENSE' | 'TRANSFER_IN' | 'TRANSFER_OUT';
+  amount: number;   // signed: positive into the account
+  balance: number;  // running balance after this entry
+  reconciliation_id: string | null;
+}
+
+// Every movement in or out of an account, oldest first, with the balance after each one
+export const getAccountLedger = (account: Account, transactions: Transaction[], transfers: Transfer[]): LedgerEntry[] => {
+  const entries: Omit<LedgerEntry, 'balance'>[] = [
+    ...transactions
+      .filter(t => t.account_id === account.id)
+      .map(t => ({
+        key: `${t.type}-${t.id}`,
+        source_id: t.id,
+        date: t.date,
+        title: t.title,
+        kind: t.type,
+        amount: t.type === 'INCOME' ? t.amount : -t.amount,
+        reconciliation_id: t.reconciliation_id || null,
+      })),
+    ...transfers
+      .filter(t => t.from_account_id === account.id || t.to_account_id === account.id)
+      .map(t => {
+        const incoming = t.to_account_id === account.id;
+        return {
+          key: `transfer-${t.id}`,
+          source_id: t.id,
+          date: t.date,
+          title: t.notes || (incoming ? 'Transfer in' : 'Transfer out'),
+          kind: incoming ? 'TRANSFER_IN' as const : 'TRANSFER_OUT' as const,
+          amount: incoming ? t.amount : -t.amount,
+          reconciliation_id: (incoming ? t.to_reconciliation_id : t.from_reconciliation_id) || null,
+        };
+      }),
+  ].sort((a, b) => a.date.localeCompare(b.date));
+
+  let balance = account.opening_balance;
+  return entries.map(entry => {
+    balance = Math.round((balance + entry.amount) * 100) / 100;
+    return { ...entry, balance };
+  });
+};
+
+export const getAccountBalance = (account: Account, transactions: Transaction[], transfers: Transfer[]) => {
+  const ledger = getAccountLedger(account, transactions, transfers);
+  return ledger.length ? ledger[ledger.length - 1].balance : account.opening_balance;
+};
+
+export const getAccountBalances = (accounts: Account[], transactions: Transaction[], transfers: Transfer[]) =>
+  new Map(accounts.map(a => [a.id, getAccountBalance(a, transactions, transfers)]));
+
+export const isTransferEntry = (entry: LedgerEntry) => entry.kind === 'TRANSFER_IN' || entry.kind === 'TRANSFER_OUT';
+
+export interface ReconcileSummary {
+  cleared: number;     // opening balance plus everything reconciled before and ticked now
+  difference: number;  // statement balance minus cleared; zero when the statement is matched
+}
+
+export const getReconcileSummary = (
+  account: Account,
+  ledger: LedgerEntry[],
+  ticked: Set<string>,
+  closingBalance: number
+): ReconcileSummary => {
+  const cleared = ledger
+    .filter(e => e.reconciliation_id || ticked.has(e.key))
+    .reduce((sum, e) => sum + e.amount, account.opening_balance);
+  const rounded = Math.round(cleared * 100) / 100;
+  return { cleared: rounded, difference: Math.round((closingBalance - rounded) * 100) / 100 };
+};
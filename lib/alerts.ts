@@ -0,0 +1,59 @@
+import { addDays, addMonths, format, startOfDay } from 'date-fns';
+import { CashFlowEvent, CashFlowStream, collectCashFlowEvents } from './cashflow';
+
+// How far ahead to look for the next payday before falling back to a one-month window
+const PAYDAY_LOOKAHEAD_MONTHS = 3;
+
+export interface MovableBill {
+  event: CashFlowEvent;
+  clearsAlert: boolean;   // moving just this bill past payday keeps the balance above the threshold
+}
+
+export interface LowBalanceAlert {
+  date: Date;             // first day the projected balance sits below the threshold
+  balance: number;        // projected balance at the end of that day
+  threshold: number;
+  payday: Date | null;    // next payday, which closes the warning window
+  causes: CashFlowEvent[];  // bills due from today up to and including the offending date
+  movable: MovableBill[];
+}
+
+// First day (by end-of-day balance) that drops below the threshold, or null if it never does
+const findBreach = (events: CashFlowEvent[], startingBalance: number, threshold: number, start: Date) => {
+  if (startingBalance < threshold) return { date: start, balance: startingBalance };
+
+  let balance = startingBalance;
+  for (let i = 0; i < events.length; i++) {
+    balance += events[i].amount;
+    const endOfDay = i === events.length - 1 || format(events[i + 1].date, 'yyyy-MM-dd') !== format(events[i].date, 'yyyy-MM-dd');
+    if (endOfDay && balance < threshold) return { date: events[i].date, balance };
+  }
+  return null;
+};
+
+// Warns when the balance is projected to dip below the threshold before the next payday lands
+export const getLowBalanceAlert = (
+  streams: CashFlowStream[],
+  startingBalance: number,
+  threshold: number,
+  from: Date = new Date()
+): LowBalanceAlert | null => {
+  const start = startOfDay(from);
+  const upcoming = collectCashFlowEvents(streams, start, addMonths(start, PAYDAY_LOOKAHEAD_MONTHS));
+  const payday = upcoming.find(e => e.stream.kind === 'PAYDAY' && e.amount > 0 && e.date > start)?.date || null;
+  const windowEnd = payday ? addDays(payday, -1) : addDays(addMonths(start, 1), -1);
+
+  const events = upcoming.filter(e => e.date <= windowEnd);
+  const breach = findBreach(events, startingBalance, threshold, start);
+  if (!breach) return null;
+
+  const causes = events.filter(e => e.stream.kind === 'BILL' && e.date <= breach.date);
+  const movable = causes
+    .map(event => ({
+      event,
+      clearsAlert: !findBreach(events.filter(e => e !== event), startingBalance, threshold, start),
+    }))
+    .sort((a, b) => a.event.amount - b.event.amount);
+
+  return { ...breach, threshold, payday, causes, movable };
+};
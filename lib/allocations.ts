@@ -0,0 +1,52 @@
+import { AllocationRule, AllocationRuleType, Goal } from '../types';
+
+export const ALLOCATION_TYPE_OPTIONS: { label: string; value: AllocationRuleType }[] = [
+  { label: 'Percentage of the income', value: 'PERCENT' },
+  { label: 'Fixed amount from each income entry', value: 'FIXED' },
+];
+
+export interface Allocation {
+  rule: AllocationRule;
+  goal: Goal;
+  amount: number;
+}
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+// Runs the active rules in order against one income entry. Each rule draws from what earlier
+// rules left over, and never puts more into a goal than it still needs.
+export const getAllocations = (
+  income: { amount: number; category: string },
+  rules: AllocationRule[],
+  goals: Goal[]
+): Allocation[] => {
+  let available = income.amount;
+  const needed = new Map(goals.map(g => [g.id, Math.max(g.target_amount - g.current_amount, 0)]));
+  const allocations: Allocation[] = [];
+
+  [...rules]
+    .sort((a, b) => a.position - b.position)
+    .forEach(rule => {
+      const goal = goals.find(g => g.id === rule.goal_id);
+      if (!goal || rule.paused || available <= 0) return;
+      if (rule.category && rule.category !== income.category) return;
+
+      const wanted = rule.type === 'PERCENT' ? income.amount * rule.value / 100 : rule.value;
+      const amount = roundCents(Math.min(wanted, available, needed.get(goal.id)!));
+      if (amount <= 0) return;
+
+      available = roundCents(available - amount);
+      needed.set(goal.id, needed.get(goal.id)! - amount);
+      allocations.push({ rule, goal, amount });
+    });
+
+  return allocations;
+};
+
+export const describeAllocationRule = (rule: AllocationRule, goals: Goal[]) => {
+  const goalName = goals.find(g => g.id === rule.goal_id)?.name || 'Deleted goal';
+  const source = rule.category ? `${rule.category} income` : 'income';
+  return rule.type === 'PERCENT'
+    ? `${rule.value}% of every ${source} into ${goalName}`
+    : `$${rule.value} from each ${source} entry into ${goalName}`;
+};
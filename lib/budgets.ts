@@ -0,0 +1,106 @@
+import { addMonths, endOfMonth, format, isBefore, startOfDay, startOfMonth } from 'date-fns';
+import { Budget, BudgetLimit, Category, PriceChange, RecurringExpense, Transaction } from '../types';
+import { getParentCategory } from './categories';
+import { getAmountOn } from './priceHistory';
+import { getOccurrencesBetween, toDate } from './recurrence';
+import { getCategoryLines } from './splits';
+
+export interface BudgetStatus {
+  budget: Budget;
+  carried: number;   // rolled over from earlier months; negative after overspending
+  available: number; // this month's limit plus what was carried
+  spent: number;
+  committed: number; // recurring bills still to come out this month
+  remaining: number; // available less spent and committed
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// Spending filed under a subcategory also counts towards its parent's budget
+export const isInBudget = (budget: Pick<Budget, 'category'>, category: string, categories: Category[]) =>
+  category === budget.category || getParentCategory(categories, 'EXPENSE', category)?.name === budget.category;
+
+// The one budget a category's spending counts towards: its own if it has one, else its parent's
+const findBudget = (budgets: Budget[], category: string, categories: Category[]) =>
+  budgets.find(b => b.category === category) || budgets.find(b => isInBudget(b, category, categories));
+
+const monthKey = (date: Date) => format(date, 'yyyy-MM');
+
+// The limit in force in a month. Budgets saved before limits were tracked have only `amount`.
+export const getLimitFor = (budget: Budget, month: Date) => {
+  if (!budget.limits?.length) return budget.amount;
+  const key = monthKey(month);
+  return [...budget.limits].reverse().find(l => l.from <= key)?.amount ?? budget.limits[0].amount;
+};
+
+// A new limit applies from this month on; earlier months keep theirs so what they rolled over doesn't change
+export const withNewLimit = (budget: Budget, amount: number, today: Date = new Date()): BudgetLimit[] => {
+  const from = monthKey(today);
+  const history = budget.limits?.length
+    ? budget.limits
+    : [{ from: budget.created_at?.slice(0, 7) || from, amount: budget.amount }];
+  return [...history.filter(l => l.from < from), { from, amount }];
+};
+
+// Bill occurrences not yet posted that fall in the month, each at the price on its date. Past months have nothing left to commit.
+const getCommitted = (
+  budget: Budget,
+  budgets: Budget[],
+  bills: RecurringExpense[],
+  priceChanges: PriceChange[],
+  categories: Category[],
+  month: Date,
+  today: Date
+) => {
+  const from = startOfMonth(month);
+  const to = endOfMonth(month);
+  if (isBefore(to, startOfDay(today))) return 0;
+  return bills
+    .filter(bill => findBudget(budgets, bill.category, categories)?.id === budget.id)
+    .flatMap(bill => getOccurrencesBetween(bill.next_due_date, bill, from, to).map(date => getAmountOn(bill, priceChanges, date)))
+    .reduce((sum, amount) => sum + amount, 0);
+};
+
+export const getBudgetStatuses = (
+  budgets: Budget[],
+  expenses: Transaction[],
+  bills: RecurringExpense[],
+  priceChanges: PriceChange[],
+  categories: Category[],
+  month: Date,
+  today: Date = new Date()
+): BudgetStatus[] => {
+  const lines = getCategoryLines(expenses);
+  const current = startOfMonth(month);
+
+  return budgets.map(budget => {
+    const spentByMonth = new Map<string, number>();
+    lines
+      .filter(line => findBudget(budgets, line.category, categories)?.id === budget.id)
+      .forEach(line => {
+        const key = line.date.slice(0, 7);
+        spentByMonth.set(key, (spentByMonth.get(key) || 0) + line.amount);
+      });
+
+    // Each earlier month passes on whatever it didn't use, or the overspend
+    let carried = 0;
+    if (budget.rollover && budget.created_at) {
+      for (let m = startOfMonth(toDate(budget.created_at.slice(0, 10))); isBefore(m, current); m = addMonths(m, 1)) {
+        carried += getLimitFor(budget, m) - (spentByMonth.get(monthKey(m)) || 0);
+      }
+    }
+
+    const available = round(getLimitFor(budget, current) + carried);
+    const spent = round(spentByMonth.get(monthKey(current)) || 0);
+    const committed = round(getCommitted(budget, budgets, bills, priceChanges, categories, current, today));
+    return { budget, carried: round(carried), available, spent, committed, remaining: round(available - spent - committed) };
+  });
+};
+
+// Expense lines in the month that no budget covers
+export const getUnbudgetedSpend = (budgets: Budget[], expenses: Transaction[], categories: Category[], month: Date) => {
+  const key = monthKey(month);
+  return round(getCategoryLines(expenses)
+    .filter(line => line.date.startsWith(key) && !budgets.some(b => isInBudget(b, line.category, categories)))
+    .reduce((sum, line) => sum + line.amount, 0));
+};
@@ -0,0 +1,192 @@
+import { addDays, addMonths, format, isSameMonth, startOfDay, startOfMonth } from 'date-fns';
+import { Asset, Benefit, Debt, Payday, PriceChange, RecurringExpense } from '../types';
+import { Schedule, getOccurrencesBetween } from './recurrence';
+import { getNetPay } from './pay';
+import { getAmountOn, getPriceHistory } from './priceHistory';
+import { getPayoffMonths } from './debts';
+
+export type CashFlowKind = 'PAYDAY' | 'BENEFIT' | 'BILL';
+
+// Anything that moves money on a schedule. Inflows are positive, outflows negative.
+export interface CashFlowStream {
+  id: string;
+  label: string;
+  kind: CashFlowKind;
+  amount: number;
+  start: string;
+  schedule: Schedule;
+  category?: string;
+  amountOn?: (date: Date) => number; // when the amount changes over time; same sign as `amount`
+  debt?: Pick<Debt, 'balance' | 'interest_rate'>; // set on a debt's payments, which stop once it's paid off
+}
+
+export interface CashFlowEvent {
+  date: Date;
+  stream: CashFlowStream;
+  amount: number;
+}
+
+export interface CashFlowDay {
+  date: Date;
+  balance: number;
+  inflow: number;
+  outflow: number;
+  events: CashFlowEvent[];
+}
+
+export interface CashFlowMonth {
+  month: Date;
+  label: string;
+  income: number;
+  expenses: number;
+  net: number;
+  lowestBalance: number;
+  lowestDate: Date;
+  closingBalance: number;
+}
+
+export interface CashFlowProjection {
+  days: CashFlowDay[];
+  months: CashFlowMonth[];
+  lowest: { date: Date; balance: number };
+  closingBalance: number;
+}
+
+export const HORIZON_OPTIONS = [3, 6, 12, 24];
+
+// Money sitting in bank-type assets, used as the default starting balance
+export const getCashOnHand = (assets: Asset[]) =>
+  assets.filter(a => a.type === 'Cash/Bank').reduce((sum, a) => sum + a.value, 0);
+
+// Follows an item's price history, if it has one
+const priced = (item: Benefit | RecurringExpense, priceChanges: PriceChange[], sign: 1 | -1) =>
+  getPriceHistory(item.id, priceChanges).length ? (date: Date) => sign * getAmountOn(item, priceChanges, date) : undefined;
+
+// Monthly payments until the balance is cleared, or for good if they never cover the interest
+export const debtPaymentSchedule = (balance: number, interestRate: number, payment: number): Schedule => {
+  const months = getPayoffMonths(balance, interestRate, payment);
+  return { frequency: 'RRULE', rrule: months ? `FREQ=MONTHLY;COUNT=${months}` : 'FREQ=MONTHLY' };
+};
+
+const normaliseName = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// A bill named after the debt (e.g. "Car Loan payment") already carries its payments
+const isPaidByBill = (debt: Debt, bills: RecurringExpense[]) =>
+  bills.some(bill => normaliseName(bill.title).includes(normaliseName(debt.name)));
+
+export const toCashFlowStreams = (
+  paydays: Payday[],
+  benefits: Benefit[],
+  bills: RecurringExpense[],
+  priceChanges: PriceChange[] = [],
+  debts: Debt[] = [],
+  today: Date = new Date()
+): CashFlowStream[] => [
+  ...paydays.map(pd => ({
+    id: pd.id,
+    label: pd.name || 'Payday',
+    kind: 'PAYDAY' as const,
+    amount: getNetPay(pd),
+    start: pd.next_payday_date,
+    schedule: pd,
+  })),
+  ...benefits.map(b => ({
+    id: b.id,
+    label: b.benefit_name,
+    kind: 'BENEFIT' as const,
+    amount: b.amount,
+    start: b.next_payment_date,
+    schedule: b,
+    amountOn: priced(b, priceChanges, 1),
+  })),
+  ...bills.map(bill => ({
+    id: bill.id,
+    label: bill.title,
+    kind: 'BILL' as const,
+    amount: -bill.amount,
+    start: bill.next_due_date,
+    schedule: bill,
+    category: bill.category,
+    amountOn: priced(bill, priceChanges, -1),
+  })),
+  // Debts have no due date of their own, so their minimum payment is taken from the start of next month
+  ...debts
+    .filter(debt => debt.balance > 0 && debt.minimum_payment > 0 && !isPaidByBill(debt, bills))
+    .map(debt => ({
+      id: debt.id,
+      label: debt.name,
+      kind: 'BILL' as const,
+      amount: -debt.minimum_payment,
+      start: format(startOfMonth(addMonths(today, 1)), 'yyyy-MM-dd'),
+      schedule: debtPaymentSchedule(debt.balance, debt.interest_rate, debt.minimum_payment),
+      category: 'Debt',
+      debt,
+    })),
+];
+
+// Every dated movement from the given streams within [from, to]
+export const collectCashFlowEvents = (streams: CashFlowStream[], from: Date, to: Date) =>
+  streams
+    .filter(stream => stream.amount !== 0 || stream.amountOn)
+    .flatMap(stream =>
+      getOccurrencesBetween(stream.start, stream.schedule, from, to)
+        .map(date => ({ date, stream, amount: stream.amountOn ? stream.amountOn(date) : stream.amount }))
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+// Walks each day from `from` for `months` months, applying every occurrence to the running balance
+export const simulateCashFlow = (
+  streams: CashFlowStream[],
+  startingBalance: number,
+  months: number,
+  from: Date = new Date()
+): CashFlowProjection => {
+  const start = startOfDay(from);
+  const end = addDays(addMonths(start, months), -1);
+
+  const eventsByDay = new Map<string, CashFlowEvent[]>();
+  collectCashFlowEvents(streams, start, end).forEach(event => {
+    const key = format(event.date, 'yyyy-MM-dd');
+    eventsByDay.set(key, [...(eventsByDay.get(key) || []), event]);
+  });
+
+  const days: CashFlowDay[] = [];
+  const monthly: CashFlowMonth[] = [];
+  let balance = startingBalance;
+  let lowest = { date: start, balance: startingBalance };
+
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    const events = eventsByDay.get(format(date, 'yyyy-MM-dd')) || [];
+    const inflow = events.filter(e => e.amount > 0).reduce((sum, e) => sum + e.amount, 0);
+    const outflow = events.filter(e => e.amount < 0).reduce((sum, e) => sum - e.amount, 0);
+    balance += inflow - outflow;
+    days.push({ date, balance, inflow, outflow, events });
+
+    if (balance < lowest.balance) lowest = { date, balance };
+
+    let month = monthly[monthly.length - 1];
+    if (!month || !isSameMonth(month.month, date)) {
+      month = {
+        month: date,
+        label: format(date, 'MMM yyyy'),
+        income: 0,
+        expenses: 0,
+        net: 0,
+        lowestBalance: balance,
+        lowestDate: date,
+        closingBalance: balance,
+      };
+      monthly.push(month);
+    }
+    month.income += inflow;
+    month.expenses += outflow;
+    month.net = month.income - month.expenses;
+    month.closingBalance = balance;
+    if (balance < month.lowestBalance) {
+      month.lowestBalance = balance;
+      month.lowestDate = date;
+    }
+  }
+
+  return { days, months: monthly, lowest, closingBalance: balance };
+};
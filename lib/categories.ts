@@ -0,0 +1,104 @@
+import { Category, CategoryKind } from '../types';
+
+export const CATEGORY_COLORS = [
+  '#0ea5e9', '#22c55e', '#eab308', '#f97316', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#64748b',
+];
+
+// Starting set for new users, and what the pickers fall back to before any categories exist
+export const DEFAULT_CATEGORIES: Pick<Category, 'kind' | 'name' | 'color' | 'icon'>[] = [
+  { kind: 'INCOME', name: 'Salary', color: '#22c55e', icon: 'Briefcase' },
+  { kind: 'INCOME', name: 'Freelance', color: '#14b8a6', icon: 'Laptop' },
+  { kind: 'INCOME', name: 'Business', color: '#0ea5e9', icon: 'Building2' },
+  { kind: 'INCOME', name: 'Investment', color: '#8b5cf6', icon: 'TrendingUp' },
+  { kind: 'INCOME', name: 'Gift', color: '#ec4899', icon: 'Gift' },
+  { kind: 'INCOME', name: 'Other', color: '#64748b', icon: 'Tag' },
+  { kind: 'EXPENSE', name: 'Housing', color: '#0ea5e9', icon: 'Home' },
+  { kind: 'EXPENSE', name: 'Utilities', color: '#eab308', icon: 'Zap' },
+  { kind: 'EXPENSE', name: 'Food', color: '#22c55e', icon: 'Utensils' },
+  { kind: 'EXPENSE', name: 'Transport', color: '#f97316', icon: 'Car' },
+  { kind: 'EXPENSE', name: 'Healthcare', color: '#ef4444', icon: 'HeartPulse' },
+  { kind: 'EXPENSE', name: 'Entertainment', color: '#8b5cf6', icon: 'Film' },
+  { kind: 'EXPENSE', name: 'Debt', color: '#ec4899', icon: 'CreditCard' },
+  { kind: 'EXPENSE', name: 'Other', color: '#64748b', icon: 'Tag' },
+  { kind: 'ASSET', name: 'Real Estate', color: '#0ea5e9', icon: 'Home' },
+  { kind: 'ASSET', name: 'Vehicle', color: '#f97316', icon: 'Car' },
+  { kind: 'ASSET', name: 'Cash/Bank', color: '#22c55e', icon: 'PiggyBank' },
+  { kind: 'ASSET', name: 'Investment', color: '#8b5cf6', icon: 'TrendingUp' },
+  { kind: 'ASSET', name: 'Crypto', color: '#eab308', icon: 'Coins' },
+  { kind: 'ASSET', name: 'Valuables', color: '#ec4899', icon: 'Gem' },
+  { kind: 'ASSET', name: 'Other', color: '#64748b', icon: 'Tag' },
+];
+
+export const CATEGORY_KIND_OPTIONS: { label: string; value: CategoryKind }[] = [
+  { label: 'Expense', value: 'EXPENSE' },
+  { label: 'Income', value: 'INCOME' },
+  { label: 'Asset type', value: 'ASSET' },
+];
+
+// The user's categories of one kind, or the defaults if they haven't set any up yet
+export const getCategories = (categories: Category[], kind: CategoryKind): Category[] => {
+  const own = categories.filter(c => c.kind === kind);
+  if (own.length > 0) return own;
+  return DEFAULT_CATEGORIES
+    .filter(c => c.kind === kind)
+    .map((c, i) => ({ ...c, id: `default-${kind}-${c.name}`, user_id: '', parent_id: null, position: i }));
+};
+
+const byPosition = (a: Category, b: Category) => a.position - b.position || a.name.localeCompare(b.name);
+
+// Parents in order, each followed by its subcategories
+export const getCategoryTree = (categories: Category[], kind: CategoryKind) => {
+  const list = getCategories(categories, kind);
+  return list
+    .filter(c => !c.parent_id)
+    .sort(byPosition)
+    .map(parent => ({ parent, children: list.filter(c => c.parent_id === parent.id).sort(byPosition) }));
+};
+
+// Select options where subcategories read "Food › Groceries"
+export const getCategoryOptions = (categories: Category[], kind: CategoryKind) =>
+  getCategoryTree(categories, kind).flatMap(({ parent, children }) => [
+    { label: parent.name, value: parent.name },
+    ...children.map(c => ({ label: `${parent.name} › ${c.name}`, value: c.name })),
+  ]);
+
+export const findCategory = (categories: Category[], kind: CategoryKind, name: string) =>
+  getCategories(categories, kind).find(c => c.name === name);
+
+// The top-level category a name rolls up into. Unknown names roll up into themselves.
+export const getParentCategory = (categories: Category[], kind: CategoryKind, name: string) => {
+  const category = findCategory(categories, kind, name);
+  if (!category?.parent_id) return category;
+  return getCategories(categories, kind).find(c => c.id === category.parent_id) || category;
+};
+
+export interface CategoryTotal {
+  name: string;
+  color: string;
+  amount: number;
+  children: { name: string; amount: number }[];
+}
+
+// Totals per top-level category, with the subcategories that fed into each
+export const rollUpByParent = (
+  items: { category: string; amount: number }[],
+  categories: Category[],
+  kind: CategoryKind
+): CategoryTotal[] => {
+  const totals = new Map<string, CategoryTotal>();
+  items.forEach(item => {
+    const parent = getParentCategory(categories, kind, item.category);
+    const name = parent?.name || item.category;
+    const total = totals.get(name) || { name, color: parent?.color || '#94a3b8', amount: 0, children: [] };
+    total.amount += item.amount;
+    if (name !== item.category) {
+      const child = total.children.find(c => c.name === item.category);
+      if (child) child.amount += item.amount;
+      else total.children.push({ name: item.category, amount: item.amount });
+    }
+    totals.set(name, total);
+  });
+  return Array.from(totals.values())
+    .map(t => ({ ...t, children: t.children.sort((a, b) => b.amount - a.amount) }))
+    .sort((a, b) => b.amount - a.amount);
+};
@@ -0,0 +1,66 @@
+import { CategoryRule, RuleMatchType } from '../types';
+
+export const RULE_MATCH_OPTIONS: { label: string; value: RuleMatchType }[] = [
+  { label: 'Title contains', value: 'CONTAINS' },
+  { label: 'Title matches regex', value: 'REGEX' },
+];
+
+export const RULE_APPLIES_TO_OPTIONS: { label: string; value: CategoryRule['applies_to'] }[] = [
+  { label: 'Expenses', value: 'EXPENSE' },
+  { label: 'Income', value: 'INCOME' },
+  { label: 'Both', value: 'BOTH' },
+];
+
+interface RuleSubject {
+  title: string;
+  amount: number;
+  type: 'INCOME' | 'EXPENSE';
+}
+
+export const isValidRegex = (pattern: string) => {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const matchesRule = (rule: CategoryRule, subject: RuleSubject) => {
+  if (rule.applies_to !== 'BOTH' && rule.applies_to !== subject.type) return false;
+  if (rule.min_amount != null && subject.amount < rule.min_amount) return false;
+  if (rule.max_amount != null && subject.amount > rule.max_amount) return false;
+  if (!subject.title) return false;
+  if (rule.match_type === 'REGEX') return isValidRegex(rule.pattern) && new RegExp(rule.pattern, 'i').test(subject.title);
+  return subject.title.toLowerCase().includes(rule.pattern.toLowerCase());
+};
+
+// Rules are checked in position order; the first match wins
+export const findMatchingRule = (rules: CategoryRule[], subject: RuleSubject) =>
+  [...rules].sort((a, b) => a.position - b.position).find(rule => matchesRule(rule, subject)) || null;
+
+// Fields a rule would set. Notes are only filled when empty, tags are merged.
+export const applyRule = <T extends { category: string; notes?: string; tags?: string[] }>(item: T, rule: CategoryRule | null): T => {
+  if (!rule) return item;
+  const tags = Array.from(new Set([...(item.tags || []), ...(rule.tags || [])]));
+  return {
+    ...item,
+    category: rule.category || item.category,
+    notes: item.notes || rule.notes || item.notes,
+    tags: tags.length ? tags : item.tags,
+  };
+};
+
+export const describeCategoryRule = (rule: CategoryRule) => {
+  const match = rule.match_type === 'REGEX' ? `title matches /${rule.pattern}/` : `title contains "${rule.pattern}"`;
+  const range = rule.min_amount != null && rule.max_amount != null
+    ? ` and amount is $${rule.min_amount}-$${rule.max_amount}`
+    : rule.min_amount != null ? ` and amount is at least $${rule.min_amount}`
+    : rule.max_amount != null ? ` and amount is at most $${rule.max_amount}`
+    : '';
+  const scope = rule.applies_to === 'BOTH' ? 'Any transaction' : rule.applies_to === 'INCOME' ? 'Income' : 'Expense';
+  return `${scope} where ${match}${range}`;
+};
+
+export const parseTags = (value: string) =>
+  value.split(',').map(t => t.trim()).filter(Boolean);
@@ -0,0 +1,140 @@
+import { format, isValid, parse } from 'date-fns';
+import { AmountMode, CsvMapping, SignConvention } from '../types';
+import { ImportRow } from './imports';
+
+export const DATE_FORMAT_OPTIONS = [
+  { label: '2024-01-31', value: 'yyyy-MM-dd' },
+  { label: '31/01/2024', value: 'dd/MM/yyyy' },
+  { label: '01/31/2024', value: 'MM/dd/yyyy' },
+  { label: '31-01-2024', value: 'dd-MM-yyyy' },
+  { label: '31.01.2024', value: 'dd.MM.yyyy' },
+  { label: '31/01/24', value: 'dd/MM/yy' },
+  { label: '01/31/24', value: 'MM/dd/yy' },
+  { label: '31 Jan 2024', value: 'd MMM yyyy' },
+  { label: '20240131', value: 'yyyyMMdd' },
+];
+
+export const AMOUNT_MODE_OPTIONS: { label: string; value: AmountMode }[] = [
+  { label: 'One amount column (+/-)', value: 'SIGNED' },
+  { label: 'Separate debit and credit columns', value: 'SPLIT' },
+];
+
+export const SIGN_CONVENTION_OPTIONS: { label: string; value: SignConvention }[] = [
+  { label: 'Negative amounts are money out', value: 'NEGATIVE_IS_EXPENSE' },
+  { label: 'Positive amounts are money out (credit cards)', value: 'POSITIVE_IS_EXPENSE' },
+];
+
+// RFC 4180-ish: quoted fields may contain the delimiter, newlines and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const firstLine = input.split(/\r?\n/, 1)[0];
+  const delimiter = [',', ';', '\t']
+    .map(d => ({ d, count: firstLine.split(d).length }))
+    .sort((a, b) => b.count - a.count)[0].d;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field); field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field); field = '';
+      if (row.some(f => f.trim() !== '')) rows.push(row);
+      row = [];
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(f => f.trim() !== '')) rows.push(row);
+  return rows.map(r => r.map(f => f.trim()));
+};
+
+// Handles currency symbols, thousands separators, decimal commas, (brackets) and trailing minus or CR/DR
+export const parseAmount = (value: string): number | null => {
+  let text = value.trim().toUpperCase();
+  if (!text) return null;
+
+  let negative = false;
+  if (text.endsWith('DR')) { negative = true; text = text.slice(0, -2); }
+  if (text.endsWith('CR')) text = text.slice(0, -2);
+  // Currency symbols and spaces may sit on either side of the sign, as in "$-12.00" or "-£12.00"
+  text = text.replace(/[^\d.,()-]/g, '');
+  if (/^\(.*\)$/.test(text)) { negative = true; text = text.slice(1, -1); }
+  if (text.endsWith('-')) { negative = true; text = text.slice(0, -1); }
+  if (text.startsWith('-')) { negative = !negative; text = text.slice(1); }
+
+  text = text.replace(/[^\d.,]/g, '');
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+  if (lastComma > lastDot && /,\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = Number(text);
+  if (!text || isNaN(amount)) return null;
+  return negative ? -amount : amount;
+};
+
+// A 4-digit year format happily reads "31/01/24" as the year 24, so years that early count as unreadable
+export const parseStatementDate = (value: string, dateFormat: string) => {
+  const date = parse(value.trim(), dateFormat, new Date());
+  return isValid(date) && date.getFullYear() >= 1900 ? format(date, 'yyyy-MM-dd') : null;
+};
+
+// First format that reads every sample date, so the wizard can preselect it
+export const detectDateFormat = (samples: string[]) =>
+  DATE_FORMAT_OPTIONS.find(option => samples.length > 0 && samples.every(s => parseStatementDate(s, option.value)))?.value
+  || DATE_FORMAT_OPTIONS[0].value;
+
+export interface CsvRowResult {
+  row?: ImportRow;
+  line: number;
+  error?: string;
+}
+
+export const mapCsvRows = (rows: string[][], mapping: CsvMapping): CsvRowResult[] =>
+  rows.slice(mapping.has_header ? 1 : 0).map((cells, i) => {
+    const line = i + (mapping.has_header ? 2 : 1);
+    const date = parseStatementDate(cells[mapping.date_column] || '', mapping.date_format);
+    if (!date) return { line, error: `Couldn't read date "${cells[mapping.date_column] || ''}"` };
+
+    let signed: number | null;
+    if (mapping.amount_mode === 'SPLIT') {
+      const debit = parseAmount(cells[mapping.debit_column ?? -1] || '');
+      const credit = parseAmount(cells[mapping.credit_column ?? -1] || '');
+      signed = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+    } else {
+      const amount = parseAmount(cells[mapping.amount_column ?? -1] || '');
+      signed = amount === null ? null : mapping.sign_convention === 'POSITIVE_IS_EXPENSE' ? -amount : amount;
+    }
+    if (!signed) return { line, error: 'No amount' };
+
+    const title = cells[mapping.description_column] || 'Imported transaction';
+    return {
+      line,
+      row: {
+        key: `csv-${line}`,
+        date,
+        title,
+        amount: Math.abs(signed),
+        type: signed < 0 ? 'EXPENSE' : 'INCOME',
+        category: 'Other',
+        duplicate: false,
+        include: true,
+      },
+    };
+  });
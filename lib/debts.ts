@@ -0,0 +1,183 @@
+import { addMonths, endOfDay, format, startOfMonth } from 'date-fns';
+import { Debt, DebtPayment } from '../types';
+import { toDate } from './recurrence';
+
+// Stop simulating after 50 years; anything longer is effectively never paid off
+const MAX_MONTHS = 600;
+
+// Number of monthly payments to clear a balance at the given APR, or null if the payment never covers the interest
+export const getPayoffMonths = (balance: number, annualRate: number, payment: number) => {
+  if (payment <= 0) return null;
+  const r = annualRate / 100 / 12;
+  if (r === 0) return Math.ceil(balance / payment);
+  if (payment <= balance * r) return null;
+  return Math.ceil(-Math.log(1 - (r * balance) / payment) / Math.log(1 + r));
+};
+
+export type PayoffStrategy = 'AVALANCHE' | 'SNOWBALL' | 'CUSTOM';
+
+export const PAYOFF_STRATEGY_OPTIONS: { label: string; value: PayoffStrategy; description: string }[] = [
+  { label: 'Avalanche', value: 'AVALANCHE', description: 'Highest interest rate first' },
+  { label: 'Snowball', value: 'SNOWBALL', description: 'Smallest balance first' },
+  { label: 'Custom', value: 'CUSTOM', description: 'Your own order' },
+];
+
+export interface PayoffRow {
+  opening: number;
+  interest: number;
+  payment: number;
+  closing: number;
+}
+
+export interface PayoffMonth {
+  month: Date;
+  label: string;
+  rows: Record<string, PayoffRow>;   // keyed by debt id, only for debts still open that month
+  totalBalance: number;
+  totalInterest: number;
+}
+
+export interface DebtPayoff {
+  debt: Debt;
+  payoffDate: Date | null;
+  interestPaid: number;
+  totalPaid: number;
+}
+
+export interface PayoffPlan {
+  order: Debt[];
+  months: PayoffMonth[];
+  debts: DebtPayoff[];
+  totalInterest: number;
+  payoffDate: Date | null;   // null when the payments never clear every balance
+}
+
+export const orderDebts = (debts: Debt[], strategy: PayoffStrategy, customOrder: string[] = []) => {
+  const sorted = [...debts];
+  if (strategy === 'AVALANCHE') return sorted.sort((a, b) => b.interest_rate - a.interest_rate || a.balance - b.balance);
+  if (strategy === 'SNOWBALL') return sorted.sort((a, b) => a.balance - b.balance || b.interest_rate - a.interest_rate);
+  const rank = (d: Debt) => (customOrder.includes(d.id) ? customOrder.indexOf(d.id) : customOrder.length);
+  return sorted.sort((a, b) => rank(a) - rank(b));
+};
+
+// Month-by-month amortization. Every month each debt accrues interest and gets its minimum;
+// the extra payment plus any minimums freed up by cleared debts go to the first open debt in `order`.
+export const simulatePayoff = (order: Debt[], extraPayment: number, from: Date = new Date()): PayoffPlan => {
+  const balances = new Map(order.map(d => [d.id, d.balance]));
+  const interestPaid = new Map(order.map(d => [d.id, 0]));
+  const totalPaid = new Map(order.map(d => [d.id, 0]));
+  const payoffDates = new Map<string, Date>();
+  const budget = order.reduce((sum, d) => sum + d.minimum_payment, 0) + Math.max(extraPayment, 0);
+
+  const months: PayoffMonth[] = [];
+  let totalInterest = 0;
+
+  for (let i = 0; i < MAX_MONTHS && order.some(d => balances.get(d.id)! > 0.005); i++) {
+    const month = startOfMonth(addMonths(from, i + 1));
+    const rows: Record<string, PayoffRow> = {};
+
+    order.forEach(d => {
+      const opening = balances.get(d.id)!;
+      if (opening <= 0.005) return;
+      const interest = opening * d.interest_rate / 100 / 12;
+      rows[d.id] = { opening, interest, payment: 0, closing: opening + interest };
+    });
+
+    const pay = (id: string, amount: number) => {
+      const row = rows[id];
+      const applied = Math.min(amount, row.closing);
+      row.payment += applied;
+      row.closing -= applied;
+      return applied;
+    };
+
+    let remaining = budget;
+    order.forEach(d => {
+      if (rows[d.id]) remaining -= pay(d.id, Math.min(d.minimum_payment, remaining));
+    });
+    order.forEach(d => {
+      if (rows[d.id] && remaining > 0) remaining -= pay(d.id, remaining);
+    });
+
+    let totalBalance = 0;
+    let monthInterest = 0;
+    Object.entries(rows).forEach(([id, row]) => {
+      balances.set(id, row.closing);
+      interestPaid.set(id, interestPaid.get(id)! + row.interest);
+      totalPaid.set(id, totalPaid.get(id)! + row.payment);
+      if (row.closing <= 0.005 && !payoffDates.has(id)) payoffDates.set(id, month);
+      totalBalance += row.closing;
+      monthInterest += row.interest;
+    });
+    totalInterest += monthInterest;
+
+    months.push({ month, label: format(month, 'MMM yyyy'), rows, totalBalance, totalInterest: monthInterest });
+  }
+
+  const debts = order.map(debt => ({
+    debt,
+    payoffDate: payoffDates.get(debt.id) || null,
+    interestPaid: interestPaid.get(debt.id)!,
+    totalPaid: totalPaid.get(debt.id)!,
+  }));
+  const cleared = order.every(d => balances.get(d.id)! <= 0.005);
+
+  return {
+    order,
+    months,
+    debts,
+    totalInterest,
+    payoffDate: cleared && months.length ? months[months.length - 1].month : null,
+  };
+};
+
+export interface InterestAccrual {
+  date: Date;
+  interest: number;
+  balance_after: number;
+}
+
+// Monthly interest charges owed since interest_accrued_to, compounding on the running balance
+export const getInterestDue = (debt: Debt, today: Date = new Date()): InterestAccrual[] => {
+  if (!debt.interest_accrued_to || debt.interest_rate <= 0) return [];
+  const cutoff = endOfDay(today);
+  const from = toDate(debt.interest_accrued_to);
+  const accruals: InterestAccrual[] = [];
+  let balance = debt.balance;
+
+  for (let i = 1; addMonths(from, i) <= cutoff && accruals.length < MAX_MONTHS; i++) {
+    const interest = Math.round(balance * debt.interest_rate / 100 / 12 * 100) / 100;
+    balance = Math.round((balance + interest) * 100) / 100;
+    accruals.push({ date: addMonths(from, i), interest, balance_after: balance });
+  }
+  return accruals;
+};
+
+// How much a ledger entry moved the balance
+export const getBalanceChange = (entry: DebtPayment) => (entry.type === 'PAYMENT' ? -entry.amount : entry.amount);
+
+// Ledger entries oldest first with the balance after each, replayed from the opening balance in date order.
+// The stored balance_after is the balance when the entry was written, which is off for back-dated payments.
+export const getLedgerBalances = (debt: Debt, entries: DebtPayment[]) => {
+  const ledger = entries
+    .filter(e => e.debt_id === debt.id)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const opening = Math.round((debt.balance - ledger.reduce((sum, e) => sum + getBalanceChange(e), 0)) * 100) / 100;
+  let balance = opening;
+  const rows = ledger.map(entry => {
+    balance = Math.round((balance + getBalanceChange(entry)) * 100) / 100;
+    return { entry, balance };
+  });
+  return { opening, rows };
+};
+
+// Balance after every ledger entry, oldest first, ending with today's balance
+export const getBalanceHistory = (debt: Debt, entries: DebtPayment[]) => {
+  const { opening, rows } = getLedgerBalances(debt, entries);
+  if (!rows.length) return [{ date: format(new Date(), 'yyyy-MM-dd'), balance: debt.balance }];
+  return [
+    { date: rows[0].entry.date, balance: opening },
+    ...rows.map(r => ({ date: r.entry.date, balance: r.balance })),
+    { date: format(new Date(), 'yyyy-MM-dd'), balance: debt.balance },
+  ];
+};
@@ -0,0 +1,93 @@
+import { format } from 'date-fns';
+import { Category, Envelope, EnvelopeKind, EnvelopeMove, Goal, GoalContribution, RecurringExpense, Transaction } from '../types';
+import { isInBudget } from './budgets';
+import { getCategoryLines } from './splits';
+
+export interface EnvelopeBalance {
+  envelope: Envelope;
+  name: string;
+  assigned: number; // moved in less moved out
+  spent: number;    // expenses, or goal contributions, drawn from it
+  balance: number;
+}
+
+export interface UnassignedIncome {
+  income: Transaction;
+  remaining: number;
+}
+
+export const ENVELOPE_KIND_LABELS: Record<EnvelopeKind, string> = {
+  CATEGORY: 'Category',
+  BILL: 'Bill',
+  GOAL: 'Goal',
+};
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const since = (envelope: Envelope) => envelope.created_at?.slice(0, 10) || '';
+
+export const getEnvelopeName = (envelope: Envelope, bills: RecurringExpense[], goals: Goal[]) => {
+  if (envelope.kind === 'BILL') return bills.find(b => b.id === envelope.recurring_expense_id)?.title || 'Deleted bill';
+  if (envelope.kind === 'GOAL') return goals.find(g => g.id === envelope.goal_id)?.name || 'Deleted goal';
+  return envelope.category || 'Uncategorised';
+};
+
+// Envelope budgeting starts when the first envelope is made; income from before then isn't waiting to be assigned
+export const getEnvelopeStart = (envelopes: Envelope[], today: Date = new Date()) =>
+  envelopes.map(since).filter(Boolean).sort()[0] || format(today, 'yyyy-MM-dd');
+
+// An expense line draws from its bill's envelope, else its own category's, else its parent category's
+const findEnvelope = (line: Transaction, envelopes: Envelope[], categories: Category[]) =>
+  (line.recurring_expense_id ? envelopes.find(e => e.kind === 'BILL' && e.recurring_expense_id === line.recurring_expense_id) : undefined)
+  || envelopes.find(e => e.kind === 'CATEGORY' && e.category === line.category)
+  || envelopes.find(e => e.kind === 'CATEGORY' && !!e.category && isInBudget({ category: e.category }, line.category, categories));
+
+export const getEnvelopeBalances = (
+  envelopes: Envelope[],
+  moves: EnvelopeMove[],
+  expenses: Transaction[],
+  contributions: GoalContribution[],
+  categories: Category[],
+  bills: RecurringExpense[],
+  goals: Goal[]
+): EnvelopeBalance[] => {
+  const spent = new Map<string, number>();
+  const draw = (envelope: Envelope | undefined, date: string, amount: number) => {
+    if (envelope && date >= since(envelope)) spent.set(envelope.id, (spent.get(envelope.id) || 0) + amount);
+  };
+
+  getCategoryLines(expenses).forEach(line => draw(findEnvelope(line, envelopes, categories), line.date, line.amount));
+  // Saving into a goal spends its envelope; withdrawing from the goal puts the money back
+  contributions.forEach(c => draw(envelopes.find(e => e.kind === 'GOAL' && e.goal_id === c.goal_id), c.date, c.amount));
+
+  return envelopes.map(envelope => {
+    const assigned = round(moves.reduce(
+      (sum, m) => sum + (m.to_envelope_id === envelope.id ? m.amount : 0) - (m.from_envelope_id === envelope.id ? m.amount : 0),
+      0
+    ));
+    const drawn = round(spent.get(envelope.id) || 0);
+    return { envelope, name: getEnvelopeName(envelope, bills, goals), assigned, spent: drawn, balance: round(assigned - drawn) };
+  });
+};
+
+// Net money taken out of "to be assigned" across all moves
+const getNetAssigned = (moves: EnvelopeMove[]) =>
+  moves.reduce((sum, m) => sum + (m.from_envelope_id ? 0 : m.amount) - (m.to_envelope_id ? 0 : m.amount), 0);
+
+// Income since envelope budgeting began that hasn't been given a job yet. Negative when more was assigned than came in.
+export const getToBeAssigned = (income: Transaction[], moves: EnvelopeMove[], start: string) =>
+  round(income.filter(i => i.date >= start).reduce((sum, i) => sum + i.amount, 0) - getNetAssigned(moves));
+
+// Assignments use up income oldest first, so each entry shows how much of it still needs a job
+export const getUnassignedIncome = (income: Transaction[], moves: EnvelopeMove[], start: string): UnassignedIncome[] => {
+  let assigned = getNetAssigned(moves);
+  return income
+    .filter(i => i.date >= start)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(i => {
+      const used = Math.min(i.amount, Math.max(assigned, 0));
+      assigned -= used;
+      return { income: i, remaining: round(i.amount - used) };
+    })
+    .filter(i => i.remaining > 0);
+};
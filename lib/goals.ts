@@ -0,0 +1,95 @@
+import { addDays, differenceInCalendarDays, format, startOfDay } from 'date-fns';
+import { Goal, GoalContribution, Payday } from '../types';
+import { getOccurrencesBetween, toDate } from './recurrence';
+
+// Running total after each day with contributions, oldest first, ending today
+export const getGoalProgressHistory = (goal: Goal, contributions: GoalContribution[]) => {
+  const ledger = contributions
+    .filter(c => c.goal_id === goal.id)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const points: { date: string; balance: number }[] = [];
+  let balance = 0;
+  ledger.forEach(c => {
+    balance += c.amount;
+    const last = points[points.length - 1];
+    if (last && last.date === c.date) last.balance = balance;
+    else points.push({ date: c.date, balance });
+  });
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+  if (!points.length || points[points.length - 1].date < today) points.push({ date: today, balance });
+  return points;
+};
+
+// Only recent saving counts towards the current pace
+const PACE_WINDOW_DAYS = 90;
+const DAYS_PER_MONTH = 365.25 / 12;
+
+export type GoalStatus = 'COMPLETE' | 'ON_TRACK' | 'BEHIND' | 'OVERDUE' | 'NO_DATE';
+
+export interface GoalPlan {
+  remaining: number;
+  status: GoalStatus;
+  requiredWeekly: number | null;    // null without a future target date
+  requiredMonthly: number | null;
+  requiredPerPayday: number | null; // null when no paydays fall before the target date
+  paydaysLeft: number;
+  dailyPace: number;                // average net saving per day recently
+  projectedCompletion: Date | null; // null if the current pace never gets there
+}
+
+// Average saved per day since the goal's first ledger day (within the pace window).
+// The first day is treated as the opening position rather than saving pace.
+const getDailyPace = (ledger: GoalContribution[], today: Date) => {
+  if (!ledger.length) return 0;
+  const first = toDate(ledger[0].date);
+  const windowStart = new Date(Math.max(first.getTime(), addDays(today, -PACE_WINDOW_DAYS).getTime()));
+  const days = differenceInCalendarDays(today, windowStart);
+  if (days <= 0) return 0;
+  const saved = ledger
+    .filter(c => c.date > ledger[0].date && toDate(c.date) > windowStart)
+    .reduce((sum, c) => sum + c.amount, 0);
+  return saved / days;
+};
+
+export const getGoalPlan = (
+  goal: Goal,
+  contributions: GoalContribution[],
+  paydays: Payday[],
+  today: Date = new Date()
+): GoalPlan => {
+  const start = startOfDay(today);
+  const remaining = Math.max(goal.target_amount - goal.current_amount, 0);
+  const ledger = contributions
+    .filter(c => c.goal_id === goal.id)
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+  const dailyPace = getDailyPace(ledger, start);
+  const projectedCompletion = remaining === 0
+    ? start
+    : dailyPace > 0 ? addDays(start, Math.ceil(remaining / dailyPace)) : null;
+
+  const target = goal.target_date ? toDate(goal.target_date) : null;
+  const daysLeft = target ? differenceInCalendarDays(target, start) : 0;
+  const paydaysLeft = target && daysLeft > 0
+    ? paydays.reduce((sum, pd) => sum + getOccurrencesBetween(pd.next_payday_date, pd, addDays(start, 1), target).length, 0)
+    : 0;
+
+  let status: GoalStatus = 'NO_DATE';
+  if (remaining === 0) status = 'COMPLETE';
+  else if (target && daysLeft < 0) status = 'OVERDUE';
+  else if (target) status = projectedCompletion && projectedCompletion <= target ? 'ON_TRACK' : 'BEHIND';
+
+  const hasTime = !!target && daysLeft > 0 && remaining > 0;
+  return {
+    remaining,
+    status,
+    requiredWeekly: hasTime ? remaining / Math.max(daysLeft / 7, 1) : null,
+    requiredMonthly: hasTime ? remaining / Math.max(daysLeft / DAYS_PER_MONTH, 1) : null,
+    requiredPerPayday: hasTime && paydaysLeft > 0 ? remaining / paydaysLeft : null,
+    paydaysLeft,
+    dailyPace,
+    projectedCompletion,
+  };
+};
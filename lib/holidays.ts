@@ -0,0 +1,132 @@
+import { addDays, format, isWeekend } from 'date-fns';
+import { BusinessDayRule, HolidayCalendar } from '../types';
+
+export const BUSINESS_DAY_RULE_OPTIONS: { label: string; value: BusinessDayRule }[] = [
+  { label: 'Keep the scheduled date', value: 'NONE' },
+  { label: 'Previous business day', value: 'PREVIOUS' },
+  { label: 'Next business day', value: 'NEXT' },
+];
+
+export const HOLIDAY_CALENDAR_OPTIONS: { label: string; value: HolidayCalendar }[] = [
+  { label: 'Weekends only', value: 'NONE' },
+  { label: 'England & Wales', value: 'ENGLAND_WALES' },
+  { label: 'Scotland', value: 'SCOTLAND' },
+  { label: 'US Federal', value: 'US_FEDERAL' },
+];
+
+const key = (date: Date) => format(date, 'yyyy-MM-dd');
+
+// Anonymous Gregorian algorithm (Meeus/Jones/Butcher)
+const easterSunday = (year: number) => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(year, month - 1, day);
+};
+
+// nth weekday of a month; n = -1 for the last one
+const nthWeekday = (year: number, month: number, weekday: number, n: number) => {
+  if (n > 0) {
+    const first = new Date(year, month, 1);
+    return addDays(first, ((weekday - first.getDay() + 7) % 7) + (n - 1) * 7);
+  }
+  const last = new Date(year, month + 1, 0);
+  return addDays(last, -((last.getDay() - weekday + 7) % 7));
+};
+
+// UK substitute days: a holiday on a weekend moves to the next weekday not already taken
+const withUkSubstitutes = (dates: Date[]) => {
+  const taken = new Set<string>();
+  return dates.map(date => {
+    let observed = date;
+    while (isWeekend(observed) || taken.has(key(observed))) observed = addDays(observed, 1);
+    taken.add(key(observed));
+    return observed;
+  });
+};
+
+// US federal rule: Saturday holidays are observed on Friday, Sunday holidays on Monday
+const usObserved = (date: Date) =>
+  date.getDay() === 6 ? addDays(date, -1) : date.getDay() === 0 ? addDays(date, 1) : date;
+
+// Standard recurring bank holidays only. One-off days (royal events, jubilees) are not bundled.
+const HOLIDAY_RULES: Record<Exclude<HolidayCalendar, 'NONE'>, (year: number) => Date[]> = {
+  ENGLAND_WALES: year => {
+    const easter = easterSunday(year);
+    return [
+      ...withUkSubstitutes([new Date(year, 0, 1)]),
+      addDays(easter, -2),
+      addDays(easter, 1),
+      nthWeekday(year, 4, 1, 1),
+      nthWeekday(year, 4, 1, -1),
+      nthWeekday(year, 7, 1, -1),
+      ...withUkSubstitutes([new Date(year, 11, 25), new Date(year, 11, 26)]),
+    ];
+  },
+  SCOTLAND: year => {
+    const easter = easterSunday(year);
+    return [
+      ...withUkSubstitutes([new Date(year, 0, 1), new Date(year, 0, 2)]),
+      addDays(easter, -2),
+      nthWeekday(year, 4, 1, 1),
+      nthWeekday(year, 4, 1, -1),
+      nthWeekday(year, 7, 1, 1),
+      ...withUkSubstitutes([new Date(year, 10, 30)]),
+      ...withUkSubstitutes([new Date(year, 11, 25), new Date(year, 11, 26)]),
+    ];
+  },
+  US_FEDERAL: year => [
+    usObserved(new Date(year, 0, 1)),
+    nthWeekday(year, 0, 1, 3),
+    nthWeekday(year, 1, 1, 3),
+    nthWeekday(year, 4, 1, -1),
+    ...(year >= 2021 ? [usObserved(new Date(year, 5, 19))] : []),
+    usObserved(new Date(year, 6, 4)),
+    nthWeekday(year, 8, 1, 1),
+    nthWeekday(year, 9, 1, 2),
+    usObserved(new Date(year, 10, 11)),
+    nthWeekday(year, 10, 4, 4),
+    usObserved(new Date(year, 11, 25)),
+  ],
+};
+
+const cache = new Map<string, Set<string>>();
+
+const holidaysFor = (calendar: Exclude<HolidayCalendar, 'NONE'>, year: number) => {
+  const cacheKey = `${calendar}-${year}`;
+  if (!cache.has(cacheKey)) cache.set(cacheKey, new Set(HOLIDAY_RULES[calendar](year).map(key)));
+  return cache.get(cacheKey)!;
+};
+
+export const getHolidays = (calendar: HolidayCalendar, year: number) =>
+  calendar === 'NONE' ? [] : Array.from(holidaysFor(calendar, year)).sort();
+
+export const isHoliday = (date: Date, calendar: HolidayCalendar = 'NONE') => {
+  if (calendar === 'NONE') return false;
+  // Observed dates can spill into the neighbouring year (e.g. New Year's Day observed on Dec 31)
+  const year = date.getFullYear();
+  return [year - 1, year, year + 1].some(y => holidaysFor(calendar, y).has(key(date)));
+};
+
+export const isBusinessDay = (date: Date, calendar: HolidayCalendar = 'NONE') =>
+  !isWeekend(date) && !isHoliday(date, calendar);
+
+// Rolls a date off weekends and holidays in the given direction
+export const adjustToBusinessDay = (date: Date, rule: BusinessDayRule = 'NONE', calendar: HolidayCalendar = 'NONE') => {
+  if (rule === 'NONE') return date;
+  const step = rule === 'PREVIOUS' ? -1 : 1;
+  let adjusted = date;
+  while (!isBusinessDay(adjusted, calendar)) adjusted = addDays(adjusted, step);
+  return adjusted;
+};
@@ -0,0 +1,50 @@
+import { Transaction } from '../types';
+
+// A statement line waiting for review before it's inserted as income or an expense
+export interface ImportRow {
+  key: string;
+  date: string;           // yyyy-MM-dd
+  title: string;
+  amount: number;         // always positive; `type` carries the direction
+  type: 'INCOME' | 'EXPENSE';
+  category: string;
+  notes?: string;
+  tags?: string[];
+  fitid?: string;         // bank's own transaction id (OFX), used to skip re-imports
+  duplicate: boolean;     // looks like a transaction we already have, or repeats one earlier in the file
+  include: boolean;
+}
+
+const normalizeTitle = (title: string) => title.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const matchKey = (type: string, date: string, amount: number, title: string) =>
+  `${type}|${date}|${amount.toFixed(2)}|${normalizeTitle(title)}`;
+
+// Flags rows matching an existing transaction on date, amount and title. Duplicates start unticked.
+export const markDuplicates = (rows: ImportRow[], existing: Transaction[]): ImportRow[] => {
+  const known = new Set(existing.map(t => matchKey(t.type, t.date, t.amount, t.title)));
+  return rows.map(row => {
+    const duplicate = row.duplicate || known.has(matchKey(row.type, row.date, row.amount, row.title));
+    return { ...row, duplicate, include: row.include && !duplicate };
+  });
+};
+
+const fitidKey = (accountId: string | null | undefined, fitid: string) => `${accountId || ''}|${fitid}`;
+
+// Drops rows whose bank transaction id (FITID) has already been imported into the same account.
+// FITIDs are only unique per account, so another account's match doesn't count. A FITID repeated
+// within the file is flagged as a duplicate instead of being dropped.
+export const skipImported = (rows: ImportRow[], existing: Transaction[], accountId: string | null = null) => {
+  const seen = new Set(existing.filter(t => t.fitid).map(t => fitidKey(t.account_id, t.fitid!)));
+  const fresh = rows.filter(r => !r.fitid || !seen.has(fitidKey(accountId, r.fitid)));
+  const inFile = new Set<string>();
+  return {
+    rows: fresh.map(row => {
+      if (!row.fitid) return row;
+      const repeated = inFile.has(row.fitid);
+      inFile.add(row.fitid);
+      return repeated ? { ...row, duplicate: true, include: false } : row;
+    }),
+    skipped: rows.length - fresh.length,
+  };
+};
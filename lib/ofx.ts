@@ -0,0 +1,58 @@
+import { ImportRow } from './imports';
+
+export interface OfxTransaction {
+  fitid: string;
+  date: string;     // yyyy-MM-dd
+  amount: number;   // signed, negative is money out
+  name: string;
+  memo?: string;
+  trntype?: string;
+}
+
+// OFX 1.x is SGML where leaf tags are never closed; 2.x is XML. Reading up to the next tag or
+// line break covers both.
+const readTag = (block: string, tag: string) => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? match[1].trim() : undefined;
+};
+
+const decodeEntities = (value: string) =>
+  value.replace(/&amp;/g, '&').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&apos;/g, "'");
+
+export const isOfx = (text: string) => /<OFX>/i.test(text);
+
+// Pulls every STMTTRN record out of an OFX/QFX statement (bank or credit card)
+export const parseOfx = (text: string): OfxTransaction[] => {
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+
+  return blocks.flatMap(block => {
+    const posted = readTag(block, 'DTPOSTED');
+    const amount = Number((readTag(block, 'TRNAMT') || '').replace(',', '.'));
+    if (!posted || !/^\d{8}/.test(posted) || isNaN(amount) || amount === 0) return [];
+
+    const name = readTag(block, 'NAME') || readTag(block, 'PAYEE') || readTag(block, 'MEMO') || 'Imported transaction';
+    const memo = readTag(block, 'MEMO');
+    return [{
+      fitid: readTag(block, 'FITID') || `${posted}-${amount}-${name}`,
+      date: `${posted.slice(0, 4)}-${posted.slice(4, 6)}-${posted.slice(6, 8)}`,
+      amount,
+      name: decodeEntities(name),
+      memo: memo && memo !== name ? decodeEntities(memo) : undefined,
+      trntype: readTag(block, 'TRNTYPE'),
+    }];
+  });
+};
+
+export const ofxToImportRows = (transactions: OfxTransaction[]): ImportRow[] =>
+  transactions.map((t, i) => ({
+    key: `ofx-${i}-${t.fitid}`,
+    date: t.date,
+    title: t.name,
+    amount: Math.abs(t.amount),
+    type: t.amount < 0 ? 'EXPENSE' : 'INCOME',
+    category: 'Other',
+    notes: t.memo,
+    fitid: t.fitid,
+    duplicate: false,
+    include: true,
+  }));
@@ -0,0 +1,20 @@
+import { Payday } from '../types';
+
+export const DEDUCTION_FIELDS = [
+  { key: 'tax', label: 'Income Tax' },
+  { key: 'national_insurance', label: 'National Insurance / Social Security' },
+  { key: 'pension', label: 'Pension' },
+  { key: 'student_loan', label: 'Student Loan' },
+  { key: 'other_deductions', label: 'Other Deductions' },
+] as const;
+
+export type DeductionKey = typeof DEDUCTION_FIELDS[number]['key'];
+
+export const getTotalDeductions = (payday: Partial<Record<DeductionKey, number | null>>) =>
+  DEDUCTION_FIELDS.reduce((sum, field) => sum + (Number(payday[field.key]) || 0), 0);
+
+// Take-home pay per payday. Falls back to gross minus deductions when no net figure was entered.
+export const getNetPay = (payday: Pick<Payday, 'gross_amount' | 'net_amount'> & Partial<Record<DeductionKey, number | null>>) => {
+  if (payday.net_amount) return payday.net_amount;
+  return Math.max(0, (payday.gross_amount || 0) - getTotalDeductions(payday));
+};
@@ -0,0 +1,123 @@
+import { addDays, differenceInCalendarDays, format, isAfter, startOfDay } from 'date-fns';
+import { Goal, GoalContribution, Payday, PriceChange, RecurringExpense, Transaction } from '../types';
+import { getGoalPlan } from './goals';
+import { getNetPay } from './pay';
+import { getAmountOn } from './priceHistory';
+import { getOccurrencesBetween, getPreviousDates, iterateScheduledDates } from './recurrence';
+
+export interface PayPeriod {
+  start: Date; // the payday that opens the period
+  end: Date;   // the day before the next payday
+}
+
+export interface PayPeriodBill {
+  bill: RecurringExpense;
+  date: Date;
+  amount: number; // the price in effect on the date
+}
+
+export interface PayPeriodSummary {
+  period: PayPeriod;
+  isCurrent: boolean;
+  incomeReceived: number;
+  billsPaid: number;        // expenses posted from recurring bills
+  otherSpending: number;    // every other expense
+  billsDue: PayPeriodBill[]; // bill occurrences not yet posted
+  billsDueTotal: number;
+  goalsContributed: number;
+  goalsPlanned: number;     // what the goals' target dates call for from this period's paydays
+  goalsStillToSave: number;
+  leftToSpend: number;      // income less spending, bills still due and goal saving still to do
+  daysLeft: number;         // including today, for the current period
+  safePerDay: number | null;
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// The pay stream that defines periods: the one bringing in the most per payday
+export const getMainPayday = (paydays: Payday[]) =>
+  [...paydays].sort((a, b) => getNetPay(b) - getNetPay(a))[0] || null;
+
+// The pay period `offset` periods away from the one containing today (0 = current, -1 = the one before)
+export const getPayPeriod = (payday: Payday, offset: number, today: Date = new Date()): PayPeriod | null => {
+  const day = startOfDay(today);
+  const before = getPreviousDates(payday.next_payday_date, payday, Math.max(0, -offset) + 2);
+  const after: Date[] = [];
+  for (const { date } of iterateScheduledDates(payday.next_payday_date, payday)) {
+    after.push(date);
+    if (isAfter(date, day) && after.filter(d => isAfter(d, day)).length > Math.max(0, offset)) break;
+  }
+
+  const dates = [...before.reverse(), ...after];
+  const current = dates.reduce((found, d, i) => (d <= day ? i : found), -1);
+  const index = current + offset;
+  if (index < 0 || index + 1 >= dates.length) return null;
+  return { start: dates[index], end: addDays(dates[index + 1], -1) };
+};
+
+const inPeriod = (date: string, period: PayPeriod) =>
+  date >= format(period.start, 'yyyy-MM-dd') && date <= format(period.end, 'yyyy-MM-dd');
+
+export const getPayPeriodSummary = (
+  period: PayPeriod,
+  data: {
+    income: Transaction[];
+    expenses: Transaction[];
+    bills: RecurringExpense[];
+    goals: Goal[];
+    contributions: GoalContribution[];
+    paydays: Payday[];
+    priceChanges: PriceChange[];
+  },
+  today: Date = new Date()
+): PayPeriodSummary => {
+  const day = startOfDay(today);
+  const isCurrent = period.start <= day && day <= period.end;
+  const isPast = period.end < day;
+
+  const sum = (items: { amount: number }[]) => round(items.reduce((total, i) => total + i.amount, 0));
+  const expenses = data.expenses.filter(e => inPeriod(e.date, period));
+  const incomeReceived = sum(data.income.filter(i => inPeriod(i.date, period)));
+  const billsPaid = sum(expenses.filter(e => e.recurring_expense_id));
+  const otherSpending = sum(expenses.filter(e => !e.recurring_expense_id));
+
+  // Bills are only still due in the current or a future period; anything earlier was posted or skipped
+  const billsDue = isPast ? [] : data.bills
+    .flatMap(bill => getOccurrencesBetween(bill.next_due_date, bill, period.start, period.end)
+      .map(date => ({ bill, date, amount: getAmountOn(bill, data.priceChanges, date) })))
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+  const billsDueTotal = round(billsDue.reduce((total, b) => total + b.amount, 0));
+
+  const contributions = data.contributions.filter(c => inPeriod(c.date, period));
+  const goalsContributed = sum(contributions);
+  const paydaysInPeriod = data.paydays.reduce(
+    (count, pd) => count + getOccurrencesBetween(pd.next_payday_date, pd, period.start, period.end).length,
+    0
+  );
+  // Planned from where each goal stood when the period opened, so saving done since doesn't shrink the plan
+  const goalsPlanned = isPast ? 0 : round(data.goals.reduce((total, goal) => {
+    const savedSince = sum(contributions.filter(c => c.goal_id === goal.id));
+    const plan = getGoalPlan({ ...goal, current_amount: goal.current_amount - savedSince }, data.contributions, data.paydays, period.start);
+    return total + (plan.requiredPerPayday || 0) * Math.max(paydaysInPeriod, 1);
+  }, 0));
+  const goalsStillToSave = round(Math.max(0, goalsPlanned - goalsContributed));
+
+  const leftToSpend = round(incomeReceived - billsPaid - otherSpending - billsDueTotal - Math.max(goalsContributed, 0) - goalsStillToSave);
+  const daysLeft = isCurrent ? differenceInCalendarDays(period.end, day) + 1 : 0;
+
+  return {
+    period,
+    isCurrent,
+    incomeReceived,
+    billsPaid,
+    otherSpending,
+    billsDue,
+    billsDueTotal,
+    goalsContributed,
+    goalsPlanned,
+    goalsStillToSave,
+    leftToSpend,
+    daysLeft,
+    safePerDay: daysLeft > 0 ? round(Math.max(0, leftToSpend) / daysLeft) : null,
+  };
+};
@@ -0,0 +1,59 @@
+import { addDays, endOfYear, format, startOfYear } from 'date-fns';
+import { Benefit, PriceChange, RecurringExpense } from '../types';
+import { getMonthlyEquivalent, toDate } from './recurrence';
+
+export interface PriceRise {
+  bill: RecurringExpense;
+  change: PriceChange;
+  previousAmount: number; // what the bill cost just before the change, from the rest of its history
+  annualImpact: number; // extra cost over a year at the new price
+}
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const toKey = (date: Date | string) => (typeof date === 'string' ? date : format(date, 'yyyy-MM-dd'));
+
+// One bill's or benefit's changes, oldest first
+export const getPriceHistory = (itemId: string, changes: PriceChange[]) =>
+  changes
+    .filter(c => c.recurring_expense_id === itemId || c.benefit_id === itemId)
+    .sort((a, b) => a.effective_date.localeCompare(b.effective_date) || (a.created_at || '').localeCompare(b.created_at || ''));
+
+// The amount in effect on a date: the latest change on or before it, or what it was before the first change
+export const getAmountOn = (item: Pick<RecurringExpense | Benefit, 'id' | 'amount'>, changes: PriceChange[], date: Date | string) => {
+  const history = getPriceHistory(item.id, changes);
+  if (!history.length) return item.amount;
+  const key = toKey(date);
+  const applied = history.filter(c => c.effective_date <= key);
+  return applied.length ? applied[applied.length - 1].amount : history[0].previous_amount;
+};
+
+// The amount just before a change would take effect
+export const getAmountBefore = (item: Pick<RecurringExpense | Benefit, 'id' | 'amount'>, changes: PriceChange[], date: string) =>
+  getAmountOn(item, changes, addDays(toDate(date), -1));
+
+// The change behind today's amount, if there's been one
+export const getCurrentChange = (itemId: string, changes: PriceChange[], today: Date = new Date()) =>
+  getPriceHistory(itemId, changes).filter(c => c.effective_date <= toKey(today)).pop() || null;
+
+// Changes still to come, soonest first
+export const getScheduledChanges = (itemId: string, changes: PriceChange[], today: Date = new Date()) =>
+  getPriceHistory(itemId, changes).filter(c => c.effective_date > toKey(today));
+
+// Bill increases taking effect this calendar year, biggest yearly impact first
+export const getPriceRises = (bills: RecurringExpense[], changes: PriceChange[], today: Date = new Date()): PriceRise[] => {
+  const from = toKey(startOfYear(today));
+  const to = toKey(endOfYear(today));
+  return changes
+    .filter(c => c.recurring_expense_id && c.effective_date >= from && c.effective_date <= to)
+    .flatMap(change => {
+      const bill = bills.find(b => b.id === change.recurring_expense_id);
+      if (!bill) return [];
+      // The stored previous_amount goes stale when an earlier change is added or removed later
+      const previousAmount = getAmountBefore(bill, changes, change.effective_date);
+      if (change.amount <= previousAmount) return [];
+      const annualImpact = round(getMonthlyEquivalent(change.amount - previousAmount, bill, bill.next_due_date) * 12);
+      return [{ bill, change, previousAmount, annualImpact }];
+    })
+    .sort((a, b) => b.annualImpact - a.annualImpact);
+};
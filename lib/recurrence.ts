@@ -0,0 +1,512 @@
+import { addDays, addMonths, addWeeks, addYears, endOfDay, format, getDaysInMonth, parseISO, startOfDay } from 'date-fns';
+import { BusinessDayRule, Frequency, HolidayCalendar } from '../types';
+import { adjustToBusinessDay } from './holidays';
+
+// A schedule is the recurrence part of a Payday, Benefit or RecurringExpense row.
+// Legacy rows use `frequency` + `custom_value`; 'RRULE' rows carry an RFC 5545 rule string.
+export interface Schedule {
+  frequency: Frequency;
+  custom_value?: number | null;
+  rrule?: string | null;
+  business_day_rule?: BusinessDayRule | null;
+  holiday_calendar?: HolidayCalendar | null;
+}
+
+export type RuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayNum {
+  weekday: number; // 0 = Sunday ... 6 = Saturday (matches Date.getDay)
+  nth?: number;    // e.g. 2 = second, -1 = last
+}
+
+export interface RecurrenceRule {
+  freq: RuleFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: WeekdayNum[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  wkst: number;
+}
+
+export const FREQUENCY_OPTIONS: { label: string; value: Frequency }[] = [
+  { label: 'Weekly', value: 'WEEKLY' },
+  { label: 'Fortnightly', value: 'FORTNIGHTLY' },
+  { label: 'Monthly', value: 'MONTHLY' },
+  { label: 'Yearly', value: 'YEARLY' },
+  { label: 'Every X Days', value: 'EVERY_X_DAYS' },
+  { label: 'Specific Day of Month', value: 'SPECIFIC_DAY' },
+  { label: 'Custom Rule (RRULE)', value: 'RRULE' },
+];
+
+const DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// A weekend plus a run of bank holidays never moves a date further than this
+const MAX_ROLL_DAYS = 7;
+
+// Safety net so a rule that never matches (e.g. BYMONTHDAY=31;BYMONTH=2) can't spin forever
+const MAX_PERIODS = 5000;
+
+export const ordinal = (n: number) => {
+  const s = ['th', 'st', 'nd', 'rd'];
+  const v = Math.abs(n) % 100;
+  return `${n}${s[(v - 20) % 10] || s[v] || s[0]}`;
+};
+
+// Dates in the database are plain 'yyyy-MM-dd' strings; parse them as local midnight
+export const toDate = (value: string | Date) =>
+  typeof value === 'string' ? startOfDay(parseISO(value)) : startOfDay(value);
+
+// --- RRULE parsing / formatting ---
+
+const parseNumberList = (value: string, min: number, max: number, name: string) =>
+  value.split(',').map(part => {
+    const n = Number(part);
+    if (!Number.isInteger(n) || n === 0 || Math.abs(n) < min || Math.abs(n) > max) {
+      throw new Error(`Invalid ${name} value "${part}"`);
+    }
+    return n;
+  });
+
+const parseUntil = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(T\d{6}Z?)?$/);
+  if (!match) throw new Error(`Invalid UNTIL value "${value}"`);
+  return endOfDay(new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+};
+
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'WKST', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS'];
+
+export const parseRRule = (text: string): RecurrenceRule => {
+  const body = text.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new Error('Rule is empty');
+
+  const parts: Record<string, string> = {};
+  for (const segment of body.split(';').filter(Boolean)) {
+    const [key, value] = segment.split('=');
+    if (!key || value === undefined || value === '') throw new Error(`Invalid rule part "${segment}"`);
+    // Ignoring a part we don't understand would quietly produce different dates from the ones asked for
+    if (!SUPPORTED_PARTS.includes(key.toUpperCase())) throw new Error(`Unsupported rule part "${key.toUpperCase()}"`);
+    parts[key.toUpperCase()] = value.toUpperCase();
+  }
+
+  const freq = parts.FREQ as RuleFrequency;
+  if (!['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'].includes(freq)) {
+    throw new Error(parts.FREQ ? `Unsupported FREQ "${parts.FREQ}"` : 'FREQ is required');
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1, wkst: 1 };
+
+  if (parts.INTERVAL) {
+    rule.interval = Number(parts.INTERVAL);
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) throw new Error('INTERVAL must be a positive whole number');
+  }
+  if (parts.COUNT && parts.UNTIL) throw new Error('COUNT and UNTIL cannot both be set');
+  if (parts.COUNT) {
+    rule.count = Number(parts.COUNT);
+    if (!Number.isInteger(rule.count) || rule.count < 1) throw new Error('COUNT must be a positive whole number');
+  }
+  if (parts.UNTIL) rule.until = parseUntil(parts.UNTIL);
+  if (parts.WKST) {
+    rule.wkst = DAY_CODES.indexOf(parts.WKST);
+    if (rule.wkst < 0) throw new Error(`Invalid WKST value "${parts.WKST}"`);
+  }
+  if (parts.BYDAY) {
+    rule.byDay = parts.BYDAY.split(',').map(part => {
+      const match = part.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) throw new Error(`Invalid BYDAY value "${part}"`);
+      const nth = match[1] ? Number(match[1]) : undefined;
+      if (nth === 0 || (nth !== undefined && Math.abs(nth) > 53)) throw new Error(`Invalid BYDAY value "${part}"`);
+      return { weekday: DAY_CODES.indexOf(match[2]), nth };
+    });
+  }
+  if (parts.BYMONTHDAY) rule.byMonthDay = parseNumberList(parts.BYMONTHDAY, 1, 31, 'BYMONTHDAY');
+  if (parts.BYMONTH) {
+    rule.byMonth = parseNumberList(parts.BYMONTH, 1, 12, 'BYMONTH');
+    if (rule.byMonth.some(m => m < 0)) throw new Error('BYMONTH values must be positive');
+  }
+  if (parts.BYSETPOS) rule.bySetPos = parseNumberList(parts.BYSETPOS, 1, 366, 'BYSETPOS');
+
+  return rule;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+export const formatRRule = (rule: RecurrenceRule) => {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.nth ?? ''}${DAY_CODES[d.weekday]}`).join(',')}`);
+  }
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.wkst !== 1) parts.push(`WKST=${DAY_CODES[rule.wkst]}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) {
+    const u = rule.until;
+    parts.push(`UNTIL=${u.getFullYear()}${pad(u.getMonth() + 1)}${pad(u.getDate())}`);
+  }
+  return parts.join(';');
+};
+
+export const isValidRRule = (text?: string | null) => {
+  if (!text) return false;
+  try {
+    parseRRule(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Monthly "on day N" that falls back to the last day of shorter months (Feb 30 -> Feb 28/29)
+const clampedMonthDay = (day: number): Pick<RecurrenceRule, 'byMonthDay' | 'bySetPos'> => {
+  if (day < 29) return { byMonthDay: [day] };
+  const days = [];
+  for (let d = 28; d <= day; d++) days.push(d);
+  return { byMonthDay: days, bySetPos: [-1] };
+};
+
+// Converts any schedule (legacy or RRULE) into a rule anchored on `start`
+export const scheduleToRule = (schedule: Schedule, start: Date): RecurrenceRule => {
+  const base = { interval: 1, wkst: 1 };
+  switch (schedule.frequency) {
+    case 'WEEKLY': return { ...base, freq: 'WEEKLY' };
+    case 'FORTNIGHTLY': return { ...base, freq: 'WEEKLY', interval: 2 };
+    case 'MONTHLY': return { ...base, freq: 'MONTHLY', ...clampedMonthDay(start.getDate()) };
+    case 'YEARLY':
+      // Feb 29 schedules fall back to Feb 28 outside leap years
+      return start.getMonth() === 1 && start.getDate() === 29
+        ? { ...base, freq: 'YEARLY', byMonth: [2], byMonthDay: [28, 29], bySetPos: [-1] }
+        : { ...base, freq: 'YEARLY' };
+    case 'EVERY_X_DAYS': return { ...base, freq: 'DAILY', interval: Math.max(1, schedule.custom_value || 1) };
+    case 'SPECIFIC_DAY': return { ...base, freq: 'MONTHLY', ...clampedMonthDay(schedule.custom_value || start.getDate()) };
+    case 'RRULE': return parseRRule(schedule.rrule || '');
+  }
+};
+
+// --- Occurrence expansion ---
+
+const periodStart = (date: Date, rule: RecurrenceRule) => {
+  switch (rule.freq) {
+    case 'DAILY': return startOfDay(date);
+    case 'WEEKLY': return addDays(startOfDay(date), -((date.getDay() - rule.wkst + 7) % 7));
+    case 'MONTHLY': return new Date(date.getFullYear(), date.getMonth(), 1);
+    case 'YEARLY': return new Date(date.getFullYear(), 0, 1);
+  }
+};
+
+const nextPeriod = (start: Date, rule: RecurrenceRule) => {
+  switch (rule.freq) {
+    case 'DAILY': return addDays(start, rule.interval);
+    case 'WEEKLY': return addWeeks(start, rule.interval);
+    case 'MONTHLY': return addMonths(start, rule.interval);
+    case 'YEARLY': return addYears(start, rule.interval);
+  }
+};
+
+const previousPeriod = (start: Date, rule: RecurrenceRule) => {
+  switch (rule.freq) {
+    case 'DAILY': return addDays(start, -rule.interval);
+    case 'WEEKLY': return addWeeks(start, -rule.interval);
+    case 'MONTHLY': return addMonths(start, -rule.interval);
+    case 'YEARLY': return addYears(start, -rule.interval);
+  }
+};
+
+const daysInPeriod = (start: Date, rule: RecurrenceRule) => {
+  const length = rule.freq === 'DAILY' ? 1
+    : rule.freq === 'WEEKLY' ? 7
+    : rule.freq === 'MONTHLY' ? getDaysInMonth(start)
+    : (new Date(start.getFullYear(), 1, 29).getMonth() === 1 ? 366 : 365);
+  return Array.from({ length }, (_, i) => addDays(start, i));
+};
+
+const matchesMonthDay = (day: Date, monthDays: number[]) => {
+  const dim = getDaysInMonth(day);
+  return monthDays.some(md => (md > 0 ? md : dim + md + 1) === day.getDate());
+};
+
+// Applies BYDAY to the days of one period. Ordinals ("2TU", "-1FR") count within the
+// month for MONTHLY rules (and YEARLY rules with BYMONTH), otherwise within the year.
+const applyByDay = (days: Date[], rule: RecurrenceRule, byDay: WeekdayNum[]) => {
+  const ordinalScope = rule.freq === 'MONTHLY' || (rule.freq === 'YEARLY' && rule.byMonth?.length)
+    ? (d: Date) => d.getMonth()
+    : () => 0;
+
+  const groups = new Map<number, Date[]>();
+  days.forEach(d => {
+    const key = ordinalScope(d);
+    groups.set(key, [...(groups.get(key) || []), d]);
+  });
+
+  const result: Date[] = [];
+  groups.forEach(group => {
+    group.forEach(day => {
+      const sameWeekday = group.filter(d => d.getDay() === day.getDay());
+      const position = sameWeekday.indexOf(day);
+      const matches = byDay.some(bd => {
+        if (bd.weekday !== day.getDay()) return false;
+        if (bd.nth === undefined || rule.freq === 'DAILY' || rule.freq === 'WEEKLY') return true;
+        return bd.nth > 0 ? position === bd.nth - 1 : position === sameWeekday.length + bd.nth;
+      });
+      if (matches) result.push(day);
+    });
+  });
+  return result;
+};
+
+const expandPeriod = (start: Date, rule: RecurrenceRule, dtstart: Date) => {
+  let days = daysInPeriod(start, rule);
+
+  if (rule.byMonth?.length) days = days.filter(d => rule.byMonth!.includes(d.getMonth() + 1));
+  else if (rule.freq === 'YEARLY' && !rule.byDay?.length) days = days.filter(d => d.getMonth() === dtstart.getMonth());
+
+  if (rule.byMonthDay?.length) days = days.filter(d => matchesMonthDay(d, rule.byMonthDay!));
+  if (rule.byDay?.length) days = applyByDay(days, rule, rule.byDay);
+
+  if (!rule.byMonthDay?.length && !rule.byDay?.length) {
+    if (rule.freq === 'WEEKLY') days = days.filter(d => d.getDay() === dtstart.getDay());
+    if (rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') days = days.filter(d => d.getDate() === dtstart.getDate());
+  }
+
+  if (rule.bySetPos?.length) {
+    const selected = rule.bySetPos
+      .map(pos => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+      .filter((d): d is Date => !!d);
+    days = Array.from(new Set(selected.map(d => d.getTime()))).sort((a, b) => a - b).map(t => new Date(t));
+  }
+  return days;
+};
+
+// Yields every occurrence in order. DTSTART is always the first occurrence (RFC 5545 §3.8.5.3).
+export function* iterateOccurrences(start: string | Date, schedule: Schedule): Generator<Date> {
+  const dtstart = toDate(start);
+  const rule = scheduleToRule(schedule, dtstart);
+
+  let emitted = 0;
+  const withinLimits = (d: Date) =>
+    (!rule.count || emitted < rule.count) && (!rule.until || d <= rule.until);
+
+  if (!withinLimits(dtstart)) return;
+  emitted++;
+  yield dtstart;
+
+  let period = periodStart(dtstart, rule);
+  for (let i = 0; i < MAX_PERIODS; i++) {
+    for (const day of expandPeriod(period, rule, dtstart)) {
+      if (day <= dtstart) continue;
+      if (!withinLimits(day)) return;
+      emitted++;
+      yield day;
+    }
+    period = nextPeriod(period, rule);
+  }
+}
+
+// Yields occurrences after rolling them off weekends and holidays per the schedule's business day rule
+export function* iterateScheduledDates(start: string | Date, schedule: Schedule): Generator<{ date: Date; scheduled: Date }> {
+  for (const scheduled of iterateOccurrences(start, schedule)) {
+    const date = adjustToBusinessDay(scheduled, schedule.business_day_rule || 'NONE', schedule.holiday_calendar || 'NONE');
+    yield { date, scheduled };
+  }
+}
+
+// Occurrences the schedule would have had before `start`, most recent first, after business day rolling.
+// COUNT and UNTIL only limit the future so they're ignored here.
+export const getPreviousDates = (start: string | Date, schedule: Schedule, count: number) => {
+  const dtstart = toDate(start);
+  const rule = scheduleToRule(schedule, dtstart);
+  const dates: Date[] = [];
+  let period = periodStart(dtstart, rule);
+  for (let i = 0; i < MAX_PERIODS && dates.length < count; i++) {
+    const days = expandPeriod(period, rule, dtstart).filter(d => d < dtstart).reverse();
+    for (const day of days) {
+      dates.push(adjustToBusinessDay(day, schedule.business_day_rule || 'NONE', schedule.holiday_calendar || 'NONE'));
+      if (dates.length >= count) break;
+    }
+    period = previousPeriod(period, rule);
+  }
+  return dates;
+};
+
+export const getNextDates = (start: string | Date, schedule: Schedule, count: number) => {
+  const dates: Date[] = [];
+  if (count <= 0) return dates;
+  for (const { date } of iterateScheduledDates(start, schedule)) {
+    dates.push(date);
+    if (dates.length >= count) break;
+  }
+  return dates;
+};
+
+// Occurrences falling within [from, to], inclusive of both days
+export const getOccurrencesBetween = (start: string | Date, schedule: Schedule, from: Date, to: Date) => {
+  const lower = startOfDay(from);
+  const upper = endOfDay(to);
+  const dates: Date[] = [];
+  for (const { date, scheduled } of iterateScheduledDates(start, schedule)) {
+    if (scheduled > addDays(upper, MAX_ROLL_DAYS)) break;
+    if (date >= lower && date <= upper) dates.push(date);
+  }
+  return dates;
+};
+
+// First occurrence on or after `from`, or null once the schedule has ended
+export const getNextOccurrence = (start: string | Date, schedule: Schedule, from: Date = new Date()) => {
+  const lower = startOfDay(from);
+  for (const { date } of iterateScheduledDates(start, schedule)) {
+    if (date >= lower) return date;
+  }
+  return null;
+};
+
+// Re-anchors a schedule on a later occurrence so it keeps producing the same dates.
+// Parts that were implied by the old start date (month-end days, COUNT) are made explicit.
+export const rebaseSchedule = (start: string | Date, schedule: Schedule, to: Date) => {
+  const dtstart = toDate(start);
+  const next = { ...schedule, start: format(to, 'yyyy-MM-dd') };
+
+  if (schedule.frequency === 'MONTHLY' && dtstart.getDate() >= 29) {
+    return { ...next, frequency: 'SPECIFIC_DAY' as Frequency, custom_value: dtstart.getDate() };
+  }
+  if (schedule.frequency === 'YEARLY' && dtstart.getMonth() === 1 && dtstart.getDate() === 29) {
+    return { ...next, frequency: 'RRULE' as Frequency, rrule: formatRRule(scheduleToRule(schedule, dtstart)) };
+  }
+  if (schedule.frequency !== 'RRULE') return next;
+
+  const rule = parseRRule(schedule.rrule || '');
+  if (rule.freq === 'WEEKLY' && !rule.byDay?.length) rule.byDay = [{ weekday: dtstart.getDay() }];
+  if (rule.freq === 'YEARLY' && !rule.byMonth?.length && !rule.byDay?.length) rule.byMonth = [dtstart.getMonth() + 1];
+  if ((rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') && !rule.byMonthDay?.length && !rule.byDay?.length) {
+    rule.byMonthDay = [dtstart.getDate()];
+  }
+  if (rule.count) {
+    let passed = 0;
+    for (const date of iterateOccurrences(dtstart, schedule)) {
+      if (date >= startOfDay(to)) break;
+      passed++;
+    }
+    rule.count = Math.max(1, rule.count - passed);
+  }
+  return { ...next, rrule: formatRRule(rule) };
+};
+
+// Periods sampled per rule frequency, and how many periods make a year (matching the fixed frequencies below)
+const SAMPLE_PERIODS: Record<RuleFrequency, { periods: number; perYear: number }> = {
+  DAILY: { periods: 365, perYear: 365 },
+  WEEKLY: { periods: 52, perYear: 52 },
+  MONTHLY: { periods: 12, perYear: 12 },
+  YEARLY: { periods: 4, perYear: 1 }, // four years so Feb 29 rules average out
+};
+
+// Occurrences a rule makes in an average year. Counted over whole periods from the schedule's start,
+// so the ends of a one-year window can't add or drop an occurrence (e.g. two "last Fridays" 364 days apart).
+const getOccurrencesPerYear = (schedule: Schedule, start: Date) => {
+  const rule = scheduleToRule(schedule, start);
+  const { periods, perYear } = SAMPLE_PERIODS[rule.freq];
+  let count = 0;
+  let period = periodStart(start, rule);
+  for (let i = 0; i < periods; i++) {
+    count += expandPeriod(period, rule, start).filter(d => !rule.until || d <= rule.until).length;
+    period = nextPeriod(period, rule);
+  }
+  return (count / periods) * (perYear / rule.interval);
+};
+
+// Average monthly value of an amount paid on this schedule. `start` is the schedule's own start date.
+export const getMonthlyEquivalent = (amount: number, schedule: Schedule, start: string | Date = new Date()) => {
+  switch (schedule.frequency) {
+    case 'WEEKLY': return (amount * 52) / 12;
+    case 'FORTNIGHTLY': return (amount * 26) / 12;
+    case 'MONTHLY':
+    case 'SPECIFIC_DAY': return amount;
+    case 'YEARLY': return amount / 12;
+    case 'EVERY_X_DAYS': return (amount * 365) / (schedule.custom_value || 30) / 12;
+    case 'RRULE': return (amount * getOccurrencesPerYear(schedule, toDate(start))) / 12;
+  }
+};
+
+// --- Human readable descriptions ---
+
+const joinDays = (byDay: WeekdayNum[]) => {
+  const names = byDay.map(d => (d.nth ? `${d.nth === -1 ? 'last' : ordinal(d.nth)} ${DAY_NAMES[d.weekday]}` : DAY_NAMES[d.weekday]));
+  return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+};
+
+const describeMonthDays = (days: number[]) =>
+  days.map(d => (d === -1 ? 'last day' : d < 0 ? `${ordinal(-d)} to last day` : ordinal(d))).join(', ');
+
+export const describeRule = (rule: RecurrenceRule) => {
+  const every = (unit: string, plural: string) => (rule.interval === 1 ? `every ${unit}` : `every ${rule.interval} ${plural}`);
+  let text: string;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      text = rule.interval === 1 ? 'daily' : `every ${rule.interval} days`;
+      break;
+    case 'WEEKLY':
+      text = rule.byDay?.length
+        ? (rule.interval === 1 ? `every ${joinDays(rule.byDay)}` : `${every('week', 'weeks')} on ${joinDays(rule.byDay)}`)
+        : (rule.interval === 1 ? 'weekly' : rule.interval === 2 ? 'fortnightly' : every('week', 'weeks'));
+      break;
+    case 'MONTHLY': {
+      const setPosLast = rule.bySetPos?.length === 1 && rule.bySetPos[0] === -1;
+      const scope = rule.interval === 1 ? 'of the month' : `of ${every('month', 'months')}`;
+      if (rule.byDay?.length && rule.byDay.every(d => d.nth && d.nth > 0) && rule.interval === 1 && !rule.byMonthDay?.length) {
+        text = `every ${joinDays(rule.byDay)}`;
+      } else if (rule.byDay?.length) {
+        text = `on the ${setPosLast ? 'last ' : ''}${joinDays(rule.byDay)} ${scope}`;
+      } else if (rule.byMonthDay?.length) {
+        text = setPosLast
+          ? `on the ${ordinal(rule.byMonthDay[rule.byMonthDay.length - 1])} (or last day) ${scope}`
+          : `on the ${describeMonthDays(rule.byMonthDay)} ${scope}`;
+      } else {
+        text = rule.interval === 1 ? 'monthly' : every('month', 'months');
+      }
+      break;
+    }
+    case 'YEARLY': {
+      text = rule.interval === 1 ? 'yearly' : every('year', 'years');
+      if (rule.byMonth?.length) text += ` in ${rule.byMonth.map(m => MONTH_NAMES[m - 1]).join(', ')}`;
+      if (rule.byDay?.length) text += ` on the ${joinDays(rule.byDay)}`;
+      else if (rule.byMonthDay?.length) text += ` on the ${describeMonthDays(rule.byMonthDay)}`;
+      break;
+    }
+  }
+
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until.toLocaleDateString()}`;
+  return text;
+};
+
+export const describeSchedule = (schedule: Schedule) => {
+  switch (schedule.frequency) {
+    case 'EVERY_X_DAYS': return `every ${schedule.custom_value} days`;
+    case 'SPECIFIC_DAY': return `on the ${ordinal(schedule.custom_value || 1)} of every month`;
+    case 'RRULE': {
+      try {
+        return describeRule(parseRRule(schedule.rrule || ''));
+      } catch {
+        return 'invalid rule';
+      }
+    }
+    default: return schedule.frequency.toLowerCase();
+  }
+};
+
+// Canonical rule string to store, or null for legacy frequencies
+export const normalizeRRule = (schedule: Schedule) =>
+  schedule.frequency === 'RRULE' ? formatRRule(parseRRule(schedule.rrule || '')) : null;
+
+// Shared zod refinement for forms that edit a schedule
+export const isValidSchedule = (data: Schedule) => {
+  if (data.frequency === 'EVERY_X_DAYS' && (!data.custom_value || data.custom_value < 1)) return false;
+  if (data.frequency === 'SPECIFIC_DAY' && (!data.custom_value || data.custom_value < 1 || data.custom_value > 31)) return false;
+  if (data.frequency === 'RRULE' && !isValidRRule(data.rrule)) return false;
+  return true;
+};
@@ -0,0 +1,31 @@
+import { endOfDay } from 'date-fns';
+import { RecurringExpense } from '../types';
+import { iterateScheduledDates } from './recurrence';
+
+// Upper bound on how many missed occurrences a single bill can post in one catch-up
+const MAX_CATCH_UP = 366;
+
+export interface BillRollover {
+  bill: RecurringExpense;
+  due: Date[];          // occurrences (after business day adjustment) on or before today
+  next: Date | null;    // next scheduled occurrence still to come, null if the schedule has ended
+}
+
+// Works out which occurrences of a bill have come due since its stored next_due_date
+export const getBillRollover = (bill: RecurringExpense, today: Date = new Date()): BillRollover | null => {
+  const cutoff = endOfDay(today);
+  const due: Date[] = [];
+  let next: Date | null = null;
+
+  for (const { date, scheduled } of iterateScheduledDates(bill.next_due_date, bill)) {
+    if (date > cutoff || due.length >= MAX_CATCH_UP) {
+      next = scheduled;
+      break;
+    }
+    due.push(date);
+  }
+
+  return due.length ? { bill, due, next } : null;
+};
+
+export const isAskFirst = (bill: RecurringExpense) => bill.auto_post === false;
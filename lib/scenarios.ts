@@ -0,0 +1,77 @@
+import { Scenario, ScenarioAdjustment } from '../types';
+import { CashFlowStream, debtPaymentSchedule } from './cashflow';
+
+export const ADJUSTMENT_TYPE_OPTIONS: { label: string; value: ScenarioAdjustment['type'] }[] = [
+  { label: 'Add income or bill', value: 'ADD' },
+  { label: 'Take on a new debt', value: 'ADD_DEBT' },
+  { label: 'Remove an existing income or bill', value: 'REMOVE' },
+  { label: 'Change an existing income or bill amount', value: 'MODIFY' },
+];
+
+const adjustmentToStream = (adjustment: ScenarioAdjustment): CashFlowStream | null => {
+  if (adjustment.type === 'ADD') {
+    return {
+      id: adjustment.id,
+      label: adjustment.label,
+      kind: adjustment.kind,
+      amount: adjustment.kind === 'BILL' ? -Math.abs(adjustment.amount) : Math.abs(adjustment.amount),
+      start: adjustment.start,
+      schedule: { frequency: adjustment.frequency, custom_value: adjustment.custom_value, rrule: adjustment.rrule },
+    };
+  }
+  if (adjustment.type === 'ADD_DEBT') {
+    return {
+      id: adjustment.id,
+      label: adjustment.label,
+      kind: 'BILL',
+      amount: -Math.abs(adjustment.payment),
+      start: adjustment.start,
+      schedule: debtPaymentSchedule(adjustment.balance, adjustment.interest_rate, adjustment.payment),
+      category: 'Debt',
+    };
+  }
+  return null;
+};
+
+// Baseline streams with a scenario's hypothetical changes layered on top. Real data is never touched.
+export const applyScenario = (streams: CashFlowStream[], scenario: Pick<Scenario, 'adjustments'>) => {
+  const removed = new Set<string>();
+  const amounts = new Map<string, number>();
+  const added: CashFlowStream[] = [];
+
+  scenario.adjustments.forEach(adjustment => {
+    if (adjustment.type === 'REMOVE') removed.add(adjustment.stream_id);
+    else if (adjustment.type === 'MODIFY') amounts.set(adjustment.stream_id, Math.abs(adjustment.amount));
+    else {
+      const stream = adjustmentToStream(adjustment);
+      if (stream) added.push(stream);
+    }
+  });
+
+  return [
+    ...streams
+      .filter(stream => !removed.has(stream.id))
+      .map(stream => (amounts.has(stream.id)
+        ? {
+            ...stream,
+            amount: Math.sign(stream.amount || 1) * amounts.get(stream.id)!,
+            amountOn: undefined,
+            // A debt paid faster or slower is cleared sooner or later
+            schedule: stream.debt
+              ? debtPaymentSchedule(stream.debt.balance, stream.debt.interest_rate, amounts.get(stream.id)!)
+              : stream.schedule,
+          }
+        : stream)),
+    ...added,
+  ];
+};
+
+export const describeAdjustment = (adjustment: ScenarioAdjustment, streams: CashFlowStream[]) => {
+  const streamLabel = (id: string) => streams.find(s => s.id === id)?.label || 'Deleted item';
+  switch (adjustment.type) {
+    case 'ADD': return `Add ${adjustment.kind === 'BILL' ? 'bill' : 'income'} "${adjustment.label}" of $${adjustment.amount}`;
+    case 'ADD_DEBT': return `Take on "${adjustment.label}": $${adjustment.balance} at ${adjustment.interest_rate}%, paying $${adjustment.payment}/month`;
+    case 'REMOVE': return `Remove "${streamLabel(adjustment.stream_id)}"`;
+    case 'MODIFY': return `Change "${streamLabel(adjustment.stream_id)}" to $${adjustment.amount}`;
+  }
+};
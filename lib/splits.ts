@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { Transaction, TransactionSplit } from '../types';
+
+export const splitLineSchema = z.object({
+  category: z.string().min(1, 'Category is required'),
+  amount: z.coerce.number().positive('Must be positive'),
+  notes: z.string().optional(),
+});
+
+export const sumSplits = (splits: Pick<TransactionSplit, 'amount'>[]) =>
+  Math.round(splits.reduce((sum, line) => sum + Number(line.amount || 0), 0) * 100) / 100;
+
+// Split lines must account for the whole amount, to the cent
+export const splitsAddUp = (total: number, splits?: Pick<TransactionSplit, 'amount'>[]) =>
+  !splits?.length || Math.abs(sumSplits(splits) - total) < 0.005;
+
+export const isSplit = (t: Pick<Transaction, 'splits'>) => !!t.splits && t.splits.length > 0;
+
+// A split transaction is filed under its largest line so single-category views still have something to show
+export const getPrimaryCategory = (splits: TransactionSplit[]) =>
+  [...splits].sort((a, b) => b.amount - a.amount)[0].category;
+
+// One line per category a transaction counts towards: its splits, or the whole amount
+export const getCategoryLines = (transactions: Transaction[]) =>
+  transactions.flatMap(t =>
+    isSplit(t)
+      ? t.splits!.map(line => ({ ...t, category: line.category, amount: line.amount, notes: line.notes || t.notes }))
+      : [t]
+  );
@@ -0,0 +1,112 @@
+import { addMonths, addWeeks, addYears, differenceInCalendarDays, format, startOfDay, subYears } from 'date-fns';
+import { RecurringExpense, Transaction } from '../types';
+import { toDate } from './recurrence';
+
+export type DetectedFrequency = 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface DetectedSubscription {
+  key: string;       // normalised title the charges were grouped on
+  title: string;     // the grouping key in title case, ready to name a bill
+  category: string;
+  frequency: DetectedFrequency;
+  amount: number;    // the most recent charge
+  previousAmount: number | null; // set when the price changed in the last year
+  priceChangedOn: string | null;
+  count: number;
+  lastDate: string;
+  nextDueDate: string;
+  stopped: boolean;  // the next charge is overdue by more than the pattern's grace period
+  bill: RecurringExpense | null; // an existing bill with the same name
+}
+
+interface Pattern {
+  frequency: DetectedFrequency;
+  minGap: number;
+  maxGap: number;
+  minCharges: number;
+  graceDays: number;
+  step: (date: Date, amount: number) => Date;
+}
+
+const PATTERNS: Pattern[] = [
+  { frequency: 'WEEKLY', minGap: 5, maxGap: 9, minCharges: 3, graceDays: 3, step: addWeeks },
+  { frequency: 'MONTHLY', minGap: 26, maxGap: 35, minCharges: 3, graceDays: 7, step: addMonths },
+  { frequency: 'YEARLY', minGap: 350, maxGap: 380, minCharges: 2, graceDays: 30, step: addYears },
+];
+
+// Strips reference numbers and punctuation so "NETFLIX.COM 4821" and "Netflix.com 5532" group together
+export const normaliseTitle = (title: string) =>
+  title.toLowerCase().replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim() || title.toLowerCase();
+
+const toTitleCase = (text: string) => text.replace(/\b[a-z]/g, letter => letter.toUpperCase());
+
+const samePrice = (a: number, b: number) => Math.abs(a - b) <= Math.max(0.01, Math.abs(b) * 0.01);
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const detect = (key: string, charges: Transaction[], bills: RecurringExpense[], today: Date): DetectedSubscription | null => {
+  const dates = charges.map(c => toDate(c.date));
+  const gaps = dates.slice(1).map((d, i) => differenceInCalendarDays(d, dates[i]));
+  const typical = median(gaps);
+  const pattern = PATTERNS.find(p => typical >= p.minGap && typical <= p.maxGap);
+  if (!pattern || charges.length < pattern.minCharges) return null;
+
+  // Most gaps must fit the pattern; one missed or doubled-up charge is tolerated
+  const fitting = gaps.filter(g => g >= pattern.minGap && g <= pattern.maxGap).length;
+  if (fitting / gaps.length < 0.75) return null;
+
+  // A subscription keeps its price between changes, unlike a shop visited every week
+  const amounts = charges.map(c => c.amount);
+  const changes = amounts.slice(1).map((a, i) => !samePrice(a, amounts[i]));
+  if (changes.filter(Boolean).length > Math.max(1, Math.floor(gaps.length / 3))) return null;
+
+  const last = charges[charges.length - 1];
+  const lastChange = changes.lastIndexOf(true) + 1;
+  const priceChanged = lastChange > 0 && charges[lastChange].date >= format(subYears(today, 1), 'yyyy-MM-dd');
+
+  let next = pattern.step(dates[dates.length - 1], 1);
+  for (let n = 2; next < today; n++) next = pattern.step(dates[dates.length - 1], n);
+  const expected = pattern.step(dates[dates.length - 1], 1);
+
+  return {
+    key,
+    title: toTitleCase(key),
+    category: last.category,
+    frequency: pattern.frequency,
+    amount: last.amount,
+    previousAmount: priceChanged ? amounts[lastChange - 1] : null,
+    priceChangedOn: priceChanged ? charges[lastChange].date : null,
+    count: charges.length,
+    lastDate: last.date,
+    nextDueDate: format(next, 'yyyy-MM-dd'),
+    stopped: differenceInCalendarDays(today, expected) > pattern.graceDays,
+    bill: bills.find(b => normaliseTitle(b.title) === key) || null,
+  };
+};
+
+// Repeating charges in the expense history, matched against the bills already set up.
+// Expenses posted from a bill are left out, and so are patterns that stopped over a year ago with no bill behind them.
+export const detectSubscriptions = (
+  expenses: Transaction[],
+  bills: RecurringExpense[],
+  today: Date = new Date()
+): DetectedSubscription[] => {
+  const day = startOfDay(today);
+  const groups = new Map<string, Transaction[]>();
+  expenses
+    .filter(e => !e.recurring_expense_id)
+    .forEach(e => {
+      const key = normaliseTitle(e.title);
+      groups.set(key, [...(groups.get(key) || []), e]);
+    });
+
+  const cutoff = format(subYears(day, 1), 'yyyy-MM-dd');
+  return [...groups.entries()]
+    .map(([key, charges]) => detect(key, [...charges].sort((a, b) => a.date.localeCompare(b.date)), bills, day))
+    .filter((s): s is DetectedSubscription => s !== null && (!s.stopped || !!s.bill || s.lastDate >= cutoff))
+    .sort((a, b) => b.lastDate.localeCompare(a.lastDate));
+};
@@ -0,0 +1,316 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { supabase } from '../lib/supabase';
+import { fetchAccounts, fetchTransfers, fetchTransactions, fetchReconciliations, deleteAccount, deleteTransfer } from '../services/data';
+import { Button, Input, Select, Card } from '../components/UI';
+import { useAuth } from '../context/AuthContext';
+import { ACCOUNT_TYPE_OPTIONS, describeAccountType, getAccountBalances, getAccountLedger, isTransferEntry } from '../lib/accounts';
+import { ReconcilePanel } from '../components/ReconcilePanel';
+import { toDate } from '../lib/recurrence';
+import { format } from 'date-fns';
+import { Plus, X, Trash2, ArrowRightLeft, Landmark, PiggyBank, CreditCard, Banknote, Lock, ClipboardCheck } from 'lucide-react';
+
+const accountSchema = z.object({
+  name: z.string().min(2, 'Name is required'),
+  type: z.enum(['CURRENT', 'SAVINGS', 'CREDIT', 'CASH']),
+  opening_balance: z.coerce.number(),
+});
+
+const transferSchema = z.object({
+  from_account_id: z.string().min(1, 'Pick an account'),
+  to_account_id: z.string().min(1, 'Pick an account'),
+  amount: z.coerce.number().positive('Amount must be positive'),
+  date: z.string().min(1, 'Date is required'),
+  notes: z.string().optional(),
+}).refine(data => data.from_account_id !== data.to_account_id, {
+  message: 'Choose two different accounts',
+  path: ['to_account_id'],
+});
+
+type AccountFormData = z.infer<typeof accountSchema>;
+type TransferFormData = z.infer<typeof transferSchema>;
+
+const ACCOUNT_ICONS = { CURRENT: Landmark, SAVINGS: PiggyBank, CREDIT: CreditCard, CASH: Banknote };
+
+const Accounts: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [form, setForm] = useState<'ACCOUNT' | 'TRANSFER' | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [reconciling, setReconciling] = useState(false);
+
+  const { data: accounts = [], isLoading } = useQuery({ queryKey: ['assetflow_accounts'], queryFn: fetchAccounts });
+  const { data: transfers = [] } = useQuery({ queryKey: ['assetflow_transfers'], queryFn: fetchTransfers });
+  const { data: income = [] } = useQuery({ queryKey: ['assetflow_income'], queryFn: () => fetchTransactions('INCOME') });
+  const { data: expenses = [] } = useQuery({ queryKey: ['assetflow_expenses'], queryFn: () => fetchTransactions('EXPENSE') });
+  const { data: reconciliations = [] } = useQuery({ queryKey: ['assetflow_reconciliations'], queryFn: fetchReconciliations });
+
+  const transactions = useMemo(() => [...income, ...expenses], [income, expenses]);
+  const balances = useMemo(() => getAccountBalances(accounts, transactions, transfers), [accounts, transactions, transfers]);
+
+  const selected = accounts.find(a => a.id === selectedId) || accounts[0];
+  const history = useMemo(
+    () => (selected ? getAccountLedger(selected, transactions, transfers) : []),
+    [selected, transactions, transfers]
+  );
+  const ledger = useMemo(() => [...history].reverse(), [history]);
+
+  // A transfer is locked once either account it touches has reconciled it
+  const lockedTransferIds = useMemo(
+    () => new Set(transfers.filter(t => t.from_reconciliation_id || t.to_reconciliation_id).map(t => t.id)),
+    [transfers]
+  );
+
+  const accountForm = useForm<AccountFormData>({
+    resolver: zodResolver(accountSchema),
+    defaultValues: { type: 'CURRENT', opening_balance: 0 }
+  });
+  const transferForm = useForm<TransferFormData>({
+    resolver: zodResolver(transferSchema),
+    defaultValues: { from_account_id: '', to_account_id: '', date: format(new Date(), 'yyyy-MM-dd') }
+  });
+
+  // Linked cash assets and the net worth figures depend on balances
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['assetflow_accounts'] });
+    queryClient.invalidateQueries({ queryKey: ['assetflow_transfers'] });
+    queryClient.invalidateQueries({ queryKey: ['assetflow_assets'] });
+  };
+
+  const accountMutation = useMutation({
+    mutationFn: async (data: AccountFormData) => {
+      const { error } = await supabase.from('assetflow_accounts').insert([{ user_id: user?.id, ...data }]);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setForm(null);
+      accountForm.reset();
+    }
+  });
+
+  const transferMutation = useMutation({
+    mutationFn: async (data: TransferFormData) => {
+      const { error } = await supabase.from('assetflow_transfers').insert([{ user_id: user?.id, ...data }]);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setForm(null);
+      transferForm.reset({ from_account_id: '', to_account_id: '', date: format(new Date(), 'yyyy-MM-dd') });
+    }
+  });
+
+  const deleteAccountMutation = useMutation({
+    mutationFn: deleteAccount,
+    onSuccess: () => {
+      invalidate();
+      queryClient.invalidateQueries({ queryKey: ['assetflow_income'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_expenses'] });
+      setSelectedId(null);
+    }
+  });
+
+  const deleteTransferMutation = useMutation({
+    mutationFn: deleteTransfer,
+    onSuccess: invalidate
+  });
+
+  const accountOptions = accounts.map(a => ({ label: a.name, value: a.id }));
+  const total = accounts.reduce((sum, a) => sum + (balances.get(a.id) || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Accounts</h1>
+          <p className="text-gray-500">Bank accounts, cards and cash, with balances from the transactions in each.</p>
+        </div>
+        <div className="flex gap-2">
+          {accounts.length >= 2 && (
+            <Button variant={form === 'TRANSFER' ? 'secondary' : 'ghost'} onClick={() => setForm(form === 'TRANSFER' ? null : 'TRANSFER')}>
+              <ArrowRightLeft size={16} className="mr-2" /> Transfer
+            </Button>
+          )}
+          <Button onClick={() => setForm(form === 'ACCOUNT' ? null : 'ACCOUNT')} variant={form === 'ACCOUNT' ? 'secondary' : 'primary'}>
+            {form === 'ACCOUNT' ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> Add Account</>}
+          </Button>
+        </div>
+      </div>
+
+      {form === 'ACCOUNT' && (
+        <Card className="p-6 animate-in slide-in-from-top-4 duration-200">
+          <h2 className="text-lg font-semibold mb-4">New Account</h2>
+          <form onSubmit={accountForm.handleSubmit((d) => accountMutation.mutate(d))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input label="Name" {...accountForm.register('name')} error={accountForm.formState.errors.name?.message} placeholder="e.g. Joint Current, Visa" />
+              <Select label="Type" options={ACCOUNT_TYPE_OPTIONS} {...accountForm.register('type')} />
+              <Input
+                label="Opening Balance"
+                type="number"
+                step="0.01"
+                {...accountForm.register('opening_balance')}
+                error={accountForm.formState.errors.opening_balance?.message}
+              />
+            </div>
+            <p className="text-xs text-gray-500">The balance before the first transaction you'll record here. Enter money owed on a credit card as a negative number.</p>
+            <div className="flex justify-end pt-2">
+              <Button type="submit" isLoading={accountMutation.isPending}>Save Account</Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      {form === 'TRANSFER' && (
+        <Card className="p-6 animate-in slide-in-from-top-4 duration-200">
+          <h2 className="text-lg font-semibold mb-4">Transfer Between Accounts</h2>
+          <form onSubmit={transferForm.handleSubmit((d) => transferMutation.mutate(d))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select label="From" options={accountOptions} {...transferForm.register('from_account_id')} error={transferForm.formState.errors.from_account_id?.message} />
+              <Select label="To" options={accountOptions} {...transferForm.register('to_account_id')} error={transferForm.formState.errors.to_account_id?.message} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Input label="Amount" type="number" step="0.01" {...transferForm.register('amount')} error={transferForm.formState.errors.amount?.message} />
+              <Input label="Date" type="date" {...transferForm.register('date')} error={transferForm.formState.errors.date?.message} />
+              <Input label="Notes (Optional)" {...transferForm.register('notes')} placeholder="e.g. Card repayment" />
+            </div>
+            <p className="text-xs text-gray-500">Transfers move money between your accounts and aren't counted as income or spending.</p>
+            <div className="flex justify-end pt-2">
+              <Button type="submit" isLoading={transferMutation.isPending}>Record Transfer</Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      {isLoading ? (
+        <div className="p-8 text-center text-gray-500">Loading accounts...</div>
+      ) : accounts.length === 0 ? (
+        <Card className="p-8 text-center text-gray-500">No accounts yet. Add your current account, savings, cards and cash.</Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+            {accounts.map(account => {
+              const Icon = ACCOUNT_ICONS[account.type];
+              const balance = balances.get(account.id) || 0;
+              return (
+                <button
+                  key={account.id}
+                  onClick={() => { setSelectedId(account.id); setReconciling(false); }}
+                  className={`text-left rounded-xl border bg-white p-5 shadow-sm transition-all ${selected?.id === account.id ? 'ring-2 ring-primary-500' : 'hover:shadow-md'}`}
+                >
+                  <div className="flex items-center justify-between text-gray-500 text-sm">
+                    <span>{describeAccountType(account.type)}</span>
+                    <Icon size={18} />
+                  </div>
+                  <p className="mt-2 font-semibold text-gray-900">{account.name}</p>
+                  <p className={`text-2xl font-bold ${balance < 0 ? 'text-red-600' : 'text-gray-900'}`}>
+                    {balance < 0 ? '-' : ''}${Math.abs(balance).toFixed(2)}
+                  </p>
+                </button>
+              );
+            })}
+          </div>
+          <p className="text-sm text-gray-500">Across all accounts: <span className="font-semibold text-gray-900">${total.toFixed(2)}</span></p>
+
+          {selected && (
+            <Card className="overflow-hidden">
+              <div className="flex justify-between items-center p-6 pb-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">{selected.name}</h3>
+                  <p className="text-sm text-gray-500">Opening balance ${selected.opening_balance.toFixed(2)}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <Button variant={reconciling ? 'secondary' : 'ghost'} onClick={() => setReconciling(!reconciling)}>
+                    {reconciling ? <><X size={16} className="mr-2" /> Close</> : <><ClipboardCheck size={16} className="mr-2" /> Reconcile</>}
+                  </Button>
+                  <button
+                    onClick={() => {
+                      if (confirm(`Delete ${selected.name}? Its transactions are kept but no longer belong to an account.`)) {
+                        deleteAccountMutation.mutate(selected.id);
+                      }
+                    }}
+                    className="text-red-600 hover:text-red-900"
+                    title="Delete account"
+                  >
+                    <Trash2 size={18} />
+                  </button>
+                </div>
+              </div>
+              {deleteAccountMutation.error && <p className="px-6 pb-4 text-sm text-red-600">{deleteAccountMutation.error.message}</p>}
+              {reconciling && (
+                <div className="px-6 pb-6">
+                  <ReconcilePanel
+                    account={selected}
+                    ledger={history}
+                    reconciliations={reconciliations.filter(r => r.account_id === selected.id)}
+                    onDone={() => setReconciling(false)}
+                  />
+                </div>
+              )}
+              {deleteTransferMutation.error && <p className="px-6 pb-4 text-sm text-red-600">{deleteTransferMutation.error.message}</p>}
+              {ledger.length === 0 ? (
+                <div className="p-8 pt-0 text-center text-gray-500">No transactions in this account yet.</div>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                        <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Description</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
+                        <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance</th>
+                        <th className="px-6 py-3"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                      {ledger.map(entry => (
+                        <tr key={entry.key}>
+                          <td className="px-6 py-3 whitespace-nowrap text-gray-500">{format(toDate(entry.date), 'MMM d, yyyy')}</td>
+                          <td className="px-6 py-3 text-gray-900">
+                            {entry.title}
+                            {entry.reconciliation_id && (
+                              <span className="inline-block ml-2 text-gray-400" title="Reconciled">
+                                <Lock size={12} />
+                              </span>
+                            )}
+                            {isTransferEntry(entry) && (
+                              <span className="ml-2 text-xs bg-gray-100 text-gray-600 px-2 py-0.5 rounded-full">Transfer</span>
+                            )}
+                          </td>
+                          <td className={`px-6 py-3 text-right font-medium ${entry.amount >= 0 ? 'text-green-600' : 'text-red-500'}`}>
+                            {entry.amount >= 0 ? '+' : '-'}${Math.abs(entry.amount).toFixed(2)}
+                          </td>
+                          <td className="px-6 py-3 text-right text-gray-900">${entry.balance.toFixed(2)}</td>
+                          <td className="px-6 py-3 text-right">
+                            {isTransferEntry(entry) && (lockedTransferIds.has(entry.source_id) ? (
+                              <span className="inline-block text-gray-300" title="Reconciled transfers are locked">
+                                <Lock size={16} />
+                              </span>
+                            ) : (
+                              <button
+                                onClick={() => { if (confirm('Delete this transfer?')) deleteTransferMutation.mutate(entry.source_id) }}
+                                className="text-red-600 hover:text-red-900"
+                                title="Delete transfer"
+                              >
+                                <Trash2 size={16} />
+                              </button>
+                            ))}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Accounts;
\ No newline at end of file
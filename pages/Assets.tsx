@@ -1,21 +1,27 @@
 import React, { useState, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { supabase } from '../lib/supabase';
-import { fetchAssets, deleteAsset } from '../services/data';
+import { fetchAssets, deleteAsset, updateAsset, fetchCategories, fetchAccounts } from '../services/data';
 import { Button, Input, Select, Card } from '../components/UI';
-import { ASSET_TYPES } from '../types';
+import { CategoryBadge } from '../components/CategoryBadge';
+import { getCategoryOptions, rollUpByParent } from '../lib/categories';
 import { useAuth } from '../context/AuthContext';
-import { Plus, Trash2, X, Building2, TrendingUp } from 'lucide-react';
+import { Plus, Trash2, X, Building2, TrendingUp, Pencil } from 'lucide-react';
+import { Asset } from '../types';
 import { Cell, Pie, PieChart, ResponsiveContainer, Tooltip } from 'recharts';
 
 const schema = z.object({
   name: z.string().min(2, 'Name is required'),
-  value: z.coerce.number().positive('Value must be positive'),
+  value: z.coerce.number().min(0, 'Value must be positive'),
   type: z.string().min(1, 'Type is required'),
   notes: z.string().optional(),
+  account_id: z.string().optional(),
+}).refine(data => (data.account_id && data.account_id !== 'NONE') || data.value > 0, {
+  message: 'Value must be positive',
+  path: ['value'],
 });
 
 type FormData = z.infer<typeof schema>;
@@ -24,28 +30,35 @@ const Assets: React.FC = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [isAdding, setIsAdding] = useState(false);
+  const [editing, setEditing] = useState<Asset | null>(null);
   
   const { data: assets = [], isLoading } = useQuery({ 
     queryKey: ['assetflow_assets'], 
     queryFn: fetchAssets 
   });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+  const { data: accounts = [] } = useQuery({ queryKey: ['assetflow_accounts'], queryFn: fetchAccounts });
 
-  const { register, handleSubmit, reset, formState: { errors } } = useForm({
+  const { register, handleSubmit, reset, control, formState: { errors } } = useForm({
     resolver: zodResolver(schema),
   });
+  const linkedAccount = useWatch({ control, name: 'account_id' });
+  const isLinked = !!linkedAccount && linkedAccount !== 'NONE';
 
   const mutation = useMutation({
-    mutationFn: async (data: FormData) => {
-      const { error } = await supabase.from('assetflow_assets').insert([{
-        user_id: user?.id,
-        ...data
-      }]);
+    mutationFn: async ({ account_id, ...data }: FormData) => {
+      const linked = account_id && account_id !== 'NONE' ? account_id : null;
+      const fields = { ...data, value: linked ? 0 : data.value, account_id: linked };
+      if (editing) {
+        await updateAsset(editing.id, fields);
+        return;
+      }
+      const { error } = await supabase.from('assetflow_assets').insert([{ user_id: user?.id, ...fields }]);
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['assetflow_assets'] });
-      setIsAdding(false);
-      reset();
+      closeForm();
     }
   });
 
@@ -54,18 +67,32 @@ const Assets: React.FC = () => {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_assets'] })
   });
 
-  const totalValue = useMemo(() => assets.reduce((sum, item) => sum + item.value, 0), [assets]);
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditing(null);
+    reset({});
+  };
 
-  const chartData = useMemo(() => {
-    const map = new Map();
-    assets.forEach(a => {
-      const existing = map.get(a.type) || 0;
-      map.set(a.type, existing + a.value);
+  // fetchAssets fills in a linked asset's value from its account, so start that field from 0 as stored
+  const startEdit = (asset: Asset) => {
+    setIsAdding(true);
+    setEditing(asset);
+    reset({
+      name: asset.name,
+      value: asset.account_id ? 0 : asset.value,
+      type: asset.type,
+      notes: asset.notes || '',
+      account_id: asset.account_id || 'NONE',
     });
-    return Array.from(map.entries()).map(([name, value]) => ({ name, value }));
-  }, [assets]);
+  };
+
+  const totalValue = useMemo(() => assets.reduce((sum, item) => sum + item.value, 0), [assets]);
 
-  const COLORS = ['#0ea5e9', '#22c55e', '#eab308', '#f97316', '#8b5cf6', '#ec4899', '#64748b'];
+  const chartData = useMemo(
+    () => rollUpByParent(assets.map(a => ({ category: a.type, amount: a.value })), categories, 'ASSET')
+      .map(t => ({ name: t.name, value: t.amount, color: t.color })),
+    [assets, categories]
+  );
 
   return (
     <div className="space-y-6">
@@ -74,7 +101,7 @@ const Assets: React.FC = () => {
            <h1 className="text-2xl font-bold text-gray-900">Asset Portfolio</h1>
            <p className="text-gray-500">Track high-value items to build Net Worth.</p>
         </div>
-        <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'secondary' : 'primary'}>
+        <Button onClick={() => isAdding ? closeForm() : setIsAdding(true)} variant={isAdding ? 'secondary' : 'primary'}>
           {isAdding ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> Add Asset</>}
         </Button>
       </div>
@@ -109,7 +136,7 @@ const Assets: React.FC = () => {
                     paddingAngle={5}
                   >
                     {chartData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                      <Cell key={`cell-${index}`} fill={entry.color} />
                     ))}
                   </Pie>
                   <Tooltip formatter={(value: number) => `$${value.toLocaleString()}`} />
@@ -124,24 +151,37 @@ const Assets: React.FC = () => {
 
       {isAdding && (
         <Card className="p-6 animate-in slide-in-from-top-4 duration-200 border-l-4 border-primary-500">
-          <h2 className="text-lg font-semibold mb-4">Add New Asset</h2>
+          <h2 className="text-lg font-semibold mb-4">{editing ? `Edit ${editing.name}` : 'Add New Asset'}</h2>
           <form onSubmit={handleSubmit((d) => mutation.mutate(d as FormData))} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Input label="Asset Name" {...register('name')} error={errors.name?.message} placeholder="e.g. Main Residence, Tesla" />
-              <Input label="Estimated Value" type="number" step="0.01" {...register('value')} error={errors.value?.message} />
+              {isLinked ? (
+                <div className="text-sm text-gray-500 self-end pb-2">Value follows the linked account's balance.</div>
+              ) : (
+                <Input label="Estimated Value" type="number" step="0.01" {...register('value')} error={errors.value?.message} />
+              )}
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                <Select 
                 label="Asset Type" 
-                options={ASSET_TYPES.map(c => ({ label: c, value: c }))} 
+                options={getCategoryOptions(categories, 'ASSET')} 
                 {...register('type')} 
                 error={errors.type?.message} 
               />
               <Input label="Notes (Optional)" {...register('notes')} />
             </div>
+            {accounts.length > 0 && (
+              <Select
+                label="Linked Account (Optional)"
+                options={[{ label: 'Not linked, enter value by hand', value: 'NONE' }, ...accounts.map(a => ({ label: a.name, value: a.id }))]}
+                defaultValue="NONE"
+                {...register('account_id')}
+              />
+            )}
             <div className="flex justify-end pt-2">
-              <Button type="submit" isLoading={mutation.isPending}>Save Asset</Button>
+              <Button type="submit" isLoading={mutation.isPending}>{editing ? 'Save Changes' : 'Save Asset'}</Button>
             </div>
+            {mutation.error && <p className="text-sm text-red-600">{mutation.error.message}</p>}
           </form>
         </Card>
       )}
@@ -168,16 +208,20 @@ const Assets: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                       {item.name}
                       {item.notes && <p className="text-xs text-gray-400 font-normal">{item.notes}</p>}
+                      {item.account_id && (
+                        <p className="text-xs text-primary-600 font-normal">Linked to {accounts.find(a => a.id === item.account_id)?.name || 'account'}</p>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-blue-100 text-blue-800">
-                        {item.type}
-                      </span>
+                      <CategoryBadge name={item.type} kind="ASSET" categories={categories} />
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-bold">
                       ${item.value.toLocaleString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button onClick={() => startEdit(item)} className="text-gray-400 hover:text-gray-900 mr-4" title="Edit">
+                        <Pencil size={18} />
+                      </button>
                       <button 
                         onClick={() => {
                           if(confirm('Delete this asset?')) deleteMutation.mutate(item.id);
@@ -4,31 +4,30 @@ import { useForm, useWatch } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { supabase } from '../lib/supabase';
-import { fetchBenefits, deleteBenefit } from '../services/data';
+import { fetchBenefits, deleteBenefit, updateBenefit, fetchPriceChanges, recordPriceChange } from '../services/data';
 import { Button, Input, Select, Card } from '../components/UI';
+import { PriceHistoryNote } from '../components/PriceHistoryNote';
 import { useAuth } from '../context/AuthContext';
-import { format, addWeeks, addMonths, addYears, addDays } from 'date-fns';
-import { Plus, Trash2, X, RefreshCw } from 'lucide-react';
-import { Frequency } from '../types';
+import { format } from 'date-fns';
+import { Plus, Trash2, X, RefreshCw, Pencil } from 'lucide-react';
+import { Benefit } from '../types';
+import { BUSINESS_DAY_RULE_OPTIONS, HOLIDAY_CALENDAR_OPTIONS } from '../lib/holidays';
+import { FREQUENCY_OPTIONS, describeSchedule, getNextDates, isValidSchedule, normalizeRRule } from '../lib/recurrence';
 
 const schema = z.object({
   benefit_name: z.string().min(2, 'Name is required'),
   amount: z.coerce.number().positive('Amount must be positive'),
-  frequency: z.enum(['WEEKLY', 'FORTNIGHTLY', 'MONTHLY', 'YEARLY', 'EVERY_X_DAYS', 'SPECIFIC_DAY']),
+  frequency: z.enum(['WEEKLY', 'FORTNIGHTLY', 'MONTHLY', 'YEARLY', 'EVERY_X_DAYS', 'SPECIFIC_DAY', 'RRULE']),
   custom_value: z.coerce.number().optional(),
+  rrule: z.string().optional(),
   next_payment_date: z.string().min(1, 'Date is required'),
-}).refine(data => {
-  if (data.frequency === 'EVERY_X_DAYS' && (!data.custom_value || data.custom_value < 1)) {
-    return false;
-  }
-  if (data.frequency === 'SPECIFIC_DAY' && (!data.custom_value || data.custom_value < 1 || data.custom_value > 31)) {
-    return false;
-  }
-  return true;
-}, {
-  message: "Invalid custom value for selected frequency",
-  path: ["custom_value"],
-});
+  price_effective_date: z.string().optional(), // when an edit changes the amount
+  business_day_rule: z.enum(['NONE', 'PREVIOUS', 'NEXT']),
+  holiday_calendar: z.enum(['NONE', 'ENGLAND_WALES', 'SCOTLAND', 'US_FEDERAL']),
+}).refine(isValidSchedule, data => ({
+  message: data.frequency === 'RRULE' ? 'Invalid recurrence rule' : 'Invalid custom value for selected frequency',
+  path: [data.frequency === 'RRULE' ? 'rrule' : 'custom_value'],
+}));
 
 type FormData = z.infer<typeof schema>;
 
@@ -36,33 +35,49 @@ const Benefits: React.FC = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [isAdding, setIsAdding] = useState(false);
+  const [editing, setEditing] = useState<Benefit | null>(null);
   
   const { data: benefits = [], isLoading } = useQuery({ 
     queryKey: ['assetflow_benefits'], 
     queryFn: fetchBenefits 
   });
+  const { data: priceChanges = [] } = useQuery({ queryKey: ['assetflow_price_changes'], queryFn: fetchPriceChanges });
 
-  const { register, handleSubmit, reset, control, formState: { errors } } = useForm({
+  const { register, handleSubmit, reset, control, formState: { errors } } = useForm<FormData>({
     resolver: zodResolver(schema),
     defaultValues: {
-      frequency: 'MONTHLY'
+      frequency: 'MONTHLY',
+      business_day_rule: 'PREVIOUS',
+      holiday_calendar: 'NONE'
     }
   });
 
   const selectedFrequency = useWatch({ control, name: 'frequency' });
+  const watchedAmount = useWatch({ control, name: 'amount' });
+  const priceChanged = !!editing && Number(watchedAmount) !== editing.amount;
 
   const mutation = useMutation({
-    mutationFn: async (data: FormData) => {
+    mutationFn: async ({ price_effective_date, ...data }: FormData) => {
+      // A new amount goes into the price history rather than overwriting the old one
+      if (editing) {
+        const { amount, ...rest } = data;
+        await updateBenefit(editing.id, { ...rest, rrule: normalizeRRule(data) });
+        if (amount !== editing.amount) {
+          await recordPriceChange('BENEFIT', editing, amount, price_effective_date || format(new Date(), 'yyyy-MM-dd'), priceChanges);
+        }
+        return;
+      }
       const { error } = await supabase.from('assetflow_benefits').insert([{
         user_id: user?.id,
-        ...data
+        ...data,
+        rrule: normalizeRRule(data)
       }]);
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['assetflow_benefits'] });
-      setIsAdding(false);
-      reset();
+      queryClient.invalidateQueries({ queryKey: ['assetflow_price_changes'] });
+      closeForm();
     }
   });
 
@@ -71,71 +86,59 @@ const Benefits: React.FC = () => {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_benefits'] })
   });
 
-  const getNextDates = (dateStr: string, freq: Frequency, customVal?: number, count: number = 3) => {
-    let date = new Date(dateStr);
-    const dates = [];
-    for (let i = 0; i < count; i++) {
-      dates.push(date);
-      if (freq === 'WEEKLY') date = addWeeks(date, 1);
-      else if (freq === 'FORTNIGHTLY') date = addWeeks(date, 2);
-      else if (freq === 'MONTHLY') date = addMonths(date, 1);
-      else if (freq === 'YEARLY') date = addYears(date, 1);
-      else if (freq === 'EVERY_X_DAYS' && customVal) date = addDays(date, customVal);
-      else if (freq === 'SPECIFIC_DAY' && customVal) {
-        date = addMonths(date, 1);
-        // Attempt to set to the specific day. 
-        // Note: Logic handles month overflow naturally (e.g. Feb 30 -> Mar 2) if using simple setDate,
-        // but typically specific day implies "Pay me on the 19th". 
-        // If next month doesn't have 31 days, addMonths usually handles clipping.
-        // We will strictly enforce the day if it exists in the target month.
-        const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
-        date.setDate(Math.min(customVal, daysInMonth));
-      }
-    }
-    return dates;
-  };
-
-  const formatFrequency = (b: any) => {
-    if (b.frequency === 'EVERY_X_DAYS') return `Every ${b.custom_value} Days`;
-    if (b.frequency === 'SPECIFIC_DAY') return `${b.custom_value}${getOrdinal(b.custom_value)} of Month`;
-    return b.frequency;
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditing(null);
+    reset();
   };
 
-  const getOrdinal = (n: number) => {
-    const s = ["th", "st", "nd", "rd"];
-    const v = n % 100;
-    return s[(v - 20) % 10] || s[v] || s[0];
+  const startEdit = (benefit: Benefit) => {
+    setIsAdding(true);
+    setEditing(benefit);
+    reset({
+      benefit_name: benefit.benefit_name,
+      amount: benefit.amount,
+      frequency: benefit.frequency,
+      custom_value: benefit.custom_value,
+      rrule: benefit.rrule || '',
+      next_payment_date: benefit.next_payment_date,
+      price_effective_date: format(new Date(), 'yyyy-MM-dd'),
+      business_day_rule: benefit.business_day_rule || 'NONE',
+      holiday_calendar: benefit.holiday_calendar || 'NONE',
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold text-gray-900">Benefit Tracking</h1>
-        <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'secondary' : 'primary'}>
+        <Button onClick={() => isAdding ? closeForm() : setIsAdding(true)} variant={isAdding ? 'secondary' : 'primary'}>
           {isAdding ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> Add Benefit</>}
         </Button>
       </div>
 
       {isAdding && (
         <Card className="p-6 animate-in slide-in-from-top-4 duration-200">
-          <h2 className="text-lg font-semibold mb-4">Add Recurring Benefit</h2>
-          <form onSubmit={handleSubmit((d) => mutation.mutate(d as FormData))} className="space-y-4">
+          <h2 className="text-lg font-semibold mb-4">{editing ? `Edit ${editing.benefit_name}` : 'Add Recurring Benefit'}</h2>
+          <form onSubmit={handleSubmit((d) => mutation.mutate(d))} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Input label="Benefit Name" {...register('benefit_name')} error={errors.benefit_name?.message} />
               <Input label="Amount" type="number" step="0.01" {...register('amount')} error={errors.amount?.message} />
             </div>
+            {priceChanged && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                <Input label="New Amount Applies From" type="date" {...register('price_effective_date')} />
+                <p className="text-xs text-gray-500 pb-2">
+                  ${editing!.amount.toFixed(2)} is kept in the benefit's payment history. Pick a future date to schedule the change.
+                </p>
+              </div>
+            )}
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Select 
                 label="Frequency" 
-                options={[
-                  { label: 'Weekly', value: 'WEEKLY' },
-                  { label: 'Fortnightly', value: 'FORTNIGHTLY' },
-                  { label: 'Monthly', value: 'MONTHLY' },
-                  { label: 'Yearly', value: 'YEARLY' },
-                  { label: 'Every X Days', value: 'EVERY_X_DAYS' },
-                  { label: 'Specific Day of Month', value: 'SPECIFIC_DAY' },
-                ]} 
+                options={FREQUENCY_OPTIONS} 
                 {...register('frequency')} 
                 error={errors.frequency?.message} 
               />
@@ -161,9 +164,33 @@ const Benefits: React.FC = () => {
                />
             )}
 
+            {selectedFrequency === 'RRULE' && (
+               <Input 
+                 label="Recurrence Rule (e.g. FREQ=MONTHLY;BYDAY=2TU)" 
+                 {...register('rrule')} 
+                 error={errors.rrule?.message} 
+               />
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select 
+                label="If it falls on a weekend or holiday" 
+                options={BUSINESS_DAY_RULE_OPTIONS} 
+                {...register('business_day_rule')} 
+                error={errors.business_day_rule?.message} 
+              />
+              <Select 
+                label="Holiday Calendar" 
+                options={HOLIDAY_CALENDAR_OPTIONS} 
+                {...register('holiday_calendar')} 
+                error={errors.holiday_calendar?.message} 
+              />
+            </div>
+
             <div className="flex justify-end">
-              <Button type="submit" isLoading={mutation.isPending}>Save Schedule</Button>
+              <Button type="submit" isLoading={mutation.isPending}>{editing ? 'Save Changes' : 'Save Schedule'}</Button>
             </div>
+            {mutation.error && <p className="text-sm text-red-600">{mutation.error.message}</p>}
           </form>
         </Card>
       )}
@@ -175,18 +202,19 @@ const Benefits: React.FC = () => {
               <div>
                 <h3 className="text-xl font-bold text-gray-900">{benefit.benefit_name}</h3>
                 <span className="inline-flex items-center mt-1 px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800 uppercase">
-                  <RefreshCw size={10} className="mr-1"/> {formatFrequency(benefit)}
+                  <RefreshCw size={10} className="mr-1"/> {describeSchedule(benefit)}
                 </span>
               </div>
               <div className="text-right">
                 <span className="text-2xl font-bold text-green-600">${benefit.amount}</span>
+                <PriceHistoryNote itemId={benefit.id} priceChanges={priceChanges} />
               </div>
             </div>
             
             <div className="mt-4 border-t pt-4">
               <p className="text-sm font-medium text-gray-500 mb-2">Upcoming Payments</p>
               <div className="flex gap-2 flex-wrap">
-                {getNextDates(benefit.next_payment_date, benefit.frequency, benefit.custom_value).map((d, i) => (
+                {getNextDates(benefit.next_payment_date, benefit, 3).map((d, i) => (
                   <span key={i} className="px-2 py-1 bg-gray-100 text-gray-700 text-xs rounded-md border border-gray-200">
                     {format(d, 'MMM d')}
                   </span>
@@ -194,7 +222,10 @@ const Benefits: React.FC = () => {
               </div>
             </div>
 
-            <div className="mt-6 flex justify-end">
+            <div className="mt-6 flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => startEdit(benefit)}>
+                <Pencil size={16} className="mr-1" /> Edit
+              </Button>
               <Button 
                 variant="ghost" 
                 className="text-red-600 hover:text-red-700 hover:bg-red-50"
@@ -0,0 +1,254 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { supabase } from '../lib/supabase';
+import { fetchBudgets, updateBudget, deleteBudget, fetchTransactions, fetchRecurringExpenses, fetchCategories, fetchPriceChanges } from '../services/data';
+import { Button, Input, Select, Card } from '../components/UI';
+import { BudgetProgress } from '../components/BudgetProgress';
+import { PayPeriodView } from '../components/PayPeriodView';
+import { EnvelopeBudget } from '../components/EnvelopeBudget';
+import { useAuth } from '../context/AuthContext';
+import { Budget } from '../types';
+import { getBudgetStatuses, getUnbudgetedSpend, withNewLimit } from '../lib/budgets';
+import { getCategoryOptions } from '../lib/categories';
+import { addMonths, format, isSameMonth, startOfMonth } from 'date-fns';
+import { Plus, X, Pencil, Trash2, ChevronLeft, ChevronRight, PiggyBank, CalendarDays, CalendarClock, Mail } from 'lucide-react';
+
+const schema = z.object({
+  category: z.string().min(1, 'Category is required'),
+  amount: z.coerce.number().positive('Limit must be positive'),
+  rollover: z.boolean(),
+});
+
+type FormData = z.infer<typeof schema>;
+
+const EMPTY_FORM = { category: '', rollover: false };
+
+const Budgets: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isAdding, setIsAdding] = useState(false);
+  const [editing, setEditing] = useState<Budget | null>(null);
+  const [month, setMonth] = useState(() => startOfMonth(new Date()));
+  const [activeTab, setActiveTab] = useState<'monthly' | 'payPeriod' | 'envelopes'>('monthly');
+
+  const { data: budgets = [], isLoading } = useQuery({ queryKey: ['assetflow_budgets'], queryFn: fetchBudgets });
+  const { data: expenses = [] } = useQuery({ queryKey: ['assetflow_expenses'], queryFn: () => fetchTransactions('EXPENSE') });
+  const { data: bills = [] } = useQuery({ queryKey: ['assetflow_recurring_expenses'], queryFn: fetchRecurringExpenses });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+  const { data: priceChanges = [] } = useQuery({ queryKey: ['assetflow_price_changes'], queryFn: fetchPriceChanges });
+
+  const { register, handleSubmit, reset, formState: { errors } } = useForm<FormData>({
+    resolver: zodResolver(schema),
+    defaultValues: EMPTY_FORM
+  });
+
+  const statuses = useMemo(
+    () => getBudgetStatuses(budgets, expenses, bills, priceChanges, categories, month),
+    [budgets, expenses, bills, priceChanges, categories, month]
+  );
+  const unbudgeted = useMemo(() => getUnbudgetedSpend(budgets, expenses, categories, month), [budgets, expenses, categories, month]);
+
+  const totals = statuses.reduce(
+    (sum, s) => ({
+      available: sum.available + s.available,
+      spent: sum.spent + s.spent,
+      committed: sum.committed + s.committed,
+      remaining: sum.remaining + s.remaining,
+    }),
+    { available: 0, spent: 0, committed: 0, remaining: 0 }
+  );
+
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditing(null);
+    reset(EMPTY_FORM);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: FormData) => {
+      if (budgets.some(b => b.category === data.category && b.id !== editing?.id)) {
+        throw new Error(`${data.category} already has a budget.`);
+      }
+      if (editing) {
+        await updateBudget(editing.id, data.amount === editing.amount ? data : { ...data, limits: withNewLimit(editing, data.amount) });
+        return;
+      }
+      const { error } = await supabase.from('assetflow_budgets').insert([{ user_id: user?.id, ...data }]);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_budgets'] });
+      closeForm();
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteBudget,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_budgets'] })
+  });
+
+  const startEdit = (budget: Budget) => {
+    setIsAdding(true);
+    setEditing(budget);
+    reset({ category: budget.category, amount: budget.amount, rollover: budget.rollover });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Budgets</h1>
+          <p className="text-gray-500">
+            {activeTab === 'monthly'
+              ? 'Monthly limits per spending category, with bills still due counted as committed.'
+              : activeTab === 'payPeriod'
+                ? 'What you can still spend between one payday and the next.'
+                : 'Give every dollar of income a job, then spend from the envelopes.'}
+          </p>
+        </div>
+
+        <div className="flex bg-gray-100 p-1 rounded-lg">
+          <button
+            onClick={() => setActiveTab('monthly')}
+            className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-all ${
+              activeTab === 'monthly' ? 'bg-white text-primary-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'
+            }`}
+          >
+            <CalendarDays size={16} /> Monthly
+          </button>
+          <button
+            onClick={() => { setActiveTab('payPeriod'); closeForm(); }}
+            className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-all ${
+              activeTab === 'payPeriod' ? 'bg-white text-primary-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'
+            }`}
+          >
+            <CalendarClock size={16} /> Pay Period
+          </button>
+          <button
+            onClick={() => { setActiveTab('envelopes'); closeForm(); }}
+            className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-all ${
+              activeTab === 'envelopes' ? 'bg-white text-primary-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'
+            }`}
+          >
+            <Mail size={16} /> Envelopes
+          </button>
+        </div>
+
+        {activeTab === 'monthly' && (
+          <Button onClick={() => (isAdding ? closeForm() : setIsAdding(true))} variant={isAdding ? 'secondary' : 'primary'}>
+            {isAdding ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> Add Budget</>}
+          </Button>
+        )}
+      </div>
+
+      {activeTab === 'payPeriod' && <PayPeriodView />}
+      {activeTab === 'envelopes' && <EnvelopeBudget />}
+
+      {activeTab === 'monthly' && isAdding && (
+        <Card className="p-6 animate-in slide-in-from-top-4 duration-200">
+          <h2 className="text-lg font-semibold mb-4">{editing ? `Edit ${editing.category} Budget` : 'New Budget'}</h2>
+          <form onSubmit={handleSubmit((d) => saveMutation.mutate(d))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select
+                label="Category"
+                options={getCategoryOptions(categories, 'EXPENSE')}
+                {...register('category')}
+                error={errors.category?.message}
+              />
+              <Input label="Monthly Limit" type="number" step="0.01" {...register('amount')} error={errors.amount?.message} />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" {...register('rollover')} />
+              Roll what's left over (or overspent) into next month
+            </label>
+            <p className="text-xs text-gray-500">A budget on a top-level category also covers its subcategories.</p>
+            {saveMutation.error && <p className="text-sm text-red-600">{saveMutation.error.message}</p>}
+            <div className="flex justify-end pt-2">
+              <Button type="submit" isLoading={saveMutation.isPending}>{editing ? 'Save Changes' : 'Save Budget'}</Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      {activeTab === 'monthly' && (
+        <>
+        <div className="flex items-center justify-between">
+          <button onClick={() => setMonth(addMonths(month, -1))} className="p-2 text-gray-500 hover:text-gray-900" title="Previous month">
+            <ChevronLeft size={20} />
+          </button>
+          <div className="text-center">
+            <p className="font-semibold text-gray-900">{format(month, 'MMMM yyyy')}</p>
+            {!isSameMonth(month, new Date()) && (
+              <button onClick={() => setMonth(startOfMonth(new Date()))} className="text-xs text-primary-600 hover:text-primary-800">Back to this month</button>
+            )}
+          </div>
+          <button onClick={() => setMonth(addMonths(month, 1))} className="p-2 text-gray-500 hover:text-gray-900" title="Next month">
+            <ChevronRight size={20} />
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading budgets...</div>
+        ) : budgets.length === 0 ? (
+          <div className="p-12 text-center text-gray-500 border-2 border-dashed rounded-xl bg-gray-50">
+            <PiggyBank size={48} className="mx-auto text-gray-300 mb-4" />
+            <p className="text-lg font-medium text-gray-900">No budgets yet</p>
+            <p>Set a monthly limit for groceries, eating out or anything else you want to keep an eye on.</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <Card className="p-4">
+                <p className="text-sm text-gray-500">Budgeted</p>
+                <p className="text-xl font-bold text-gray-900">${totals.available.toFixed(2)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-sm text-gray-500">Spent</p>
+                <p className="text-xl font-bold text-gray-900">${totals.spent.toFixed(2)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-sm text-gray-500">Bills Still Due</p>
+                <p className="text-xl font-bold text-orange-600">${totals.committed.toFixed(2)}</p>
+              </Card>
+              <Card className="p-4">
+                <p className="text-sm text-gray-500">Left to Spend</p>
+                <p className={`text-xl font-bold ${totals.remaining < 0 ? 'text-red-600' : 'text-green-600'}`}>${totals.remaining.toFixed(2)}</p>
+              </Card>
+            </div>
+
+            <Card className="p-6 space-y-5">
+              {statuses.map(status => (
+                <BudgetProgress
+                  key={status.budget.id}
+                  status={status}
+                  categories={categories}
+                  actions={
+                    <>
+                      <button onClick={() => startEdit(status.budget)} className="text-gray-400 hover:text-gray-900" title="Edit"><Pencil size={14} /></button>
+                      <button
+                        onClick={() => { if (confirm(`Delete the ${status.budget.category} budget?`)) deleteMutation.mutate(status.budget.id) }}
+                        className="text-red-600 hover:text-red-900"
+                        title="Delete"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </>
+                  }
+                />
+              ))}
+              {unbudgeted > 0 && (
+                <p className="text-sm text-gray-500 border-t pt-4">${unbudgeted.toFixed(2)} spent in categories without a budget.</p>
+              )}
+            </Card>
+          </>
+        )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Budgets;
\ No newline at end of file
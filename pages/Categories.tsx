@@ -0,0 +1,302 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, useWatch } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { supabase } from '../lib/supabase';
+import {
+  fetchCategories, fetchTransactions, fetchAssets, fetchRecurringExpenses,
+  renameCategory, mergeCategories, deleteCategory, seedDefaultCategories
+} from '../services/data';
+import { Button, Input, Select, Card } from '../components/UI';
+import { CATEGORY_ICONS, CategoryIcon } from '../components/CategoryBadge';
+import { useAuth } from '../context/AuthContext';
+import { Category, CategoryKind } from '../types';
+import { CATEGORY_COLORS, CATEGORY_KIND_OPTIONS, getCategories, getCategoryTree } from '../lib/categories';
+import { getCategoryLines } from '../lib/splits';
+import { Plus, X, Pencil, Trash2, GitMerge } from 'lucide-react';
+
+const schema = z.object({
+  name: z.string().trim().min(1, 'Name is required'),
+  parent_id: z.string(),
+  color: z.string().min(1),
+  icon: z.string().min(1),
+});
+
+type FormData = z.infer<typeof schema>;
+
+const EMPTY_FORM: FormData = { name: '', parent_id: 'NONE', color: CATEGORY_COLORS[0], icon: 'Tag' };
+
+const Categories: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [kind, setKind] = useState<CategoryKind>('EXPENSE');
+  const [isAdding, setIsAdding] = useState(false);
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [merging, setMerging] = useState<Category | null>(null);
+  const [mergeTarget, setMergeTarget] = useState('');
+
+  const { data: categories = [], isLoading } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+  const { data: income = [] } = useQuery({ queryKey: ['assetflow_income'], queryFn: () => fetchTransactions('INCOME') });
+  const { data: expenses = [] } = useQuery({ queryKey: ['assetflow_expenses'], queryFn: () => fetchTransactions('EXPENSE') });
+  const { data: recurring = [] } = useQuery({ queryKey: ['assetflow_recurring_expenses'], queryFn: fetchRecurringExpenses });
+  const { data: assets = [] } = useQuery({ queryKey: ['assetflow_assets'], queryFn: fetchAssets });
+
+  const { register, handleSubmit, reset, setValue, control, formState: { errors } } = useForm<FormData>({
+    resolver: zodResolver(schema),
+    defaultValues: EMPTY_FORM
+  });
+  const selectedColor = useWatch({ control, name: 'color' });
+  const selectedIcon = useWatch({ control, name: 'icon' });
+
+  const list = getCategories(categories, kind);
+  const tree = getCategoryTree(categories, kind);
+  const usingDefaults = !categories.some(c => c.kind === kind);
+
+  // How many transactions, bills or assets are filed under each name
+  const usage = useMemo(() => {
+    const names = kind === 'INCOME' ? getCategoryLines(income).map(i => i.category)
+      : kind === 'EXPENSE' ? [...getCategoryLines(expenses).map(e => e.category), ...recurring.map(r => r.category)]
+      : assets.map(a => a.type);
+    const counts = new Map<string, number>();
+    names.forEach(n => counts.set(n, (counts.get(n) || 0) + 1));
+    return counts;
+  }, [kind, income, expenses, recurring, assets]);
+
+  const invalidateAll = () => {
+    ['assetflow_categories', 'assetflow_income', 'assetflow_expenses', 'assetflow_recurring_expenses',
+      'assetflow_assets', 'assetflow_category_rules', 'assetflow_allocation_rules', 'assetflow_budgets', 'assetflow_envelopes']
+      .forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+  };
+
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditing(null);
+    reset(EMPTY_FORM);
+  };
+
+  const seedMutation = useMutation({
+    mutationFn: () => seedDefaultCategories(user!.id),
+    onSuccess: invalidateAll
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ name, parent_id, color, icon }: FormData) => {
+      if (list.some(c => c.name.toLowerCase() === name.toLowerCase() && c.id !== editing?.id)) {
+        throw new Error(`"${name}" already exists. Merge the categories instead.`);
+      }
+      const fields = { parent_id: parent_id === 'NONE' ? null : parent_id, color, icon };
+
+      if (editing) {
+        if (editing.name !== name) await renameCategory(editing, name);
+        const { error } = await supabase.from('assetflow_categories').update(fields).eq('id', editing.id);
+        if (error) throw error;
+        return;
+      }
+      const { error } = await supabase.from('assetflow_categories').insert([{
+        user_id: user?.id,
+        kind,
+        name,
+        ...fields,
+        position: list.length ? Math.max(...list.map(c => c.position)) + 1 : 0
+      }]);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidateAll();
+      closeForm();
+    }
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ([source, target]: [Category, Category]) => mergeCategories(source, target),
+    onSuccess: () => {
+      invalidateAll();
+      setMerging(null);
+      setMergeTarget('');
+    }
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteCategory,
+    onSuccess: invalidateAll
+  });
+
+  const startEdit = (category: Category) => {
+    setIsAdding(true);
+    setEditing(category);
+    reset({ name: category.name, parent_id: category.parent_id || 'NONE', color: category.color, icon: category.icon });
+  };
+
+  const hasChildren = (category: Category) => list.some(c => c.parent_id === category.id);
+  const parentOptions = [
+    { label: 'None (top level)', value: 'NONE' },
+    ...tree.filter(({ parent }) => parent.id !== editing?.id).map(({ parent }) => ({ label: parent.name, value: parent.id })),
+  ];
+
+  const renderRow = (category: Category, isChild: boolean) => {
+    const count = usage.get(category.name) || 0;
+    return (
+      <li key={category.id} className={`flex flex-col md:flex-row md:items-center justify-between gap-2 py-3 text-sm ${isChild ? 'pl-12 pr-6' : 'px-6'}`}>
+        <div className="flex items-center gap-3">
+          <span className="w-8 h-8 rounded-full flex items-center justify-center" style={{ backgroundColor: `${category.color}1a`, color: category.color }}>
+            <CategoryIcon icon={category.icon} size={16} />
+          </span>
+          <div>
+            <p className="font-medium text-gray-900">{category.name}</p>
+            <p className="text-xs text-gray-400">{count} item{count === 1 ? '' : 's'}</p>
+          </div>
+        </div>
+        {!usingDefaults && (
+          merging?.id === category.id ? (
+            <div className="flex items-center gap-2">
+              <select
+                className="rounded-md border-gray-300 text-sm px-2 py-1 border bg-white"
+                value={mergeTarget}
+                onChange={(e) => setMergeTarget(e.target.value)}
+              >
+                <option value="" disabled>Merge into...</option>
+                {list.filter(c => c.id !== category.id).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+              <Button
+                disabled={!mergeTarget}
+                isLoading={mergeMutation.isPending}
+                onClick={() => {
+                  const target = list.find(c => c.id === mergeTarget);
+                  if (target && confirm(`Move everything from "${category.name}" to "${target.name}" and delete "${category.name}"?`)) {
+                    mergeMutation.mutate([category, target]);
+                  }
+                }}
+              >
+                Merge
+              </Button>
+              <button onClick={() => setMerging(null)} className="text-gray-400 hover:text-gray-900"><X size={16} /></button>
+            </div>
+          ) : (
+            <div className="flex items-center gap-3">
+              <button onClick={() => startEdit(category)} className="text-gray-400 hover:text-gray-900" title="Edit"><Pencil size={16} /></button>
+              <button onClick={() => { setMerging(category); setMergeTarget(''); }} className="text-gray-400 hover:text-gray-900" title="Merge into another category"><GitMerge size={16} /></button>
+              <button
+                onClick={() => { if (confirm(`Delete "${category.name}"?`)) deleteMutation.mutate(category.id) }}
+                disabled={count > 0 || hasChildren(category)}
+                className="text-red-600 hover:text-red-900 disabled:opacity-30"
+                title={count > 0 || hasChildren(category) ? 'In use. Merge it into another category instead' : 'Delete'}
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          )
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Categories</h1>
+          <p className="text-gray-500">Organise income, spending and assets into categories and subcategories.</p>
+        </div>
+        {!usingDefaults && (
+          <Button onClick={() => (isAdding ? closeForm() : setIsAdding(true))} variant={isAdding ? 'secondary' : 'primary'}>
+            {isAdding ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> Add Category</>}
+          </Button>
+        )}
+      </div>
+
+      <div className="flex bg-gray-100 p-1 rounded-lg w-fit">
+        {CATEGORY_KIND_OPTIONS.map(option => (
+          <button
+            key={option.value}
+            onClick={() => { setKind(option.value); closeForm(); setMerging(null); }}
+            className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${kind === option.value ? 'bg-white text-primary-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'}`}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {usingDefaults && !isLoading && (
+        <Card className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-2 text-sm bg-gray-50">
+          <p className="text-gray-600">You're using the built-in categories. Make your own copy to rename, merge or add to them.</p>
+          <Button onClick={() => seedMutation.mutate()} isLoading={seedMutation.isPending}>Customise Categories</Button>
+        </Card>
+      )}
+
+      {isAdding && (
+        <Card className="p-6 animate-in slide-in-from-top-4 duration-200">
+          <h2 className="text-lg font-semibold mb-4">{editing ? `Edit ${editing.name}` : 'New Category'}</h2>
+          <form onSubmit={handleSubmit((d) => saveMutation.mutate(d))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input label="Name" {...register('name')} error={errors.name?.message} placeholder="e.g. Childcare, Groceries" />
+              <Select
+                label="Parent Category"
+                options={parentOptions}
+                disabled={!!editing && hasChildren(editing)}
+                {...register('parent_id')}
+              />
+            </div>
+            {editing && (
+              <p className="text-xs text-gray-500">Renaming also updates every transaction, bill and rule filed under "{editing.name}".</p>
+            )}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Colour</label>
+              <div className="flex gap-2">
+                {CATEGORY_COLORS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => setValue('color', color)}
+                    className={`w-7 h-7 rounded-full border-2 ${selectedColor === color ? 'border-gray-900' : 'border-transparent'}`}
+                    style={{ backgroundColor: color }}
+                    title={color}
+                  />
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Icon</label>
+              <div className="flex flex-wrap gap-2">
+                {Object.keys(CATEGORY_ICONS).map(icon => (
+                  <button
+                    key={icon}
+                    type="button"
+                    onClick={() => setValue('icon', icon)}
+                    className={`w-8 h-8 rounded-md flex items-center justify-center border ${selectedIcon === icon ? 'border-gray-900 bg-gray-100' : 'border-gray-200 text-gray-500'}`}
+                    style={selectedIcon === icon ? { color: selectedColor } : undefined}
+                    title={icon}
+                  >
+                    <CategoryIcon icon={icon} size={16} />
+                  </button>
+                ))}
+              </div>
+            </div>
+            {saveMutation.error && <p className="text-sm text-red-600">{saveMutation.error.message}</p>}
+            <div className="flex justify-end pt-2">
+              <Button type="submit" isLoading={saveMutation.isPending}>Save Category</Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      <Card className="overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading categories...</div>
+        ) : (
+          <ul className="divide-y">
+            {tree.map(({ parent, children }) => (
+              <React.Fragment key={parent.id}>
+                {renderRow(parent, false)}
+                {children.map(child => renderRow(child, true))}
+              </React.Fragment>
+            ))}
+          </ul>
+        )}
+        {mergeMutation.error && <p className="px-6 pb-4 text-sm text-red-600">{mergeMutation.error.message}</p>}
+      </Card>
+    </div>
+  );
+};
+
+export default Categories;
\ No newline at end of file
@@ -1,9 +1,19 @@
 import React, { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Card } from '../components/UI';
-import { fetchTransactions, fetchBenefits, fetchPaydays, fetchAssets, fetchDebts } from '../services/data';
+import { fetchTransactions, fetchBenefits, fetchPaydays, fetchAssets, fetchDebts, fetchRecurringExpenses, fetchSettings, fetchCategories, fetchBudgets, fetchPriceChanges } from '../services/data';
+import { BalanceAlertCard } from '../components/BalanceAlertCard';
+import { BudgetProgress } from '../components/BudgetProgress';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 import { format } from 'date-fns';
+import { describeSchedule, getNextOccurrence, getOccurrencesBetween } from '../lib/recurrence';
+import { getNetPay } from '../lib/pay';
+import { getCashOnHand, toCashFlowStreams } from '../lib/cashflow';
+import { getLowBalanceAlert } from '../lib/alerts';
+import { rollUpByParent } from '../lib/categories';
+import { getCategoryLines } from '../lib/splits';
+import { getBudgetStatuses } from '../lib/budgets';
+import { Link } from 'react-router-dom';
 import { ArrowUpCircle, ArrowDownCircle, Wallet, Calendar, Building2 } from 'lucide-react';
 
 const Dashboard: React.FC = () => {
@@ -16,6 +26,12 @@ const Dashboard: React.FC = () => {
   const { data: assets = [] } = useQuery({ queryKey: ['assetflow_assets'], queryFn: fetchAssets });
   const { data: debts = [] } = useQuery({ queryKey: ['assetflow_debts'], queryFn: fetchDebts });
 
+  const { data: recurringBills = [] } = useQuery({ queryKey: ['assetflow_recurring_expenses'], queryFn: fetchRecurringExpenses });
+  const { data: settings } = useQuery({ queryKey: ['assetflow_settings'], queryFn: fetchSettings });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+  const { data: budgets = [] } = useQuery({ queryKey: ['assetflow_budgets'], queryFn: fetchBudgets });
+  const { data: priceChanges = [] } = useQuery({ queryKey: ['assetflow_price_changes'], queryFn: fetchPriceChanges });
+
   const currentMonthStats = useMemo(() => {
     const now = new Date();
     const start = new Date(now.getFullYear(), now.getMonth(), 1);
@@ -49,15 +65,58 @@ const Dashboard: React.FC = () => {
   }, [assets, debts]);
 
   const nextBenefit = useMemo(() => {
-    if (!benefits.length) return null;
-    return benefits.sort((a, b) => new Date(a.next_payment_date).getTime() - new Date(b.next_payment_date).getTime())[0];
+    const upcoming = benefits
+      .map(b => ({ ...b, date: getNextOccurrence(b.next_payment_date, b) }))
+      .filter((b): b is typeof b & { date: Date } => !!b.date)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+    return upcoming[0] || null;
   }, [benefits]);
 
   const nextPayday = useMemo(() => {
-    if (!paydays.length) return null;
-    return paydays.sort((a, b) => new Date(a.next_payday_date).getTime() - new Date(b.next_payday_date).getTime())[0];
+    const upcoming = paydays
+      .map(p => ({ ...p, date: getNextOccurrence(p.next_payday_date, p) }))
+      .filter((p): p is typeof p & { date: Date } => !!p.date)
+      .sort((a, b) => a.date.getTime() - b.date.getTime());
+    return upcoming[0] || null;
+  }, [paydays]);
+
+  // Take-home pay still to come plus already due this month, across every pay stream
+  const expectedMonthlyPay = useMemo(() => {
+    const now = new Date();
+    const start = new Date(now.getFullYear(), now.getMonth(), 1);
+    const end = new Date(now.getFullYear(), now.getMonth() + 1, 0);
+    return paydays.reduce(
+      (sum, pd) => sum + getOccurrencesBetween(pd.next_payday_date, pd, start, end).length * getNetPay(pd),
+      0
+    );
   }, [paydays]);
 
+  const cashOnHand = useMemo(() => getCashOnHand(assets), [assets]);
+  const lowBalanceThreshold = settings?.low_balance_threshold ?? 0;
+
+  const lowBalanceAlert = useMemo(
+    () => getLowBalanceAlert(toCashFlowStreams(paydays, benefits, recurringBills, priceChanges, debts), cashOnHand, lowBalanceThreshold),
+    [paydays, benefits, recurringBills, priceChanges, debts, cashOnHand, lowBalanceThreshold]
+  );
+
+  // This month's spending per top-level category, counting each split line separately
+  const topCategories = useMemo(() => {
+    const now = new Date();
+    const thisMonth = expenses.filter(e => {
+      const d = new Date(e.date);
+      return d.getFullYear() === now.getFullYear() && d.getMonth() === now.getMonth();
+    });
+    return rollUpByParent(getCategoryLines(thisMonth), categories, 'EXPENSE').slice(0, 5);
+  }, [expenses, categories]);
+
+  // The budgets closest to running out, counting bills still due
+  const tightestBudgets = useMemo(
+    () => getBudgetStatuses(budgets, expenses, recurringBills, priceChanges, categories, new Date())
+      .sort((a, b) => a.remaining / (a.available || 1) - b.remaining / (b.available || 1))
+      .slice(0, 4),
+    [budgets, expenses, recurringBills, priceChanges, categories]
+  );
+
   const chartData = [
     { name: 'Income', amount: currentMonthStats.income },
     { name: 'Expenses', amount: currentMonthStats.expenses },
@@ -75,6 +134,13 @@ const Dashboard: React.FC = () => {
         </div>
       </div>
 
+      <BalanceAlertCard
+        alert={lowBalanceAlert}
+        threshold={lowBalanceThreshold}
+        startingBalance={cashOnHand}
+        nextPayday={nextPayday?.date || null}
+      />
+
       <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <Card className="p-6 md:col-span-1 bg-gradient-to-br from-gray-900 to-gray-800 text-white">
           <div className="flex items-center gap-4">
@@ -156,10 +222,19 @@ const Dashboard: React.FC = () => {
                    <p className="text-sm font-medium text-gray-500 mb-1">Next Payday</p>
                    {nextPayday ? (
                       <div>
-                        <h4 className="text-lg font-bold text-gray-900">{format(new Date(nextPayday.next_payday_date), 'EEEE, MMM do')}</h4>
+                        <h4 className="text-lg font-bold text-gray-900">{format(nextPayday.date, 'EEEE, MMM do')}</h4>
+                        {getNetPay(nextPayday) > 0 && (
+                          <p className="text-sm text-gray-500">
+                            <span className="font-semibold text-green-600">${getNetPay(nextPayday).toFixed(2)}</span>
+                            {nextPayday.name && <> from {nextPayday.name}</>}
+                          </p>
+                        )}
                         <span className="text-xs bg-primary-50 text-primary-700 px-2 py-1 rounded-full mt-2 inline-block">
-                          {nextPayday.frequency}
+                          {describeSchedule(nextPayday)}
                         </span>
+                        {expectedMonthlyPay > 0 && (
+                          <p className="text-xs text-gray-400 mt-2">Expected pay this month: ${expectedMonthlyPay.toFixed(2)}</p>
+                        )}
                       </div>
                    ) : (
                      <p className="text-gray-400 italic">No payday scheduled</p>
@@ -178,7 +253,7 @@ const Dashboard: React.FC = () => {
                         <h4 className="text-lg font-bold text-gray-900">{nextBenefit.benefit_name}</h4>
                         <div className="flex items-center gap-2 mt-1">
                           <span className="text-lg font-semibold text-green-600">${nextBenefit.amount}</span>
-                          <span className="text-sm text-gray-400">on {format(new Date(nextBenefit.next_payment_date), 'MMM do')}</span>
+                          <span className="text-sm text-gray-400">on {format(nextBenefit.date, 'MMM do')}</span>
                         </div>
                       </div>
                    ) : (
@@ -190,6 +265,42 @@ const Dashboard: React.FC = () => {
            </Card>
         </div>
       </div>
+
+      {tightestBudgets.length > 0 && (
+        <Card className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="text-lg font-semibold text-gray-900">Budgets This Month</h3>
+            <Link to="/budgets" className="text-sm text-primary-600 hover:text-primary-800">All budgets</Link>
+          </div>
+          <div className="space-y-4">
+            {tightestBudgets.map(status => <BudgetProgress key={status.budget.id} status={status} categories={categories} />)}
+          </div>
+        </Card>
+      )}
+
+      <Card className="p-6">
+        <h3 className="text-lg font-semibold mb-4 text-gray-900">Top Spending This Month</h3>
+        {topCategories.length === 0 ? (
+          <p className="text-gray-400 italic">No expenses recorded this month</p>
+        ) : (
+          <ul className="space-y-3">
+            {topCategories.map(t => (
+              <li key={t.name}>
+                <div className="flex justify-between text-sm mb-1">
+                  <span className="font-medium text-gray-900">{t.name}</span>
+                  <span className="text-gray-600">${t.amount.toFixed(2)}</span>
+                </div>
+                <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full rounded-full"
+                    style={{ width: `${(t.amount / currentMonthStats.expenses) * 100}%`, backgroundColor: t.color }}
+                  />
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Card>
     </div>
   );
 };
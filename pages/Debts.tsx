@@ -4,10 +4,14 @@ import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { supabase } from '../lib/supabase';
-import { fetchDebts, deleteDebt } from '../services/data';
+import { fetchDebts, deleteDebt, editDebt, fetchDebtPayments } from '../services/data';
 import { Button, Input, Card } from '../components/UI';
 import { useAuth } from '../context/AuthContext';
-import { Plus, Trash2, X, CreditCard, AlertCircle } from 'lucide-react';
+import { DebtPlanner } from '../components/DebtPlanner';
+import { DebtLedger } from '../components/DebtLedger';
+import { format } from 'date-fns';
+import { Plus, Trash2, X, CreditCard, AlertCircle, Receipt, Pencil } from 'lucide-react';
+import { Debt } from '../types';
 
 const schema = z.object({
   name: z.string().min(2, 'Name is required'),
@@ -22,28 +26,38 @@ const Debts: React.FC = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [isAdding, setIsAdding] = useState(false);
+  const [editing, setEditing] = useState<Debt | null>(null);
+  const [ledgerDebtId, setLedgerDebtId] = useState<string | null>(null);
   
   const { data: debts = [], isLoading } = useQuery({ 
     queryKey: ['assetflow_debts'], 
     queryFn: fetchDebts 
   });
 
+  const { data: debtPayments = [] } = useQuery({ queryKey: ['assetflow_debt_payments'], queryFn: fetchDebtPayments });
+  const ledgerDebt = debts.find(d => d.id === ledgerDebtId) || null;
+
   const { register, handleSubmit, reset, formState: { errors } } = useForm({
     resolver: zodResolver(schema),
   });
 
   const mutation = useMutation({
     mutationFn: async (data: FormData) => {
+      if (editing) {
+        await editDebt(editing, data);
+        return;
+      }
       const { error } = await supabase.from('assetflow_debts').insert([{
         user_id: user?.id,
-        ...data
+        ...data,
+        interest_accrued_to: format(new Date(), 'yyyy-MM-dd')
       }]);
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['assetflow_debts'] });
-      setIsAdding(false);
-      reset();
+      queryClient.invalidateQueries({ queryKey: ['assetflow_debt_payments'] });
+      closeForm();
     }
   });
 
@@ -52,6 +66,23 @@ const Debts: React.FC = () => {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_debts'] })
   });
 
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditing(null);
+    reset({});
+  };
+
+  const startEdit = (debt: Debt) => {
+    setIsAdding(true);
+    setEditing(debt);
+    reset({
+      name: debt.name,
+      balance: debt.balance,
+      interest_rate: debt.interest_rate,
+      minimum_payment: debt.minimum_payment,
+    });
+  };
+
   const totalDebt = useMemo(() => debts.reduce((sum, item) => sum + item.balance, 0), [debts]);
   const monthlyObligation = useMemo(() => debts.reduce((sum, item) => sum + item.minimum_payment, 0), [debts]);
 
@@ -62,7 +93,7 @@ const Debts: React.FC = () => {
            <h1 className="text-2xl font-bold text-gray-900">Debt Crusher</h1>
            <p className="text-gray-500">Track liabilities and plan your freedom.</p>
         </div>
-        <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'secondary' : 'danger'}>
+        <Button onClick={() => isAdding ? closeForm() : setIsAdding(true)} variant={isAdding ? 'secondary' : 'danger'}>
           {isAdding ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> Add Debt</>}
         </Button>
       </div>
@@ -95,7 +126,7 @@ const Debts: React.FC = () => {
 
       {isAdding && (
         <Card className="p-6 animate-in slide-in-from-top-4 duration-200">
-          <h2 className="text-lg font-semibold mb-4">Add New Liability</h2>
+          <h2 className="text-lg font-semibold mb-4">{editing ? `Edit ${editing.name}` : 'Add New Liability'}</h2>
           <form onSubmit={handleSubmit((d) => mutation.mutate(d as FormData))} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Input label="Debt Name" {...register('name')} error={errors.name?.message} placeholder="e.g. Visa, Car Loan" />
@@ -106,8 +137,9 @@ const Debts: React.FC = () => {
               <Input label="Min. Monthly Payment" type="number" step="0.01" {...register('minimum_payment')} error={errors.minimum_payment?.message} />
             </div>
             <div className="flex justify-end pt-2">
-              <Button type="submit" variant="danger" isLoading={mutation.isPending}>Save Debt</Button>
+              <Button type="submit" variant="danger" isLoading={mutation.isPending}>{editing ? 'Save Changes' : 'Save Debt'}</Button>
             </div>
+            {mutation.error && <p className="text-sm text-red-600">{mutation.error.message}</p>}
           </form>
         </Card>
       )}
@@ -145,6 +177,16 @@ const Debts: React.FC = () => {
                       ${item.balance.toLocaleString()}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
+                      <button
+                        onClick={() => setLedgerDebtId(ledgerDebtId === item.id ? null : item.id)}
+                        className="text-primary-600 hover:text-primary-900 mr-4"
+                        title="Payments"
+                      >
+                        <Receipt size={18} />
+                      </button>
+                      <button onClick={() => startEdit(item)} className="text-gray-400 hover:text-gray-900 mr-4" title="Edit">
+                        <Pencil size={18} />
+                      </button>
                       <button 
                         onClick={() => {
                           if(confirm('Is this debt paid off?')) deleteMutation.mutate(item.id);
@@ -162,6 +204,12 @@ const Debts: React.FC = () => {
           </div>
         )}
       </Card>
+
+      {ledgerDebt && (
+        <DebtLedger key={ledgerDebt.id} debt={ledgerDebt} entries={debtPayments} onClose={() => setLedgerDebtId(null)} />
+      )}
+
+      <DebtPlanner debts={debts} />
     </div>
   );
 };
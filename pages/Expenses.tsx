@@ -1,23 +1,44 @@
-import React, { useState } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useForm, useWatch } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { supabase, uploadFile, getFileUrl } from '../lib/supabase';
-import { fetchTransactions, fetchRecurringExpenses, deleteTransaction, deleteRecurringExpense } from '../services/data';
+import { fetchTransactions, fetchRecurringExpenses, deleteTransaction, deleteRecurringExpense, settleRecurringExpense, updateTransaction, updateRecurringExpense, fetchCategoryRules, fetchCategories, fetchAccounts, fetchPriceChanges, recordPriceChange } from '../services/data';
 import { Button, Input, Select, Card } from '../components/UI';
-import { EXPENSE_CATEGORIES, Frequency } from '../types';
+import { CategoryBadge } from '../components/CategoryBadge';
+import { SplitEditor } from '../components/SplitEditor';
+import { SubscriptionFinder } from '../components/SubscriptionFinder';
+import { PriceRiseSummary } from '../components/PriceRiseSummary';
+import { PriceHistoryNote } from '../components/PriceHistoryNote';
 import { useAuth } from '../context/AuthContext';
-import { format, addWeeks, addMonths, addYears, addDays } from 'date-fns';
-import { Plus, Trash2, FileText, X, History, CalendarClock, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import { Plus, Trash2, FileText, X, History, CalendarClock, RefreshCw, BellRing, Wand2, Lock, Pencil } from 'lucide-react';
+import { BUSINESS_DAY_RULE_OPTIONS, HOLIDAY_CALENDAR_OPTIONS } from '../lib/holidays';
+import { FREQUENCY_OPTIONS, describeSchedule, getNextDates, isValidSchedule, normalizeRRule } from '../lib/recurrence';
+import { BillRollover, getBillRollover, isAskFirst } from '../lib/rollover';
+import { findMatchingRule } from '../lib/categoryRules';
+import { getCategoryOptions } from '../lib/categories';
+import { getPrimaryCategory, isSplit, splitLineSchema, splitsAddUp } from '../lib/splits';
+import { DetectedSubscription, detectSubscriptions } from '../lib/subscriptions';
+import { getPriceRises } from '../lib/priceHistory';
+import { RecurringExpense, Transaction } from '../types';
 
 // --- Schema for History (One-off) ---
 const historySchema = z.object({
   title: z.string().min(2, 'Title is required'),
   amount: z.coerce.number().positive('Amount must be positive'),
   date_paid: z.string().min(1, 'Date is required'),
-  category: z.string().min(1, 'Category is required'),
+  category: z.string(),
   notes: z.string().optional(),
+  splits: z.array(splitLineSchema).optional(),
+  account_id: z.string().optional(),
+}).refine(data => data.splits?.length || data.category, {
+  message: 'Category is required',
+  path: ['category'],
+}).refine(data => splitsAddUp(data.amount, data.splits), {
+  message: 'Split lines must add up to the amount',
+  path: ['splits'],
 });
 
 // --- Schema for Recurring (Bills) ---
@@ -25,17 +46,18 @@ const recurringSchema = z.object({
   title: z.string().min(2, 'Title is required'),
   amount: z.coerce.number().positive('Amount must be positive'),
   category: z.string().min(1, 'Category is required'),
-  frequency: z.enum(['WEEKLY', 'FORTNIGHTLY', 'MONTHLY', 'YEARLY', 'EVERY_X_DAYS', 'SPECIFIC_DAY']),
+  auto_post: z.boolean(),
+  frequency: z.enum(['WEEKLY', 'FORTNIGHTLY', 'MONTHLY', 'YEARLY', 'EVERY_X_DAYS', 'SPECIFIC_DAY', 'RRULE']),
   custom_value: z.coerce.number().optional(),
+  rrule: z.string().optional(),
   next_due_date: z.string().min(1, 'Start date is required'),
-}).refine(data => {
-  if (data.frequency === 'EVERY_X_DAYS' && (!data.custom_value || data.custom_value < 1)) return false;
-  if (data.frequency === 'SPECIFIC_DAY' && (!data.custom_value || data.custom_value < 1 || data.custom_value > 31)) return false;
-  return true;
-}, {
-  message: "Invalid custom value",
-  path: ["custom_value"],
-});
+  price_effective_date: z.string().optional(), // when an edit changes the amount
+  business_day_rule: z.enum(['NONE', 'PREVIOUS', 'NEXT']),
+  holiday_calendar: z.enum(['NONE', 'ENGLAND_WALES', 'SCOTLAND', 'US_FEDERAL']),
+}).refine(isValidSchedule, data => ({
+  message: data.frequency === 'RRULE' ? 'Invalid recurrence rule' : 'Invalid custom value',
+  path: [data.frequency === 'RRULE' ? 'rrule' : 'custom_value'],
+}));
 
 type HistoryFormData = z.infer<typeof historySchema>;
 type RecurringFormData = z.infer<typeof recurringSchema>;
@@ -47,6 +69,9 @@ const Expenses: React.FC = () => {
   const [isAdding, setIsAdding] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [editingExpense, setEditingExpense] = useState<Transaction | null>(null);
+  const [editingBill, setEditingBill] = useState<RecurringExpense | null>(null);
 
   // Queries
   const { data: expenseList = [], isLoading: historyLoading } = useQuery({ 
@@ -59,51 +84,108 @@ const Expenses: React.FC = () => {
     queryFn: fetchRecurringExpenses
   });
 
+  const { data: categoryRules = [] } = useQuery({ queryKey: ['assetflow_category_rules'], queryFn: fetchCategoryRules });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+  const { data: accounts = [] } = useQuery({ queryKey: ['assetflow_accounts'], queryFn: fetchAccounts });
+  const { data: priceChanges = [] } = useQuery({ queryKey: ['assetflow_price_changes'], queryFn: fetchPriceChanges });
+
   // Forms
   const historyForm = useForm({ resolver: zodResolver(historySchema) });
   
-  const recurringForm = useForm({ 
+  const recurringForm = useForm<RecurringFormData>({ 
     resolver: zodResolver(recurringSchema),
-    defaultValues: { frequency: 'MONTHLY' }
+    defaultValues: { frequency: 'MONTHLY', business_day_rule: 'NEXT', holiday_calendar: 'NONE', auto_post: true }
   });
 
   const selectedFrequency = useWatch({ control: recurringForm.control, name: 'frequency' });
+  const watchedBillAmount = useWatch({ control: recurringForm.control, name: 'amount' });
+  const billPriceChanged = !!editingBill && Number(watchedBillAmount) !== editingBill.amount;
+  const watchedTitle = useWatch({ control: historyForm.control, name: 'title' });
+  const watchedAmount = useWatch({ control: historyForm.control, name: 'amount' });
+
+  const matchedRule = useMemo(
+    () => findMatchingRule(categoryRules, { title: String(watchedTitle || ''), amount: Number(watchedAmount) || 0, type: 'EXPENSE' }),
+    [categoryRules, watchedTitle, watchedAmount]
+  );
+
+  // Fill the expense form from the first matching categorization rule (new expenses only)
+  useEffect(() => {
+    if (!matchedRule || editingExpense) return;
+    if (matchedRule.category) historyForm.setValue('category', matchedRule.category);
+    if (matchedRule.notes && !historyForm.getValues('notes')) historyForm.setValue('notes', matchedRule.notes);
+  }, [matchedRule, editingExpense, historyForm]);
 
   // Mutations
   const addHistoryMutation = useMutation({
-    mutationFn: async (data: HistoryFormData & { attachment_url?: string }) => {
+    mutationFn: async ({ splits, account_id, attachment_url, ...data }: HistoryFormData & { attachment_url?: string }) => {
+      const lines = splits?.length ? splits : null;
+      const fields = {
+        ...data,
+        account_id: account_id && account_id !== 'NONE' ? account_id : null,
+        category: lines ? getPrimaryCategory(lines) : data.category,
+        splits: lines,
+      };
+
+      // An edit keeps the existing receipt unless a new file was picked
+      if (editingExpense) {
+        await updateTransaction(editingExpense.id, 'EXPENSE', attachment_url ? { ...fields, attachment_url } : fields);
+        return;
+      }
+
       const { error } = await supabase.from('assetflow_expenses').insert([{
         user_id: user?.id,
-        ...data
+        ...fields,
+        attachment_url,
+        tags: matchedRule?.tags || null
       }]);
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['assetflow_expenses'] });
-      setIsAdding(false);
-      historyForm.reset();
-      setSelectedFile(null);
+      queryClient.invalidateQueries({ queryKey: ['assetflow_assets'] });
+      closeForm();
     }
   });
 
   const addRecurringMutation = useMutation({
-    mutationFn: async (data: RecurringFormData) => {
+    mutationFn: async ({ price_effective_date, ...data }: RecurringFormData) => {
+      // A new amount goes into the price history rather than overwriting the old one
+      if (editingBill) {
+        const { amount, ...rest } = data;
+        await updateRecurringExpense(editingBill.id, { ...rest, rrule: normalizeRRule(data) });
+        if (amount !== editingBill.amount) {
+          await recordPriceChange('BILL', editingBill, amount, price_effective_date || format(new Date(), 'yyyy-MM-dd'), priceChanges);
+        }
+        return;
+      }
       const { error } = await supabase.from('assetflow_recurring_expenses').insert([{
         user_id: user?.id,
-        ...data
+        ...data,
+        rrule: normalizeRRule(data)
       }]);
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['assetflow_recurring_expenses'] });
-      setIsAdding(false);
-      recurringForm.reset();
+      queryClient.invalidateQueries({ queryKey: ['assetflow_price_changes'] });
+      closeForm();
     }
   });
 
   const deleteHistoryMutation = useMutation({
     mutationFn: (id: string) => deleteTransaction(id, 'EXPENSE'),
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_expenses'] })
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_assets'] });
+    }
+  });
+
+  const settleMutation = useMutation({
+    mutationFn: ({ rollover, post }: { rollover: BillRollover; post: boolean }) => settleRecurringExpense(rollover, post, priceChanges),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_recurring_expenses'] });
+    }
   });
 
   const deleteRecurringMutation = useMutation({
@@ -111,7 +193,80 @@ const Expenses: React.FC = () => {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_recurring_expenses'] })
   });
 
+  // Ask-first bills that have come due and are waiting for confirmation
+  const pendingRollovers = useMemo(
+    () => recurringList
+      .filter(isAskFirst)
+      .map(bill => getBillRollover(bill))
+      .filter((r): r is BillRollover => r !== null),
+    [recurringList]
+  );
+
+  const subscriptions = useMemo(() => detectSubscriptions(expenseList, recurringList), [expenseList, recurringList]);
+  const priceRises = useMemo(() => getPriceRises(recurringList, priceChanges), [recurringList, priceChanges]);
+
   // Handlers
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditingExpense(null);
+    setEditingBill(null);
+    setIsSplitting(false);
+    historyForm.reset({});
+    recurringForm.reset();
+    setSelectedFile(null);
+  };
+
+  const startEditExpense = (item: Transaction) => {
+    setIsAdding(true);
+    setEditingExpense(item);
+    setIsSplitting(isSplit(item));
+    historyForm.reset({
+      title: item.title,
+      amount: item.amount,
+      date_paid: item.date,
+      category: item.category,
+      notes: item.notes || '',
+      splits: item.splits || [],
+      account_id: item.account_id || 'NONE',
+    });
+  };
+
+  const startEditBill = (bill: RecurringExpense) => {
+    setIsAdding(true);
+    setEditingBill(bill);
+    recurringForm.reset({
+      title: bill.title,
+      amount: bill.amount,
+      category: bill.category,
+      auto_post: !isAskFirst(bill),
+      frequency: bill.frequency,
+      custom_value: bill.custom_value,
+      rrule: bill.rrule || '',
+      next_due_date: bill.next_due_date,
+      price_effective_date: format(new Date(), 'yyyy-MM-dd'),
+      business_day_rule: bill.business_day_rule || 'NONE',
+      holiday_calendar: bill.holiday_calendar || 'NONE',
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Opens the bill form filled in from a detected subscription, ready to review and save
+  const startAddSubscription = (subscription: DetectedSubscription) => {
+    setIsAdding(true);
+    setEditingBill(null);
+    recurringForm.reset({
+      title: subscription.title,
+      amount: subscription.amount,
+      category: subscription.category,
+      auto_post: true,
+      frequency: subscription.frequency,
+      next_due_date: subscription.nextDueDate,
+      business_day_rule: 'NONE',
+      holiday_calendar: 'NONE',
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const onHistorySubmit = async (data: HistoryFormData) => {
     let attachmentPath = undefined;
     if (selectedFile && user) {
@@ -127,6 +282,14 @@ const Expenses: React.FC = () => {
     addRecurringMutation.mutate(data);
   };
 
+  // Starts a split with the current category and amount as the first line
+  const toggleSplit = (on: boolean) => {
+    setIsSplitting(on);
+    historyForm.setValue('splits', on
+      ? [{ category: historyForm.getValues('category') || '', amount: Number(watchedAmount) || '', notes: '' }, { category: '', amount: '', notes: '' }]
+      : []);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) setSelectedFile(e.target.files[0]);
   };
@@ -136,38 +299,6 @@ const Expenses: React.FC = () => {
     if(url) window.open(url, '_blank');
   };
 
-  // Helper for dates (Recurring logic)
-  const getNextDates = (dateStr: string, freq: Frequency, customVal?: number, count: number = 3) => {
-    let date = new Date(dateStr);
-    const dates = [];
-    for (let i = 0; i < count; i++) {
-      dates.push(date);
-      if (freq === 'WEEKLY') date = addWeeks(date, 1);
-      else if (freq === 'FORTNIGHTLY') date = addWeeks(date, 2);
-      else if (freq === 'MONTHLY') date = addMonths(date, 1);
-      else if (freq === 'YEARLY') date = addYears(date, 1);
-      else if (freq === 'EVERY_X_DAYS' && customVal) date = addDays(date, customVal);
-      else if (freq === 'SPECIFIC_DAY' && customVal) {
-        date = addMonths(date, 1);
-        const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
-        date.setDate(Math.min(customVal, daysInMonth));
-      }
-    }
-    return dates;
-  };
-
-  const formatFrequency = (item: any) => {
-    if (item.frequency === 'EVERY_X_DAYS') return `Every ${item.custom_value} Days`;
-    if (item.frequency === 'SPECIFIC_DAY') return `${item.custom_value}${getOrdinal(item.custom_value)} of Month`;
-    return item.frequency;
-  };
-
-  const getOrdinal = (n: number) => {
-    const s = ["th", "st", "nd", "rd"];
-    const v = n % 100;
-    return s[(v - 20) % 10] || s[v] || s[0];
-  };
-
   return (
     <div className="space-y-6">
       <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
@@ -175,7 +306,7 @@ const Expenses: React.FC = () => {
         
         <div className="flex bg-gray-100 p-1 rounded-lg">
           <button
-            onClick={() => { setActiveTab('history'); setIsAdding(false); }}
+            onClick={() => { setActiveTab('history'); closeForm(); }}
             className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-all ${
               activeTab === 'history' ? 'bg-white text-primary-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'
             }`}
@@ -183,7 +314,7 @@ const Expenses: React.FC = () => {
             <History size={16} /> History
           </button>
           <button
-            onClick={() => { setActiveTab('recurring'); setIsAdding(false); }}
+            onClick={() => { setActiveTab('recurring'); closeForm(); }}
             className={`flex items-center gap-2 px-4 py-2 text-sm font-medium rounded-md transition-all ${
               activeTab === 'recurring' ? 'bg-white text-primary-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'
             }`}
@@ -192,7 +323,7 @@ const Expenses: React.FC = () => {
           </button>
         </div>
 
-        <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'secondary' : 'danger'}>
+        <Button onClick={() => isAdding ? closeForm() : setIsAdding(true)} variant={isAdding ? 'secondary' : 'danger'}>
           {isAdding ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> {activeTab === 'history' ? 'Log Expense' : 'Add Bill'}</>}
         </Button>
       </div>
@@ -200,7 +331,7 @@ const Expenses: React.FC = () => {
       {/* --- ADD FORM (Context aware) --- */}
       {isAdding && activeTab === 'history' && (
         <Card className="p-6 animate-in slide-in-from-top-4 duration-200 border-l-4 border-l-red-500">
-          <h2 className="text-lg font-semibold mb-4">Log Past Expense</h2>
+          <h2 className="text-lg font-semibold mb-4">{editingExpense ? `Edit ${editingExpense.title}` : 'Log Past Expense'}</h2>
           <form onSubmit={historyForm.handleSubmit(onHistorySubmit)} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Input label="Title" {...historyForm.register('title')} error={historyForm.formState.errors.title?.message as string} placeholder="e.g. Coffee, Groceries" />
@@ -208,50 +339,85 @@ const Expenses: React.FC = () => {
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Input label="Date Paid" type="date" {...historyForm.register('date_paid')} error={historyForm.formState.errors.date_paid?.message as string} />
-              <Select 
-                label="Category" 
-                options={EXPENSE_CATEGORIES.map(c => ({ label: c, value: c }))} 
-                {...historyForm.register('category')} 
-                error={historyForm.formState.errors.category?.message as string} 
-              />
+              {!isSplitting && (
+                <Select 
+                  label="Category" 
+                  options={getCategoryOptions(categories, 'EXPENSE')} 
+                  {...historyForm.register('category')} 
+                  error={historyForm.formState.errors.category?.message as string} 
+                />
+              )}
             </div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                checked={isSplitting}
+                onChange={(e) => toggleSplit(e.target.checked)}
+              />
+              Split across categories
+            </label>
+            {isSplitting && (
+              <SplitEditor
+                control={historyForm.control}
+                register={historyForm.register}
+                categoryOptions={getCategoryOptions(categories, 'EXPENSE')}
+                total={Number(watchedAmount) || 0}
+                error={historyForm.formState.errors.splits?.message as string}
+              />
+            )}
+            {accounts.length > 0 && (
+              <Select
+                label="Paid From"
+                options={[{ label: 'No account', value: 'NONE' }, ...accounts.map(a => ({ label: a.name, value: a.id }))]}
+                defaultValue="NONE"
+                {...historyForm.register('account_id')}
+              />
+            )}
             <Input label="Notes (Optional)" {...historyForm.register('notes')} />
+            {matchedRule && !editingExpense && (
+              <p className="flex items-center gap-1 text-xs text-gray-500">
+                <Wand2 size={12} /> Filled in by a rule{matchedRule.tags && matchedRule.tags.length > 0 && <> · tags {matchedRule.tags.join(', ')}</>}
+              </p>
+            )}
             <div className="space-y-1">
-              <label className="block text-sm font-medium text-gray-700">Receipt (Optional)</label>
+              <label className="block text-sm font-medium text-gray-700">{editingExpense?.attachment_url ? 'Replace Receipt (Optional)' : 'Receipt (Optional)'}</label>
               <input type="file" onChange={handleFileChange} className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-red-50 file:text-red-700 hover:file:bg-red-100"/>
             </div>
             <div className="flex justify-end pt-2">
-              <Button type="submit" variant="danger" isLoading={addHistoryMutation.isPending || uploading}>Record Expense</Button>
+              <Button type="submit" variant="danger" isLoading={addHistoryMutation.isPending || uploading}>{editingExpense ? 'Save Changes' : 'Record Expense'}</Button>
             </div>
+            {addHistoryMutation.error && <p className="text-sm text-red-600">{addHistoryMutation.error.message}</p>}
           </form>
         </Card>
       )}
 
       {isAdding && activeTab === 'recurring' && (
         <Card className="p-6 animate-in slide-in-from-top-4 duration-200 border-l-4 border-l-orange-500">
-          <h2 className="text-lg font-semibold mb-4">Set Upcoming Bill</h2>
+          <h2 className="text-lg font-semibold mb-4">{editingBill ? `Edit ${editingBill.title}` : 'Set Upcoming Bill'}</h2>
           <form onSubmit={recurringForm.handleSubmit(onRecurringSubmit)} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Input label="Bill Name" {...recurringForm.register('title')} error={recurringForm.formState.errors.title?.message as string} placeholder="e.g. Rent, Netflix" />
               <Input label="Amount" type="number" step="0.01" {...recurringForm.register('amount')} error={recurringForm.formState.errors.amount?.message as string} />
             </div>
+            {billPriceChanged && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+                <Input label="New Amount Applies From" type="date" {...recurringForm.register('price_effective_date')} />
+                <p className="text-xs text-gray-500 pb-2">
+                  ${editingBill!.amount.toFixed(2)} is kept in the bill's price history. Pick a future date to schedule the change.
+                </p>
+              </div>
+            )}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                <Select 
                 label="Category" 
-                options={EXPENSE_CATEGORIES.map(c => ({ label: c, value: c }))} 
+                options={getCategoryOptions(categories, 'EXPENSE')} 
                 {...recurringForm.register('category')} 
                 error={recurringForm.formState.errors.category?.message as string} 
               />
               <Select 
                 label="Frequency" 
-                options={[
-                  { label: 'Weekly', value: 'WEEKLY' },
-                  { label: 'Fortnightly', value: 'FORTNIGHTLY' },
-                  { label: 'Monthly', value: 'MONTHLY' },
-                  { label: 'Yearly', value: 'YEARLY' },
-                  { label: 'Every X Days', value: 'EVERY_X_DAYS' },
-                  { label: 'Specific Day of Month', value: 'SPECIFIC_DAY' },
-                ]} 
+                options={FREQUENCY_OPTIONS} 
                 {...recurringForm.register('frequency')} 
                 error={recurringForm.formState.errors.frequency?.message as string} 
               />
@@ -276,15 +442,81 @@ const Expenses: React.FC = () => {
                />
             )}
 
+            {selectedFrequency === 'RRULE' && (
+               <Input 
+                 label="Recurrence Rule (e.g. FREQ=WEEKLY;INTERVAL=4)" 
+                 {...recurringForm.register('rrule')} 
+                 error={recurringForm.formState.errors.rrule?.message as string} 
+               />
+            )}
+
             <Input label="Next Due Date" type="date" {...recurringForm.register('next_due_date')} error={recurringForm.formState.errors.next_due_date?.message as string} />
             
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select 
+                label="If it falls on a weekend or holiday" 
+                options={BUSINESS_DAY_RULE_OPTIONS} 
+                {...recurringForm.register('business_day_rule')} 
+                error={recurringForm.formState.errors.business_day_rule?.message as string} 
+              />
+              <Select 
+                label="Holiday Calendar" 
+                options={HOLIDAY_CALENDAR_OPTIONS} 
+                {...recurringForm.register('holiday_calendar')} 
+                error={recurringForm.formState.errors.holiday_calendar?.message as string} 
+              />
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" className="rounded border-gray-300 text-primary-600 focus:ring-primary-500" {...recurringForm.register('auto_post')} />
+              Post to expense history automatically when due (otherwise ask first)
+            </label>
+
             <div className="flex justify-end pt-2">
-              <Button type="submit" variant="primary" isLoading={addRecurringMutation.isPending}>Save Schedule</Button>
+              <Button type="submit" variant="primary" isLoading={addRecurringMutation.isPending}>{editingBill ? 'Save Changes' : 'Save Schedule'}</Button>
             </div>
+            {addRecurringMutation.error && <p className="text-sm text-red-600">{addRecurringMutation.error.message}</p>}
           </form>
         </Card>
       )}
 
+      {/* --- BILLS AWAITING CONFIRMATION --- */}
+      {pendingRollovers.length > 0 && (
+        <Card className="p-6 border-l-4 border-l-yellow-500">
+          <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+            <BellRing size={18} className="text-yellow-600" /> Bills Due for Confirmation
+          </h2>
+          <div className="space-y-3">
+            {pendingRollovers.map(rollover => (
+              <div key={rollover.bill.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 border-b last:border-0 pb-3 last:pb-0">
+                <div>
+                  <p className="font-medium text-gray-900">{rollover.bill.title} <span className="text-red-600">${rollover.bill.amount}</span></p>
+                  <p className="text-xs text-gray-500">
+                    Due {rollover.due.map(d => format(d, 'MMM d, yyyy')).join(', ')}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="secondary"
+                    onClick={() => settleMutation.mutate({ rollover, post: false })}
+                    disabled={settleMutation.isPending}
+                  >
+                    Skip
+                  </Button>
+                  <Button
+                    variant="danger"
+                    onClick={() => settleMutation.mutate({ rollover, post: true })}
+                    disabled={settleMutation.isPending}
+                  >
+                    Post {rollover.due.length > 1 ? `${rollover.due.length} Payments` : 'Payment'}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </Card>
+      )}
+
       {/* --- CONTENT VIEWS --- */}
       
       {/* 1. HISTORY TABLE */}
@@ -312,11 +544,30 @@ const Expenses: React.FC = () => {
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                         {format(new Date(item.date), 'MMM d, yyyy')}
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{item.title}</td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {item.title}
+                        {item.account_id && (
+                          <p className="text-xs text-gray-400 font-normal">{accounts.find(a => a.id === item.account_id)?.name}</p>
+                        )}
+                        {item.tags && item.tags.length > 0 && (
+                          <div className="flex gap-1 mt-1">
+                            {item.tags.map(tag => <span key={tag} className="px-1.5 text-xs rounded bg-gray-100 text-gray-600 font-normal">{tag}</span>)}
+                          </div>
+                        )}
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                        <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-red-100 text-red-800">
-                          {item.category}
-                        </span>
+                        {isSplit(item) ? (
+                          <div className="flex flex-col items-start gap-1">
+                            {item.splits!.map((line, i) => (
+                              <span key={i} className="flex items-center gap-2">
+                                <CategoryBadge name={line.category} kind="EXPENSE" categories={categories} />
+                                <span className="text-xs">${line.amount.toFixed(2)}</span>
+                              </span>
+                            ))}
+                          </div>
+                        ) : (
+                          <CategoryBadge name={item.category} kind="EXPENSE" categories={categories} />
+                        )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-semibold">
                         ${item.amount.toFixed(2)}
@@ -327,14 +578,25 @@ const Expenses: React.FC = () => {
                             <FileText size={18} />
                           </button>
                         )}
-                        <button 
-                          onClick={() => {
-                            if(confirm('Delete this record?')) deleteHistoryMutation.mutate(item.id);
-                          }}
-                          className="text-red-600 hover:text-red-900"
-                        >
-                          <Trash2 size={18} />
-                        </button>
+                        {item.reconciliation_id ? (
+                          <span className="text-gray-300" title="Reconciled transactions are locked">
+                            <Lock size={18} />
+                          </span>
+                        ) : (
+                          <>
+                            <button onClick={() => startEditExpense(item)} className="text-gray-400 hover:text-gray-900" title="Edit">
+                              <Pencil size={18} />
+                            </button>
+                            <button 
+                              onClick={() => {
+                                if(confirm('Delete this record?')) deleteHistoryMutation.mutate(item.id);
+                              }}
+                              className="text-red-600 hover:text-red-900"
+                            >
+                              <Trash2 size={18} />
+                            </button>
+                          </>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -346,6 +608,12 @@ const Expenses: React.FC = () => {
       )}
 
       {/* 2. RECURRING CARDS */}
+      {activeTab === 'recurring' && priceRises.length > 0 && <PriceRiseSummary rises={priceRises} />}
+
+      {activeTab === 'recurring' && (
+        <SubscriptionFinder subscriptions={subscriptions} priceChanges={priceChanges} onAddBill={startAddSubscription} />
+      )}
+
       {activeTab === 'recurring' && (
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           {recurringList.map(bill => (
@@ -355,22 +623,24 @@ const Expenses: React.FC = () => {
                   <h3 className="text-xl font-bold text-gray-900">{bill.title}</h3>
                   <div className="flex gap-2 mt-2">
                      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-orange-100 text-orange-800 uppercase">
-                      <RefreshCw size={10} className="mr-1"/> {formatFrequency(bill)}
+                      <RefreshCw size={10} className="mr-1"/> {describeSchedule(bill)}
                     </span>
+                    <CategoryBadge name={bill.category} kind="EXPENSE" categories={categories} />
                     <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
-                      {bill.category}
+                      {isAskFirst(bill) ? 'Ask first' : 'Auto-post'}
                     </span>
                   </div>
                 </div>
                 <div className="text-right">
                   <span className="text-2xl font-bold text-red-600">${bill.amount}</span>
+                  <PriceHistoryNote itemId={bill.id} priceChanges={priceChanges} />
                 </div>
               </div>
               
               <div className="mt-4 border-t pt-4">
                 <p className="text-sm font-medium text-gray-500 mb-2">Upcoming Due Dates</p>
                 <div className="flex gap-2 flex-wrap">
-                  {getNextDates(bill.next_due_date, bill.frequency, bill.custom_value).map((d, i) => (
+                  {getNextDates(bill.next_due_date, bill, 3).map((d, i) => (
                     <span key={i} className="px-2 py-1 bg-red-50 text-red-700 text-xs rounded-md border border-red-100">
                       {format(d, 'MMM d')}
                     </span>
@@ -378,7 +648,10 @@ const Expenses: React.FC = () => {
                 </div>
               </div>
 
-              <div className="mt-6 flex justify-end">
+              <div className="mt-6 flex justify-end gap-2">
+                <Button variant="ghost" onClick={() => startEditBill(bill)}>
+                  <Pencil size={16} className="mr-1" /> Edit
+                </Button>
                 <Button 
                   variant="ghost" 
                   className="text-red-600 hover:text-red-700 hover:bg-red-50"
@@ -4,12 +4,25 @@ import { useForm } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { supabase } from '../lib/supabase';
-import { fetchGoals, deleteGoal } from '../services/data';
+import { fetchGoals, deleteGoal, updateGoal, fetchGoalContributions, fetchPaydays, fetchAllocationRules, fetchCategories } from '../services/data';
 import { Button, Input, Card } from '../components/UI';
 import { useAuth } from '../context/AuthContext';
-import { Plus, Trash2, X, Target, Trophy } from 'lucide-react';
+import { GoalLedger } from '../components/GoalLedger';
+import { AllocationRules } from '../components/AllocationRules';
+import { GoalStatus, getGoalPlan } from '../lib/goals';
+import { toDate } from '../lib/recurrence';
+import { Plus, Trash2, X, Target, Trophy, History, Pencil } from 'lucide-react';
+import { Goal } from '../types';
 import { format } from 'date-fns';
 
+const STATUS_BADGES: Record<GoalStatus, { label: string; className: string } | null> = {
+  COMPLETE: null,
+  NO_DATE: null,
+  ON_TRACK: { label: 'On track', className: 'bg-green-100 text-green-700' },
+  BEHIND: { label: 'Behind', className: 'bg-orange-100 text-orange-700' },
+  OVERDUE: { label: 'Target date passed', className: 'bg-red-100 text-red-700' },
+};
+
 const schema = z.object({
   name: z.string().min(2, 'Name is required'),
   target_amount: z.coerce.number().positive('Target must be positive'),
@@ -23,28 +36,58 @@ const Goals: React.FC = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [isAdding, setIsAdding] = useState(false);
+  const [editing, setEditing] = useState<Goal | null>(null);
+  const [ledgerGoalId, setLedgerGoalId] = useState<string | null>(null);
   
   const { data: goals = [], isLoading } = useQuery({ 
     queryKey: ['assetflow_goals'], 
     queryFn: fetchGoals 
   });
 
+  const { data: contributions = [] } = useQuery({ queryKey: ['assetflow_goal_contributions'], queryFn: fetchGoalContributions });
+  const { data: paydays = [] } = useQuery({ queryKey: ['assetflow_paydays'], queryFn: fetchPaydays });
+  const { data: allocationRules = [] } = useQuery({ queryKey: ['assetflow_allocation_rules'], queryFn: fetchAllocationRules });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+  const ledgerGoal = goals.find(g => g.id === ledgerGoalId) || null;
+
   const { register, handleSubmit, reset, formState: { errors } } = useForm({
     resolver: zodResolver(schema),
   });
 
   const mutation = useMutation({
-    mutationFn: async (data: FormData) => {
-      const { error } = await supabase.from('assetflow_goals').insert([{
+    mutationFn: async ({ current_amount, ...data }: FormData) => {
+      // The balance comes from the goal's ledger, so an edit only touches the target
+      if (editing) {
+        await updateGoal(editing.id, { ...data, target_date: data.target_date || null });
+        return;
+      }
+      const { data: goal, error } = await supabase.from('assetflow_goals').insert([{
         user_id: user?.id,
-        ...data
-      }]);
+        ...data,
+        current_amount: 0
+      }]).select('id').single();
       if (error) throw error;
+
+      // The starting balance becomes the first entry in the goal's ledger
+      if (current_amount > 0) {
+        const { error: ledgerError } = await supabase.from('assetflow_goal_contributions').insert([{
+          user_id: user?.id,
+          goal_id: goal.id,
+          amount: current_amount,
+          date: format(new Date(), 'yyyy-MM-dd'),
+          notes: 'Starting balance'
+        }]);
+        if (ledgerError) {
+          // Don't leave a goal behind without the balance it was created with
+          await deleteGoal(goal.id);
+          throw ledgerError;
+        }
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['assetflow_goals'] });
-      setIsAdding(false);
-      reset();
+      queryClient.invalidateQueries({ queryKey: ['assetflow_goal_contributions'] });
+      closeForm();
     }
   });
 
@@ -53,10 +96,22 @@ const Goals: React.FC = () => {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_goals'] })
   });
 
-  // Small mutation to add money to a goal (simulated update for demo)
-  const addFunds = async (id: string, current: number, amount: number) => {
-    await supabase.from('assetflow_goals').update({ current_amount: current + amount }).eq('id', id);
-    queryClient.invalidateQueries({ queryKey: ['assetflow_goals'] });
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditing(null);
+    reset({});
+  };
+
+  const startEdit = (goal: Goal) => {
+    setIsAdding(true);
+    setEditing(goal);
+    reset({
+      name: goal.name,
+      target_amount: goal.target_amount,
+      current_amount: goal.current_amount,
+      target_date: goal.target_date || '',
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   return (
@@ -66,34 +121,45 @@ const Goals: React.FC = () => {
            <h1 className="text-2xl font-bold text-gray-900">Goal Buckets</h1>
            <p className="text-gray-500">Visualize your dreams and track progress.</p>
         </div>
-        <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'secondary' : 'primary'}>
+        <Button onClick={() => isAdding ? closeForm() : setIsAdding(true)} variant={isAdding ? 'secondary' : 'primary'}>
           {isAdding ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> New Goal</>}
         </Button>
       </div>
 
       {isAdding && (
         <Card className="p-6 animate-in slide-in-from-top-4 duration-200 border-l-4 border-green-500">
-          <h2 className="text-lg font-semibold mb-4">Set a New Target</h2>
+          <h2 className="text-lg font-semibold mb-4">{editing ? `Edit ${editing.name}` : 'Set a New Target'}</h2>
           <form onSubmit={handleSubmit((d) => mutation.mutate(d as FormData))} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Input label="Goal Name" {...register('name')} error={errors.name?.message} placeholder="e.g. Vacation, New Van" />
               <Input label="Target Amount ($)" type="number" step="0.01" {...register('target_amount')} error={errors.target_amount?.message} />
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <Input label="Starting Balance ($)" type="number" step="0.01" {...register('current_amount')} error={errors.current_amount?.message} />
+              {editing ? (
+                <div className="text-sm text-gray-500 self-end pb-2">Use Add Money / History to change the balance.</div>
+              ) : (
+                <Input label="Starting Balance ($)" type="number" step="0.01" {...register('current_amount')} error={errors.current_amount?.message} />
+              )}
               <Input label="Target Date (Optional)" type="date" {...register('target_date')} error={errors.target_date?.message} />
             </div>
             <div className="flex justify-end pt-2">
-              <Button type="submit" isLoading={mutation.isPending}>Create Goal</Button>
+              <Button type="submit" isLoading={mutation.isPending}>{editing ? 'Save Changes' : 'Create Goal'}</Button>
             </div>
+            {mutation.error && <p className="text-sm text-red-600">{mutation.error.message}</p>}
           </form>
         </Card>
       )}
 
+      {ledgerGoal && (
+        <GoalLedger key={ledgerGoal.id} goal={ledgerGoal} contributions={contributions} onClose={() => setLedgerGoalId(null)} />
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         {goals.map(goal => {
           const percent = Math.min(100, Math.round((goal.current_amount / goal.target_amount) * 100));
           const isComplete = percent >= 100;
+          const plan = getGoalPlan(goal, contributions, paydays);
+          const badge = STATUS_BADGES[plan.status];
           
           return (
             <Card key={goal.id} className={`p-6 flex flex-col justify-between ${isComplete ? 'border-2 border-yellow-400 bg-yellow-50' : ''}`}>
@@ -104,10 +170,16 @@ const Goals: React.FC = () => {
                          {isComplete ? <Trophy size={20} /> : <Target size={20} />}
                       </div>
                       <h3 className="text-lg font-bold text-gray-900">{goal.name}</h3>
+                      {badge && <span className={`text-xs px-2 py-0.5 rounded-full ${badge.className}`}>{badge.label}</span>}
+                    </div>
+                    <div className="flex gap-2">
+                      <button onClick={() => startEdit(goal)} className="text-gray-400 hover:text-gray-900" title="Edit">
+                         <Pencil size={16} />
+                      </button>
+                      <button onClick={() => deleteMutation.mutate(goal.id)} className="text-gray-400 hover:text-red-500">
+                         <Trash2 size={16} />
+                      </button>
                     </div>
-                    <button onClick={() => deleteMutation.mutate(goal.id)} className="text-gray-400 hover:text-red-500">
-                       <Trash2 size={16} />
-                    </button>
                  </div>
                  
                  <div className="mt-4 mb-2 flex justify-between text-sm">
@@ -124,28 +196,46 @@ const Goals: React.FC = () => {
                  <p className="text-right text-xs text-gray-500 mt-1">{percent}% Funded</p>
                  
                  {goal.target_date && (
-                   <p className="text-xs text-gray-400 mt-2">Target Date: {format(new Date(goal.target_date), 'MMM d, yyyy')}</p>
+                   <p className="text-xs text-gray-400 mt-2">Target Date: {format(toDate(goal.target_date), 'MMM d, yyyy')}</p>
+                 )}
+
+                 {!isComplete && (
+                   <div className="mt-4 text-sm space-y-1">
+                     {plan.requiredMonthly !== null && (
+                       <div className="flex justify-between text-gray-600">
+                         <span>To hit the target</span>
+                         <span className="font-medium text-right">
+                           ${plan.requiredWeekly!.toFixed(2)}/week · ${plan.requiredMonthly.toFixed(2)}/month
+                           {plan.requiredPerPayday !== null && (
+                             <span className="block text-xs text-gray-400">or ${plan.requiredPerPayday.toFixed(2)} from each of {plan.paydaysLeft} paydays</span>
+                           )}
+                         </span>
+                       </div>
+                     )}
+                     <div className="flex justify-between text-gray-600">
+                       <span>At your current pace</span>
+                       <span className={`font-medium ${plan.status === 'BEHIND' || plan.status === 'OVERDUE' ? 'text-orange-600' : ''}`}>
+                         {plan.projectedCompletion
+                           ? `done by ${format(plan.projectedCompletion, 'MMM d, yyyy')}`
+                           : 'not enough recent saving'}
+                       </span>
+                     </div>
+                     {plan.status === 'OVERDUE' && (
+                       <p className="text-xs text-red-600">${plan.remaining.toFixed(2)} still to go. Pick a new target date or top it up.</p>
+                     )}
+                   </div>
                  )}
               </div>
 
-              {!isComplete && (
-                 <div className="mt-6 pt-4 border-t flex gap-2">
-                    <Button 
-                      variant="secondary" 
-                      className="flex-1 text-xs" 
-                      onClick={() => addFunds(goal.id, goal.current_amount, 50)}
-                    >
-                      + $50
-                    </Button>
-                    <Button 
-                      variant="secondary" 
-                      className="flex-1 text-xs"
-                      onClick={() => addFunds(goal.id, goal.current_amount, 100)}
-                    >
-                      + $100
-                    </Button>
-                 </div>
-              )}
+              <div className="mt-6 pt-4 border-t flex gap-2">
+                 <Button 
+                   variant="secondary" 
+                   className="flex-1 text-xs" 
+                   onClick={() => setLedgerGoalId(ledgerGoalId === goal.id ? null : goal.id)}
+                 >
+                   <History size={14} className="mr-1" /> {isComplete ? 'History' : 'Add Money / History'}
+                 </Button>
+              </div>
             </Card>
           );
         })}
@@ -158,6 +248,8 @@ const Goals: React.FC = () => {
           </div>
         )}
       </div>
+
+      {goals.length > 0 && <AllocationRules rules={allocationRules} goals={goals} categories={categories} />}
     </div>
   );
 };
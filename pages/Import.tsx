@@ -0,0 +1,324 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '../lib/supabase';
+import { fetchTransactions, fetchImportMappings, deleteImportMapping, insertTransactions, fetchCategoryRules, fetchCategories, fetchAccounts } from '../services/data';
+import { Button, Input, Select, Card } from '../components/UI';
+import { ImportReview } from '../components/ImportReview';
+import { useAuth } from '../context/AuthContext';
+import { CsvMapping } from '../types';
+import { ImportRow, markDuplicates, skipImported } from '../lib/imports';
+import { isOfx, ofxToImportRows, parseOfx } from '../lib/ofx';
+import { applyRule, findMatchingRule } from '../lib/categoryRules';
+import {
+  AMOUNT_MODE_OPTIONS, DATE_FORMAT_OPTIONS, SIGN_CONVENTION_OPTIONS,
+  detectDateFormat, mapCsvRows, parseCsv
+} from '../lib/csv';
+import { Upload, ArrowLeft, Trash2, CheckCircle2 } from 'lucide-react';
+
+type Step = 'UPLOAD' | 'MAP' | 'REVIEW' | 'DONE';
+
+// Best guess at which columns are which, from common bank header names
+const guessMapping = (rows: string[][]): CsvMapping => {
+  const header = rows[0].map(h => h.toLowerCase());
+  const find = (...names: string[]) => header.findIndex(h => names.some(n => h.includes(n)));
+  const hasHeader = find('date', 'description', 'amount', 'debit', 'credit') >= 0;
+  const dateColumn = Math.max(find('date'), 0);
+  const debit = find('debit', 'paid out', 'money out', 'withdrawal');
+  const credit = find('credit', 'paid in', 'money in', 'deposit');
+
+  return {
+    has_header: hasHeader,
+    date_column: dateColumn,
+    description_column: Math.max(find('description', 'details', 'narrative', 'payee', 'memo', 'name'), hasHeader ? 0 : 1),
+    amount_mode: debit >= 0 && credit >= 0 ? 'SPLIT' : 'SIGNED',
+    amount_column: Math.max(find('amount', 'value'), hasHeader ? 0 : 2),
+    debit_column: debit >= 0 ? debit : undefined,
+    credit_column: credit >= 0 ? credit : undefined,
+    sign_convention: 'NEGATIVE_IS_EXPENSE',
+    date_format: detectDateFormat(rows.slice(hasHeader ? 1 : 0, 11).map(r => r[dateColumn] || '')),
+  };
+};
+
+const Import: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [step, setStep] = useState<Step>('UPLOAD');
+  const [fileName, setFileName] = useState('');
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [bankName, setBankName] = useState('');
+  const [reviewRows, setReviewRows] = useState<ImportRow[]>([]);
+  const [imported, setImported] = useState(0);
+  const [fileError, setFileError] = useState('');
+  const [skipped, setSkipped] = useState(0);
+  const [accountId, setAccountId] = useState('NONE');
+
+  const { data: income = [] } = useQuery({ queryKey: ['assetflow_income'], queryFn: () => fetchTransactions('INCOME') });
+  const { data: expenses = [] } = useQuery({ queryKey: ['assetflow_expenses'], queryFn: () => fetchTransactions('EXPENSE') });
+  const { data: savedMappings = [] } = useQuery({ queryKey: ['assetflow_import_mappings'], queryFn: fetchImportMappings });
+  const { data: rules = [] } = useQuery({ queryKey: ['assetflow_category_rules'], queryFn: fetchCategoryRules });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+  const { data: accounts = [] } = useQuery({ queryKey: ['assetflow_accounts'], queryFn: fetchAccounts });
+
+  const saveMappingMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('assetflow_import_mappings').upsert({
+        user_id: user?.id,
+        bank_name: bankName.trim(),
+        mapping
+      }, { onConflict: 'user_id,bank_name' });
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_import_mappings'] })
+  });
+
+  const deleteMappingMutation = useMutation({
+    mutationFn: deleteImportMapping,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_import_mappings'] })
+  });
+
+  const importMutation = useMutation({
+    mutationFn: () => insertTransactions(user!.id, reviewRows, accountId === 'NONE' ? null : accountId),
+    onSuccess: (count) => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_income'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_expenses'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_assets'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_goals'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_goal_contributions'] });
+      setImported(count);
+      setStep('DONE');
+    }
+  });
+
+  const results = useMemo(() => (mapping ? mapCsvRows(csvRows, mapping) : []), [csvRows, mapping]);
+  const rowErrors = results.filter(r => r.error);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await file.text();
+    setFileName(file.name);
+
+    // OFX/QFX carry their own structure, so they skip column mapping
+    if (isOfx(text)) {
+      const transactions = parseOfx(text);
+      if (transactions.length === 0) {
+        setFileError('No transactions found in that statement.');
+        return;
+      }
+      setFileError('');
+      startReview(ofxToImportRows(transactions));
+      return;
+    }
+
+    const rows = parseCsv(text);
+    if (rows.length === 0) {
+      setFileError('That file has no rows.');
+      return;
+    }
+    setFileError('');
+    setCsvRows(rows);
+    const saved = savedMappings.find(m => m.bank_name === bankName);
+    setMapping(saved ? saved.mapping : guessMapping(rows));
+    setStep('MAP');
+  };
+
+  const updateMapping = (changes: Partial<CsvMapping>) => setMapping(m => (m ? { ...m, ...changes } : m));
+
+  const startReview = (rows: ImportRow[]) => {
+    const existing = [...income, ...expenses];
+    const fresh = skipImported(rows, existing, accountId === 'NONE' ? null : accountId);
+    setSkipped(fresh.skipped);
+    const categorized = fresh.rows.map(row => applyRule(row, findMatchingRule(rules, row)));
+    setReviewRows(markDuplicates(categorized, existing));
+    setStep('REVIEW');
+  };
+
+  const goToReview = () => startReview(results.flatMap(r => (r.row ? [r.row] : [])));
+
+  const reset = () => {
+    setStep('UPLOAD');
+    setCsvRows([]);
+    setMapping(null);
+    setReviewRows([]);
+    setFileError('');
+    setSkipped(0);
+    importMutation.reset();
+  };
+
+  const width = Math.max(0, ...csvRows.slice(0, 10).map(r => r.length));
+  const columnOptions = Array.from({ length: width }, (_, i) => ({
+    label: mapping?.has_header && csvRows[0][i] ? csvRows[0][i] : `Column ${i + 1}`,
+    value: String(i),
+  }));
+  const columnSelect = (label: string, key: 'date_column' | 'description_column' | 'amount_column' | 'debit_column' | 'credit_column') => (
+    <Select
+      label={label}
+      options={columnOptions}
+      value={mapping?.[key] === undefined ? '' : String(mapping[key])}
+      onChange={(e) => updateMapping({ [key]: Number(e.target.value) })}
+    />
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Import Statement</h1>
+          <p className="text-gray-500">Bring in transactions from a bank CSV, OFX or QFX export.</p>
+        </div>
+        {step !== 'UPLOAD' && (
+          <Button variant="secondary" onClick={reset}><ArrowLeft size={16} className="mr-2" /> Start Over</Button>
+        )}
+      </div>
+
+      {step === 'UPLOAD' && (
+        <Card className="p-6 max-w-xl mx-auto space-y-4">
+          <Select
+            label="Bank (saved column mapping)"
+            options={[{ label: 'New / guess from headers', value: 'NEW' }, ...savedMappings.map(m => ({ label: m.bank_name, value: m.bank_name }))]}
+            value={bankName || 'NEW'}
+            onChange={(e) => setBankName(e.target.value === 'NEW' ? '' : e.target.value)}
+          />
+          {accounts.length > 0 && (
+            <Select
+              label="Import Into Account"
+              options={[{ label: 'No account', value: 'NONE' }, ...accounts.map(a => ({ label: a.name, value: a.id }))]}
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+            />
+          )}
+          <div className="space-y-1">
+            <label className="block text-sm font-medium text-gray-700">Statement File (.csv, .ofx, .qfx)</label>
+            <input type="file" accept=".csv,.ofx,.qfx,text/csv" onChange={handleFile} className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100"/>
+            {fileError && <p className="mt-1 text-sm text-red-600">{fileError}</p>}
+          </div>
+
+          {savedMappings.length > 0 && (
+            <div className="border-t pt-4">
+              <h4 className="text-sm font-semibold text-gray-700 mb-2">Saved Mappings</h4>
+              <ul className="space-y-1 text-sm">
+                {savedMappings.map(m => (
+                  <li key={m.id} className="flex justify-between items-center text-gray-600">
+                    <span>{m.bank_name}</span>
+                    <button onClick={() => { if (confirm('Delete this mapping?')) deleteMappingMutation.mutate(m.id) }} className="text-gray-400 hover:text-red-600">
+                      <Trash2 size={14} />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </Card>
+      )}
+
+      {step === 'MAP' && mapping && (
+        <Card className="p-6 space-y-6">
+          <div>
+            <h2 className="text-lg font-semibold">Map Columns</h2>
+            <p className="text-sm text-gray-500">{fileName}: {csvRows.length} lines</p>
+          </div>
+
+          <div className="overflow-x-auto border rounded-lg">
+            <table className="min-w-full divide-y divide-gray-200 text-xs">
+              <tbody className="bg-white divide-y divide-gray-200">
+                {csvRows.slice(0, 6).map((row, i) => (
+                  <tr key={i} className={i === 0 && mapping.has_header ? 'bg-gray-50 font-semibold' : ''}>
+                    {row.map((cell, j) => <td key={j} className="px-3 py-2 whitespace-nowrap text-gray-700">{cell}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              checked={mapping.has_header}
+              onChange={(e) => updateMapping({ has_header: e.target.checked })}
+            />
+            First line is a header
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {columnSelect('Date Column', 'date_column')}
+            <Select
+              label="Date Format"
+              options={DATE_FORMAT_OPTIONS}
+              value={mapping.date_format}
+              onChange={(e) => updateMapping({ date_format: e.target.value })}
+            />
+            {columnSelect('Description Column', 'description_column')}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select
+              label="Amounts"
+              options={AMOUNT_MODE_OPTIONS}
+              value={mapping.amount_mode}
+              onChange={(e) => updateMapping({ amount_mode: e.target.value as CsvMapping['amount_mode'] })}
+            />
+            {mapping.amount_mode === 'SIGNED' ? (
+              <>
+                {columnSelect('Amount Column', 'amount_column')}
+                <Select
+                  label="Sign Convention"
+                  options={SIGN_CONVENTION_OPTIONS}
+                  value={mapping.sign_convention}
+                  onChange={(e) => updateMapping({ sign_convention: e.target.value as CsvMapping['sign_convention'] })}
+                />
+              </>
+            ) : (
+              <>
+                {columnSelect('Debit (Money Out) Column', 'debit_column')}
+                {columnSelect('Credit (Money In) Column', 'credit_column')}
+              </>
+            )}
+          </div>
+
+          {rowErrors.length > 0 && (
+            <div className="rounded-lg bg-red-50 border border-red-200 p-4 text-sm text-red-700">
+              <p className="font-medium">{rowErrors.length} line{rowErrors.length === 1 ? '' : 's'} can't be read with this mapping and will be skipped:</p>
+              <ul className="mt-1 list-disc list-inside">
+                {rowErrors.slice(0, 5).map(r => <li key={r.line}>Line {r.line}: {r.error}</li>)}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex flex-col md:flex-row justify-between gap-4 border-t pt-4">
+            <div className="flex items-end gap-2">
+              <div className="w-56">
+                <Input label="Save mapping for bank" value={bankName} placeholder="e.g. Barclays Current" onChange={(e) => setBankName(e.target.value)} />
+              </div>
+              <Button variant="secondary" disabled={!bankName.trim()} isLoading={saveMappingMutation.isPending} onClick={() => saveMappingMutation.mutate()}>
+                Save Mapping
+              </Button>
+            </div>
+            <Button onClick={goToReview} disabled={results.length === rowErrors.length}>Preview Transactions</Button>
+          </div>
+        </Card>
+      )}
+
+      {step === 'REVIEW' && (
+        <Card className="p-6 space-y-4">
+          {skipped > 0 && (
+            <p className="text-sm text-gray-500">{skipped} transaction{skipped === 1 ? ' was' : 's were'} already imported from an earlier statement and skipped.</p>
+          )}
+          <ImportReview rows={reviewRows} categories={categories} onChange={setReviewRows} onConfirm={() => importMutation.mutate()} isSaving={importMutation.isPending} />
+          {importMutation.error && <p className="text-sm text-red-600">{importMutation.error.message}</p>}
+        </Card>
+      )}
+
+      {step === 'DONE' && (
+        <Card className="p-8 text-center">
+          <CheckCircle2 size={48} className="mx-auto text-green-500 mb-4" />
+          <h2 className="text-xl font-bold text-gray-900">Imported {imported} transaction{imported === 1 ? '' : 's'}</h2>
+          <Button className="mt-6" onClick={reset}><Upload size={16} className="mr-2" /> Import Another</Button>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Import;
\ No newline at end of file
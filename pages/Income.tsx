@@ -1,22 +1,36 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { useForm } from 'react-hook-form';
+import { useForm, useWatch } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { supabase, uploadFile, getFileUrl } from '../lib/supabase';
-import { fetchTransactions, deleteTransaction } from '../services/data';
+import { fetchTransactions, deleteTransaction, updateTransaction, fetchAllocationRules, fetchGoals, saveIncomeAllocations, fetchCategoryRules, fetchCategories, fetchAccounts } from '../services/data';
 import { Button, Input, Select, Card } from '../components/UI';
-import { INCOME_CATEGORIES } from '../types';
+import { CategoryBadge } from '../components/CategoryBadge';
+import { SplitEditor } from '../components/SplitEditor';
 import { useAuth } from '../context/AuthContext';
 import { format } from 'date-fns';
-import { Plus, Trash2, FileText, X } from 'lucide-react';
+import { getAllocations } from '../lib/allocations';
+import { findMatchingRule } from '../lib/categoryRules';
+import { getCategoryOptions } from '../lib/categories';
+import { getPrimaryCategory, isSplit, splitLineSchema, splitsAddUp } from '../lib/splits';
+import { Plus, Trash2, FileText, X, Shuffle, Wand2, Lock, Pencil } from 'lucide-react';
+import { Transaction } from '../types';
 
 const schema = z.object({
   title: z.string().min(2, 'Title is required'),
   amount: z.coerce.number().positive('Amount must be positive'),
   date_received: z.string().min(1, 'Date is required'),
-  category: z.string().min(1, 'Category is required'),
+  category: z.string(),
   notes: z.string().optional(),
+  splits: z.array(splitLineSchema).optional(),
+  account_id: z.string().optional(),
+}).refine(data => data.splits?.length || data.category, {
+  message: 'Category is required',
+  path: ['category'],
+}).refine(data => splitsAddUp(data.amount, data.splits), {
+  message: 'Split lines must add up to the amount',
+  path: ['splits'],
 });
 
 type FormData = z.infer<typeof schema>;
@@ -26,43 +40,122 @@ const Income: React.FC = () => {
   const queryClient = useQueryClient();
   const [isAdding, setIsAdding] = useState(false);
   const [uploading, setUploading] = useState(false);
+  const [applyRules, setApplyRules] = useState(true);
+  const [isSplitting, setIsSplitting] = useState(false);
+  const [editing, setEditing] = useState<Transaction | null>(null);
   const { data: incomeList = [], isLoading } = useQuery({ 
     queryKey: ['assetflow_income'], 
     queryFn: () => fetchTransactions('INCOME') 
   });
 
-  const { register, handleSubmit, reset, formState: { errors } } = useForm({
+  const { data: allocationRules = [] } = useQuery({ queryKey: ['assetflow_allocation_rules'], queryFn: fetchAllocationRules });
+  const { data: goals = [] } = useQuery({ queryKey: ['assetflow_goals'], queryFn: fetchGoals });
+  const { data: categoryRules = [] } = useQuery({ queryKey: ['assetflow_category_rules'], queryFn: fetchCategoryRules });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+  const { data: accounts = [] } = useQuery({ queryKey: ['assetflow_accounts'], queryFn: fetchAccounts });
+
+  const { register, handleSubmit, reset, control, setValue, getValues, formState: { errors } } = useForm({
     resolver: zodResolver(schema),
   });
+
+  const watchedAmount = useWatch({ control, name: 'amount' });
+  const watchedCategory = useWatch({ control, name: 'category' });
+  const watchedTitle = useWatch({ control, name: 'title' });
+
+  const matchedRule = useMemo(
+    () => findMatchingRule(categoryRules, { title: String(watchedTitle || ''), amount: Number(watchedAmount) || 0, type: 'INCOME' }),
+    [categoryRules, watchedTitle, watchedAmount]
+  );
+
+  // Fill the form from the first matching categorization rule (new entries only, edits keep what was saved)
+  useEffect(() => {
+    if (!matchedRule || editing) return;
+    if (matchedRule.category) setValue('category', matchedRule.category);
+    if (matchedRule.notes && !getValues('notes')) setValue('notes', matchedRule.notes);
+  }, [matchedRule, editing, setValue, getValues]);
+
+  // What the allocation rules would sweep into goals if this entry were saved now
+  const allocationPreview = useMemo(
+    () => getAllocations({ amount: Number(watchedAmount) || 0, category: String(watchedCategory || '') }, allocationRules, goals),
+    [watchedAmount, watchedCategory, allocationRules, goals]
+  );
   
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
 
   const mutation = useMutation({
     mutationFn: async (data: FormData & { attachment_url?: string }) => {
-      const { error } = await supabase.from('assetflow_income').insert([{
-        user_id: user?.id,
+      const splits = data.splits?.length ? data.splits : null;
+      const category = splits ? getPrimaryCategory(splits) : data.category;
+      const fields = {
         title: data.title,
         amount: data.amount,
         date_received: data.date_received,
-        category: data.category,
+        category,
+        splits,
+        account_id: data.account_id && data.account_id !== 'NONE' ? data.account_id : null,
         notes: data.notes,
+      };
+
+      // An edit keeps the existing attachment unless a new file was picked
+      if (editing) {
+        await updateTransaction(editing.id, 'INCOME', data.attachment_url ? { ...fields, attachment_url: data.attachment_url } : fields);
+        return;
+      }
+
+      const { data: income, error } = await supabase.from('assetflow_income').insert([{
+        user_id: user?.id,
+        ...fields,
+        tags: matchedRule?.tags || null,
         attachment_url: data.attachment_url
-      }]);
+      }]).select('id').single();
       if (error) throw error;
+
+      if (applyRules) {
+        await saveIncomeAllocations(income.id, data.date_received, getAllocations({ amount: data.amount, category }, allocationRules, goals));
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['assetflow_income'] });
-      setIsAdding(false);
-      reset();
-      setSelectedFile(null);
+      queryClient.invalidateQueries({ queryKey: ['assetflow_assets'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_goals'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_goal_contributions'] });
+      closeForm();
     }
   });
 
   const deleteMutation = useMutation({
     mutationFn: (id: string) => deleteTransaction(id, 'INCOME'),
-    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_income'] })
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_income'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_assets'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_goals'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_goal_contributions'] });
+    }
   });
 
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditing(null);
+    setIsSplitting(false);
+    reset({});
+    setSelectedFile(null);
+  };
+
+  const startEdit = (item: Transaction) => {
+    setIsAdding(true);
+    setEditing(item);
+    setIsSplitting(isSplit(item));
+    reset({
+      title: item.title,
+      amount: item.amount,
+      date_received: item.date,
+      category: item.category,
+      notes: item.notes || '',
+      splits: item.splits || [],
+      account_id: item.account_id || 'NONE',
+    });
+  };
+
   const onSubmit = async (data: FormData) => {
     let attachmentPath = undefined;
     if (selectedFile && user) {
@@ -74,6 +167,14 @@ const Income: React.FC = () => {
     mutation.mutate({ ...data, attachment_url: attachmentPath });
   };
 
+  // Starts a split with the current category and amount as the first line
+  const toggleSplit = (on: boolean) => {
+    setIsSplitting(on);
+    setValue('splits', on
+      ? [{ category: getValues('category') || '', amount: Number(watchedAmount) || '', notes: '' }, { category: '', amount: '', notes: '' }]
+      : []);
+  };
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
       setSelectedFile(e.target.files[0]);
@@ -90,14 +191,14 @@ const Income: React.FC = () => {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold text-gray-900">Income</h1>
-        <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'secondary' : 'primary'}>
+        <Button onClick={() => isAdding ? closeForm() : setIsAdding(true)} variant={isAdding ? 'secondary' : 'primary'}>
           {isAdding ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> Add Income</>}
         </Button>
       </div>
 
       {isAdding && (
         <Card className="p-6 animate-in slide-in-from-top-4 duration-200">
-          <h2 className="text-lg font-semibold mb-4">New Income Entry</h2>
+          <h2 className="text-lg font-semibold mb-4">{editing ? `Edit ${editing.title}` : 'New Income Entry'}</h2>
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Input label="Title" {...register('title')} error={errors.title?.message} placeholder="e.g. Salary, Project X" />
@@ -105,23 +206,89 @@ const Income: React.FC = () => {
             </div>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <Input label="Date Received" type="date" {...register('date_received')} error={errors.date_received?.message} />
-              <Select 
-                label="Category" 
-                options={INCOME_CATEGORIES.map(c => ({ label: c, value: c }))} 
-                {...register('category')} 
-                error={errors.category?.message} 
-              />
+              {!isSplitting && (
+                <Select 
+                  label="Category" 
+                  options={getCategoryOptions(categories, 'INCOME')} 
+                  {...register('category')} 
+                  error={errors.category?.message} 
+                />
+              )}
             </div>
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                checked={isSplitting}
+                onChange={(e) => toggleSplit(e.target.checked)}
+              />
+              Split across categories
+            </label>
+            {isSplitting && (
+              <SplitEditor
+                control={control}
+                register={register}
+                categoryOptions={getCategoryOptions(categories, 'INCOME')}
+                total={Number(watchedAmount) || 0}
+                error={errors.splits?.message as string}
+              />
+            )}
+            {accounts.length > 0 && (
+              <Select
+                label="Paid Into"
+                options={[{ label: 'No account', value: 'NONE' }, ...accounts.map(a => ({ label: a.name, value: a.id }))]}
+                defaultValue="NONE"
+                {...register('account_id')}
+              />
+            )}
             <Input label="Notes (Optional)" {...register('notes')} placeholder="Additional details..." />
+            {matchedRule && !editing && (
+              <p className="flex items-center gap-1 text-xs text-gray-500">
+                <Wand2 size={12} /> Filled in by a rule{matchedRule.tags && matchedRule.tags.length > 0 && <> · tags {matchedRule.tags.join(', ')}</>}
+              </p>
+            )}
             
             <div className="space-y-1">
-              <label className="block text-sm font-medium text-gray-700">Attachment (Optional)</label>
+              <label className="block text-sm font-medium text-gray-700">{editing?.attachment_url ? 'Replace Attachment (Optional)' : 'Attachment (Optional)'}</label>
               <input type="file" onChange={handleFileChange} className="block w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-md file:border-0 file:text-sm file:font-semibold file:bg-primary-50 file:text-primary-700 hover:file:bg-primary-100"/>
             </div>
 
+            {editing && (
+              <p className="text-xs text-gray-500">Goal allocations made when this entry was first saved aren't changed by editing it.</p>
+            )}
+
+            {!editing && allocationRules.some(r => !r.paused) && (
+              <div className="rounded-lg border bg-gray-50 p-4 text-sm">
+                <label className="flex items-center gap-2 font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                    checked={applyRules}
+                    onChange={(e) => setApplyRules(e.target.checked)}
+                  />
+                  <Shuffle size={14} /> Apply allocation rules
+                </label>
+                {applyRules && (
+                  allocationPreview.length > 0 ? (
+                    <ul className="mt-2 space-y-1">
+                      {allocationPreview.map(a => (
+                        <li key={a.rule.id} className="flex justify-between text-gray-600">
+                          <span>Into {a.goal.name}</span>
+                          <span className="font-medium text-green-600">${a.amount.toFixed(2)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="mt-2 text-gray-400">No rules match this entry yet.</p>
+                  )
+                )}
+              </div>
+            )}
+
             <div className="flex justify-end pt-2">
-              <Button type="submit" isLoading={mutation.isPending || uploading}>Save Entry</Button>
+              <Button type="submit" isLoading={mutation.isPending || uploading}>{editing ? 'Save Changes' : 'Save Entry'}</Button>
             </div>
+            {mutation.error && <p className="text-sm text-red-600">{mutation.error.message}</p>}
           </form>
         </Card>
       )}
@@ -149,11 +316,30 @@ const Income: React.FC = () => {
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {format(new Date(item.date), 'MMM d, yyyy')}
                     </td>
-                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">{item.title}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {item.title}
+                      {item.account_id && (
+                        <p className="text-xs text-gray-400 font-normal">{accounts.find(a => a.id === item.account_id)?.name}</p>
+                      )}
+                      {item.tags && item.tags.length > 0 && (
+                        <div className="flex gap-1 mt-1">
+                          {item.tags.map(tag => <span key={tag} className="px-1.5 text-xs rounded bg-gray-100 text-gray-600 font-normal">{tag}</span>)}
+                        </div>
+                      )}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                      <span className="px-2 inline-flex text-xs leading-5 font-semibold rounded-full bg-green-100 text-green-800">
-                        {item.category}
-                      </span>
+                      {isSplit(item) ? (
+                        <div className="flex flex-col items-start gap-1">
+                          {item.splits!.map((line, i) => (
+                            <span key={i} className="flex items-center gap-2">
+                              <CategoryBadge name={line.category} kind="INCOME" categories={categories} />
+                              <span className="text-xs">${line.amount.toFixed(2)}</span>
+                            </span>
+                          ))}
+                        </div>
+                      ) : (
+                        <CategoryBadge name={item.category} kind="INCOME" categories={categories} />
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 font-semibold">
                       ${item.amount.toFixed(2)}
@@ -164,17 +350,28 @@ const Income: React.FC = () => {
                           <FileText size={18} />
                         </button>
                       )}
-                      <button 
-                        onClick={() => {
-                          if(confirm('Are you sure you want to delete this entry?')) {
-                            deleteMutation.mutate(item.id);
-                          }
-                        }}
-                        className="text-red-600 hover:text-red-900"
-                        title="Delete"
-                      >
-                        <Trash2 size={18} />
-                      </button>
+                      {item.reconciliation_id ? (
+                        <span className="text-gray-300" title="Reconciled transactions are locked">
+                          <Lock size={18} />
+                        </span>
+                      ) : (
+                        <>
+                          <button onClick={() => startEdit(item)} className="text-gray-400 hover:text-gray-900" title="Edit">
+                            <Pencil size={18} />
+                          </button>
+                          <button 
+                            onClick={() => {
+                              if(confirm('Are you sure you want to delete this entry?')) {
+                                deleteMutation.mutate(item.id);
+                              }
+                            }}
+                            className="text-red-600 hover:text-red-900"
+                            title="Delete"
+                          >
+                            <Trash2 size={18} />
+                          </button>
+                        </>
+                      )}
                     </td>
                   </tr>
                 ))}
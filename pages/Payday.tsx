@@ -4,28 +4,37 @@ import { useForm, useWatch } from 'react-hook-form';
 import { z } from 'zod';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { supabase } from '../lib/supabase';
-import { fetchPaydays, deletePayday } from '../services/data';
+import { fetchPaydays, deletePayday, updatePayday } from '../services/data';
 import { Button, Input, Select, Card } from '../components/UI';
 import { useAuth } from '../context/AuthContext';
-import { format, addWeeks, addMonths, addDays, addYears } from 'date-fns';
-import { CalendarDays } from 'lucide-react';
-import { Frequency } from '../types';
+import { format } from 'date-fns';
+import { CalendarDays, Plus, X, Trash2, Pencil } from 'lucide-react';
+import { Payday as PaydayRecord } from '../types';
+import { BUSINESS_DAY_RULE_OPTIONS, HOLIDAY_CALENDAR_OPTIONS } from '../lib/holidays';
+import { FREQUENCY_OPTIONS, describeSchedule, getMonthlyEquivalent, getNextDates, isValidSchedule, normalizeRRule } from '../lib/recurrence';
+import { DEDUCTION_FIELDS, getNetPay, getTotalDeductions } from '../lib/pay';
 
 const schema = z.object({
-  frequency: z.enum(['WEEKLY', 'FORTNIGHTLY', 'MONTHLY', 'YEARLY', 'EVERY_X_DAYS', 'SPECIFIC_DAY']),
+  name: z.string().min(2, 'Name is required'),
+  gross_amount: z.coerce.number().positive('Gross pay must be positive'),
+  net_amount: z.coerce.number().min(0, 'Net pay cannot be negative').optional(),
+  tax: z.coerce.number().min(0).optional(),
+  national_insurance: z.coerce.number().min(0).optional(),
+  pension: z.coerce.number().min(0).optional(),
+  student_loan: z.coerce.number().min(0).optional(),
+  other_deductions: z.coerce.number().min(0).optional(),
+  frequency: z.enum(['WEEKLY', 'FORTNIGHTLY', 'MONTHLY', 'YEARLY', 'EVERY_X_DAYS', 'SPECIFIC_DAY', 'RRULE']),
   custom_value: z.coerce.number().optional(),
+  rrule: z.string().optional(),
   next_payday_date: z.string().min(1, 'Date is required'),
-}).refine(data => {
-  if (data.frequency === 'EVERY_X_DAYS' && (!data.custom_value || data.custom_value < 1)) {
-    return false;
-  }
-  if (data.frequency === 'SPECIFIC_DAY' && (!data.custom_value || data.custom_value < 1 || data.custom_value > 31)) {
-    return false;
-  }
-  return true;
-}, {
-  message: "Invalid custom value for selected frequency",
-  path: ["custom_value"],
+  business_day_rule: z.enum(['NONE', 'PREVIOUS', 'NEXT']),
+  holiday_calendar: z.enum(['NONE', 'ENGLAND_WALES', 'SCOTLAND', 'US_FEDERAL']),
+}).refine(isValidSchedule, data => ({
+  message: data.frequency === 'RRULE' ? 'Invalid recurrence rule' : 'Invalid custom value for selected frequency',
+  path: [data.frequency === 'RRULE' ? 'rrule' : 'custom_value'],
+})).refine(data => getNetPay(data) <= data.gross_amount, {
+  message: 'Net pay cannot be more than gross pay',
+  path: ['net_amount'],
 });
 
 type FormData = z.infer<typeof schema>;
@@ -34,31 +43,37 @@ const Payday: React.FC = () => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [isAdding, setIsAdding] = useState(false);
+  const [editing, setEditing] = useState<PaydayRecord | null>(null);
   
   const { data: paydays = [], isLoading } = useQuery({ 
     queryKey: ['assetflow_paydays'], 
     queryFn: fetchPaydays 
   });
 
-  const { register, handleSubmit, reset, control, formState: { errors } } = useForm({
+  const { register, handleSubmit, reset, control, formState: { errors } } = useForm<FormData>({
     resolver: zodResolver(schema),
-    defaultValues: { frequency: 'MONTHLY' }
+    defaultValues: { frequency: 'MONTHLY', business_day_rule: 'PREVIOUS', holiday_calendar: 'NONE' }
   });
 
   const selectedFrequency = useWatch({ control, name: 'frequency' });
 
   const mutation = useMutation({
     mutationFn: async (data: FormData) => {
+      if (editing) {
+        await updatePayday(editing.id, { ...data, net_amount: getNetPay(data), rrule: normalizeRRule(data) });
+        return;
+      }
       const { error } = await supabase.from('assetflow_paydays').insert([{
         user_id: user?.id,
-        ...data
+        ...data,
+        net_amount: getNetPay(data),
+        rrule: normalizeRRule(data)
       }]);
       if (error) throw error;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['assetflow_paydays'] });
-      setIsAdding(false);
-      reset();
+      closeForm();
     }
   });
 
@@ -67,62 +82,81 @@ const Payday: React.FC = () => {
     onSuccess: () => queryClient.invalidateQueries({ queryKey: ['assetflow_paydays'] })
   });
 
-  const getFutureDates = (dateStr: string, freq: Frequency, customVal?: number, count: number = 4) => {
-    let date = new Date(dateStr);
-    const dates = [];
-    for (let i = 0; i < count; i++) {
-      dates.push(date);
-      if (freq === 'WEEKLY') date = addWeeks(date, 1);
-      else if (freq === 'FORTNIGHTLY') date = addWeeks(date, 2);
-      else if (freq === 'MONTHLY') date = addMonths(date, 1);
-      else if (freq === 'YEARLY') date = addYears(date, 1);
-      else if (freq === 'EVERY_X_DAYS' && customVal) date = addDays(date, customVal);
-      else if (freq === 'SPECIFIC_DAY' && customVal) {
-        date = addMonths(date, 1);
-        const daysInMonth = new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
-        date.setDate(Math.min(customVal, daysInMonth));
-      }
-    }
-    return dates;
+  const closeForm = () => {
+    setIsAdding(false);
+    setEditing(null);
+    reset();
   };
 
-  const getReadableFrequency = (pd: any) => {
-    if (pd.frequency === 'EVERY_X_DAYS') return `Every ${pd.custom_value} days`;
-    if (pd.frequency === 'SPECIFIC_DAY') return `On the ${pd.custom_value}${getOrdinal(pd.custom_value)} of every month`;
-    return pd.frequency.toLowerCase();
+  const startEdit = (pd: PaydayRecord) => {
+    setIsAdding(true);
+    setEditing(pd);
+    reset({
+      name: pd.name || '',
+      gross_amount: pd.gross_amount,
+      // A net figure worked out from the deductions is left blank so it follows them when they change
+      net_amount: getTotalDeductions(pd) > 0 && pd.net_amount === getNetPay({ ...pd, net_amount: undefined }) ? undefined : pd.net_amount,
+      tax: pd.tax,
+      national_insurance: pd.national_insurance,
+      pension: pd.pension,
+      student_loan: pd.student_loan,
+      other_deductions: pd.other_deductions,
+      frequency: pd.frequency,
+      custom_value: pd.custom_value,
+      rrule: pd.rrule || '',
+      next_payday_date: pd.next_payday_date,
+      business_day_rule: pd.business_day_rule || 'NONE',
+      holiday_calendar: pd.holiday_calendar || 'NONE',
+    });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const getOrdinal = (n: number) => {
-    const s = ["th", "st", "nd", "rd"];
-    const v = n % 100;
-    return s[(v - 20) % 10] || s[v] || s[0];
-  };
+  const totalMonthlyNet = paydays.reduce(
+    (sum, pd) => sum + getMonthlyEquivalent(getNetPay(pd), pd, pd.next_payday_date),
+    0
+  );
 
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold text-gray-900">Payday Schedule</h1>
-        {paydays.length === 0 && (
-          <Button onClick={() => setIsAdding(!isAdding)} variant="primary">
-            {isAdding ? 'Cancel' : 'Set Schedule'}
-          </Button>
-        )}
+        <Button onClick={() => isAdding ? closeForm() : setIsAdding(true)} variant={isAdding ? 'secondary' : 'primary'}>
+          {isAdding ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> Add Pay Stream</>}
+        </Button>
       </div>
 
+      {paydays.length > 1 && (
+        <Card className="p-6 flex justify-between items-center">
+          <div>
+            <p className="text-sm font-medium text-gray-500">Combined Take-Home Pay</p>
+            <p className="text-xs text-gray-400">{paydays.length} income streams, monthly average</p>
+          </div>
+          <span className="text-2xl font-bold text-green-600">${totalMonthlyNet.toFixed(2)}</span>
+        </Card>
+      )}
+
       {isAdding && (
         <Card className="p-6 max-w-lg mx-auto">
-          <h2 className="text-lg font-semibold mb-4">Set Payday Routine</h2>
-          <form onSubmit={handleSubmit((d) => mutation.mutate(d as FormData))} className="space-y-4">
+          <h2 className="text-lg font-semibold mb-4">{editing ? `Edit ${editing.name || 'Payday'}` : 'Set Payday Routine'}</h2>
+          <form onSubmit={handleSubmit((d) => mutation.mutate(d))} className="space-y-4">
+            <Input label="Employer / Job" {...register('name')} error={errors.name?.message} placeholder="e.g. Acme Ltd, Weekend Bar Job" />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input label="Gross Pay" type="number" step="0.01" {...register('gross_amount')} error={errors.gross_amount?.message} />
+              <Input label="Net Pay (Optional)" type="number" step="0.01" {...register('net_amount')} error={errors.net_amount?.message} placeholder="Gross minus deductions" />
+            </div>
+
+            <details className="text-sm">
+              <summary className="cursor-pointer font-medium text-gray-700">Deductions (Optional)</summary>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+                {DEDUCTION_FIELDS.map(field => (
+                  <Input key={field.key} label={field.label} type="number" step="0.01" {...register(field.key)} error={errors[field.key]?.message} />
+                ))}
+              </div>
+            </details>
+
             <Select 
               label="How often do you get paid?" 
-              options={[
-                { label: 'Weekly', value: 'WEEKLY' },
-                { label: 'Fortnightly', value: 'FORTNIGHTLY' },
-                { label: 'Monthly', value: 'MONTHLY' },
-                { label: 'Yearly', value: 'YEARLY' },
-                { label: 'Every X Days', value: 'EVERY_X_DAYS' },
-                { label: 'Specific Day of Month', value: 'SPECIFIC_DAY' },
-              ]} 
+              options={FREQUENCY_OPTIONS} 
               {...register('frequency')} 
               error={errors.frequency?.message} 
             />
@@ -146,38 +180,110 @@ const Payday: React.FC = () => {
                />
             )}
 
+            {selectedFrequency === 'RRULE' && (
+               <Input 
+                 label="Recurrence Rule (e.g. FREQ=MONTHLY;BYDAY=-1FR)" 
+                 {...register('rrule')} 
+                 error={errors.rrule?.message} 
+               />
+            )}
+
             <Input label="Next Payday Date" type="date" {...register('next_payday_date')} error={errors.next_payday_date?.message} />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select 
+                label="If it falls on a weekend or holiday" 
+                options={BUSINESS_DAY_RULE_OPTIONS} 
+                {...register('business_day_rule')} 
+                error={errors.business_day_rule?.message} 
+              />
+              <Select 
+                label="Holiday Calendar" 
+                options={HOLIDAY_CALENDAR_OPTIONS} 
+                {...register('holiday_calendar')} 
+                error={errors.holiday_calendar?.message} 
+              />
+            </div>
             
             <div className="flex justify-end">
-              <Button type="submit" isLoading={mutation.isPending}>Save Schedule</Button>
+              <Button type="submit" isLoading={mutation.isPending}>{editing ? 'Save Changes' : 'Save Schedule'}</Button>
             </div>
+            {mutation.error && <p className="text-sm text-red-600">{mutation.error.message}</p>}
           </form>
         </Card>
       )}
 
-      {paydays.map(pd => (
-        <Card key={pd.id} className="p-8 text-center bg-gradient-to-br from-white to-blue-50">
-           <CalendarDays size={48} className="mx-auto text-primary-500 mb-4" />
-           <h3 className="text-2xl font-bold text-gray-900 mb-2">
-             You are paid <span className="text-primary-600">{getReadableFrequency(pd)}</span>
-           </h3>
-           <p className="text-gray-500 mb-6">Next payday is {format(new Date(pd.next_payday_date), 'EEEE, MMMM do, yyyy')}</p>
-           
-           <div className="max-w-md mx-auto bg-white rounded-lg p-4 shadow-sm border mb-6">
-              <h4 className="text-sm font-semibold text-gray-700 mb-3 text-left">Projected Dates</h4>
-              <div className="space-y-2">
-                {getFutureDates(pd.next_payday_date, pd.frequency, pd.custom_value).map((d, i) => (
-                  <div key={i} className="flex justify-between text-sm text-gray-600 border-b last:border-0 pb-1 last:pb-0">
-                    <span>Payday #{i + 1}</span>
-                    <span className="font-medium">{format(d, 'MMM d, yyyy')}</span>
+      {paydays.map(pd => {
+        const upcoming = getNextDates(pd.next_payday_date, pd, 4);
+        return (
+          <Card key={pd.id} className="p-8 text-center bg-gradient-to-br from-white to-blue-50">
+             <CalendarDays size={48} className="mx-auto text-primary-500 mb-4" />
+             {pd.name && <p className="text-sm font-semibold uppercase tracking-wide text-gray-500 mb-1">{pd.name}</p>}
+             <h3 className="text-2xl font-bold text-gray-900 mb-2">
+               You are paid <span className="text-primary-600">{describeSchedule(pd)}</span>
+             </h3>
+             <p className="text-gray-500 mb-6">
+               {upcoming.length
+                 ? `Next payday is ${format(upcoming[0], 'EEEE, MMMM do, yyyy')}`
+                 : 'This pay schedule has ended. There are no more paydays.'}
+             </p>
+
+             {!!pd.gross_amount && (
+               <div className="max-w-md mx-auto bg-white rounded-lg p-4 shadow-sm border mb-6 text-sm">
+                 <div className="flex justify-between text-gray-600">
+                   <span>Gross Pay</span>
+                   <span className="font-medium">${pd.gross_amount.toFixed(2)}</span>
+                 </div>
+                 {DEDUCTION_FIELDS.filter(field => pd[field.key]).map(field => (
+                   <div key={field.key} className="flex justify-between text-gray-500">
+                     <span>{field.label}</span>
+                     <span>-${pd[field.key]!.toFixed(2)}</span>
+                   </div>
+                 ))}
+                 {getTotalDeductions(pd) === 0 && getNetPay(pd) < pd.gross_amount && (
+                   <div className="flex justify-between text-gray-500">
+                     <span>Deductions</span>
+                     <span>-${(pd.gross_amount - getNetPay(pd)).toFixed(2)}</span>
+                   </div>
+                 )}
+                 <div className="flex justify-between border-t mt-2 pt-2 font-semibold text-gray-900">
+                   <span>Take-Home Pay</span>
+                   <span className="text-green-600">${getNetPay(pd).toFixed(2)}</span>
+                 </div>
+               </div>
+             )}
+
+             {upcoming.length > 0 && (
+               <div className="max-w-md mx-auto bg-white rounded-lg p-4 shadow-sm border mb-6">
+                  <h4 className="text-sm font-semibold text-gray-700 mb-3 text-left">Projected Dates</h4>
+                  <div className="space-y-2">
+                    {upcoming.map((d, i) => (
+                      <div key={i} className="flex justify-between text-sm text-gray-600 border-b last:border-0 pb-1 last:pb-0">
+                        <span>Payday #{i + 1}</span>
+                        <span className="font-medium">{format(d, 'MMM d, yyyy')}</span>
+                      </div>
+                    ))}
                   </div>
-                ))}
-              </div>
-           </div>
+               </div>
+             )}
 
-           <Button variant="danger" onClick={() => deleteMutation.mutate(pd.id)}>Reset Schedule</Button>
-        </Card>
-      ))}
+             <div className="flex justify-center gap-2">
+               <Button variant="secondary" onClick={() => startEdit(pd)}>
+                 <Pencil size={16} className="mr-1" /> Edit
+               </Button>
+               <Button variant="danger" onClick={() => { if (confirm('Remove this pay stream?')) deleteMutation.mutate(pd.id) }}>
+                 <Trash2 size={16} className="mr-1" /> Remove
+               </Button>
+             </div>
+          </Card>
+        );
+      })}
+
+      {!isLoading && paydays.length === 0 && !isAdding && (
+        <div className="p-8 text-center text-gray-500 border-2 border-dashed rounded-xl">
+          No paydays set up yet. Add each job or income stream separately.
+        </div>
+      )}
     </div>
   );
 };
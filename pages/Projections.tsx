@@ -1,168 +1,289 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { fetchTransactions, fetchBenefits, fetchRecurringExpenses } from '../services/data';
-import { Card } from '../components/UI';
-import { AreaChart, Area, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
-import { format, addMonths } from 'date-fns';
+import { fetchAssets, fetchBenefits, fetchCategories, fetchPaydays, fetchRecurringExpenses, fetchScenarios, fetchTransactions, fetchPriceChanges, fetchDebts } from '../services/data';
+import { Card, Input } from '../components/UI';
+import { ScenarioPanel } from '../components/ScenarioPanel';
+import { ComposedChart, Area, Line, Legend, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid, ReferenceLine } from 'recharts';
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { HORIZON_OPTIONS, getCashOnHand, simulateCashFlow, toCashFlowStreams } from '../lib/cashflow';
+import { applyScenario } from '../lib/scenarios';
+import { rollUpByParent } from '../lib/categories';
+import { getCategoryLines } from '../lib/splits';
+import { toDate } from '../lib/recurrence';
+
+const SCENARIO_COLORS = ['#f97316', '#8b5cf6', '#22c55e', '#ec4899', '#eab308'];
+
+// Full months of history averaged for the category comparison
+const HISTORY_MONTHS = 3;
 
 const Projections: React.FC = () => {
-  const { data: income = [] } = useQuery({ queryKey: ['assetflow_income'], queryFn: () => fetchTransactions('INCOME') });
-  const { data: expenses = [] } = useQuery({ queryKey: ['assetflow_expenses'], queryFn: () => fetchTransactions('EXPENSE') });
   const { data: benefits = [] } = useQuery({ queryKey: ['assetflow_benefits'], queryFn: fetchBenefits });
   const { data: recurringBills = [] } = useQuery({ queryKey: ['assetflow_recurring_expenses'], queryFn: fetchRecurringExpenses });
+  const { data: paydays = [] } = useQuery({ queryKey: ['assetflow_paydays'], queryFn: fetchPaydays });
+  const { data: assets = [] } = useQuery({ queryKey: ['assetflow_assets'], queryFn: fetchAssets });
+  const { data: scenarios = [] } = useQuery({ queryKey: ['assetflow_scenarios'], queryFn: fetchScenarios });
+  const { data: expenses = [] } = useQuery({ queryKey: ['assetflow_expenses'], queryFn: () => fetchTransactions('EXPENSE') });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+  const { data: priceChanges = [] } = useQuery({ queryKey: ['assetflow_price_changes'], queryFn: fetchPriceChanges });
+  const { data: debts = [] } = useQuery({ queryKey: ['assetflow_debts'], queryFn: fetchDebts });
+
+  const [horizon, setHorizon] = useState(6);
+  const [balanceInput, setBalanceInput] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  // Default the starting point to cash held in bank-type assets
+  const cashOnHand = useMemo(() => getCashOnHand(assets), [assets]);
+  const startingBalance = balanceInput === '' ? cashOnHand : Number(balanceInput) || 0;
+
+  const streams = useMemo(
+    () => toCashFlowStreams(paydays, benefits, recurringBills, priceChanges, debts),
+    [paydays, benefits, recurringBills, priceChanges, debts]
+  );
+
+  const projection = useMemo(
+    () => simulateCashFlow(streams, startingBalance, horizon),
+    [streams, startingBalance, horizon]
+  );
+
+  const comparisons = useMemo(
+    () => scenarios
+      .filter(s => compareIds.includes(s.id))
+      .map(scenario => ({ scenario, projection: simulateCashFlow(applyScenario(streams, scenario), startingBalance, horizon) })),
+    [scenarios, compareIds, streams, startingBalance, horizon]
+  );
+
+  const chartData = useMemo(
+    () => projection.days.map((d, i) => {
+      const point: Record<string, string | number> = { date: format(d.date, 'MMM d, yyyy'), Balance: Number(d.balance.toFixed(2)) };
+      comparisons.forEach(c => { point[c.scenario.id] = Number(c.projection.days[i].balance.toFixed(2)); });
+      return point;
+    }),
+    [projection, comparisons]
+  );
+
+  // Scheduled bills per month over the horizon next to what was actually spent recently, by top-level category
+  const categoryOutlook = useMemo(() => {
+    const thisMonth = startOfMonth(new Date());
+    const from = subMonths(thisMonth, HISTORY_MONTHS);
+    const recentLines = getCategoryLines(expenses.filter(e => toDate(e.date) >= from && toDate(e.date) < thisMonth));
+    const recent = rollUpByParent(recentLines, categories, 'EXPENSE');
+
+    const billLines = projection.days
+      .flatMap(d => d.events)
+      .filter(e => e.amount < 0)
+      .map(e => ({ category: e.stream.category || 'Other', amount: -e.amount }));
+    const scheduled = rollUpByParent(billLines, categories, 'EXPENSE');
+
+    const names = Array.from(new Set([...recent.map(t => t.name), ...scheduled.map(t => t.name)]));
+    return names
+      .map(name => {
+        const past = recent.find(t => t.name === name);
+        const ahead = scheduled.find(t => t.name === name);
+        return {
+          name,
+          color: (past || ahead)!.color,
+          recent: (past?.amount || 0) / HISTORY_MONTHS,
+          scheduled: (ahead?.amount || 0) / horizon,
+        };
+      })
+      .sort((a, b) => Math.max(b.recent, b.scheduled) - Math.max(a.recent, a.scheduled));
+  }, [expenses, categories, projection, horizon]);
 
-  const projectionData = useMemo(() => {
-    // 1. Calculate Historical Average (Variable Spending)
-    // We assume recurring bills handle fixed costs. 
-    // If recurring bills exist, we try not to double count. 
-    // For simplicity in this version, we take the average of all historical expenses 
-    // but if recurring bills are > 0, we treat historical avg as just 'variable' (maybe 50% of history? or full history + recurring?)
-    // Best Approach for Flip Value: Show the user the power of the "Upcoming Bills" feature.
-    
-    // Logic: Projected Expense = (Sum of Recurring Bills per month) + (Average Historical Expense * 0.2 buffer)
-    // If no recurring bills, use Full Historical Average.
-    
-    const totalHistoryExpenses = expenses.reduce((acc, curr) => acc + curr.amount, 0);
-    const avgHistoryExpense = totalHistoryExpenses / (expenses.length > 0 ? 3 : 1); // Mock 3 month divisor
-
-    // 2. Calculate Monthly Value of Recurring Bills
-    const monthlyFixedCosts = recurringBills.reduce((acc, bill) => {
-      let monthlyVal = 0;
-      switch(bill.frequency) {
-        case 'WEEKLY': monthlyVal = (bill.amount * 52) / 12; break;
-        case 'FORTNIGHTLY': monthlyVal = (bill.amount * 26) / 12; break;
-        case 'MONTHLY': 
-        case 'SPECIFIC_DAY': monthlyVal = bill.amount; break;
-        case 'YEARLY': monthlyVal = bill.amount / 12; break;
-        case 'EVERY_X_DAYS':
-          const days = bill.custom_value || 30;
-          monthlyVal = (bill.amount * 365) / days / 12;
-          break;
-        default: monthlyVal = 0;
-      }
-      return acc + monthlyVal;
-    }, 0);
-
-    // Final Expense Projection Logic
-    let projectedMonthlyExpense = 0;
-    if (monthlyFixedCosts > 0) {
-      // If we have bills set up, assume history is mostly variable spending (food, etc)
-      // We'll add 50% of history avg as variable spending to the fixed costs
-      projectedMonthlyExpense = monthlyFixedCosts + (avgHistoryExpense * 0.5);
-    } else {
-      // Fallback if no bills set up
-      projectedMonthlyExpense = avgHistoryExpense > 0 ? avgHistoryExpense : 1500;
-    }
-
-    // 3. Calculate Recurring Income (Benefits)
-    const monthlyBenefits = benefits.reduce((acc, b) => {
-      let monthlyValue = 0;
-      switch(b.frequency) {
-        case 'WEEKLY': monthlyValue = (b.amount * 52) / 12; break;
-        case 'FORTNIGHTLY': monthlyValue = (b.amount * 26) / 12; break;
-        case 'MONTHLY':
-        case 'SPECIFIC_DAY': monthlyValue = b.amount; break;
-        case 'YEARLY': monthlyValue = b.amount / 12; break;
-        case 'EVERY_X_DAYS':
-          const days = b.custom_value || 1;
-          monthlyValue = (b.amount * 365) / days / 12;
-          break;
-        default: monthlyValue = 0;
-      }
-      return acc + monthlyValue;
-    }, 0);
-
-    // 4. Project for next 6 months
-    const data = [];
-    let currentSavings = 0; 
-    const now = new Date();
-
-    for (let i = 0; i < 6; i++) {
-      const monthDate = addMonths(now, i);
-      const monthLabel = format(monthDate, 'MMM yyyy');
-      
-      const projectedIncome = monthlyBenefits + 2000; // Base salary assumption if no data
-      const net = projectedIncome - projectedMonthlyExpense;
-      currentSavings += net;
-
-      data.push({
-        month: monthLabel,
-        Income: projectedIncome,
-        Expenses: projectedMonthlyExpense,
-        Savings: currentSavings
-      });
-    }
-    return data;
-  }, [income, expenses, benefits, recurringBills]);
+  const toggleCompare = (id: string) =>
+    setCompareIds(ids => (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
 
   return (
     <div className="space-y-6">
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-gray-900">Financial Projections</h1>
-        <p className="text-gray-500">Estimated growth over the next 6 months based on Recurring Bills and Income.</p>
+      <div className="flex flex-col md:flex-row justify-between items-start md:items-end gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Financial Projections</h1>
+          <p className="text-gray-500">Day-by-day balance based on your paydays, benefits and recurring bills.</p>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-end">
+          <div className="w-48">
+            <Input
+              label="Starting Balance"
+              type="number"
+              step="0.01"
+              value={balanceInput}
+              placeholder={cashOnHand.toFixed(2)}
+              onChange={(e) => setBalanceInput(e.target.value)}
+            />
+          </div>
+          <div className="flex bg-gray-100 p-1 rounded-lg">
+            {HORIZON_OPTIONS.map(months => (
+              <button
+                key={months}
+                onClick={() => setHorizon(months)}
+                className={`px-4 py-2 text-sm font-medium rounded-md transition-all ${
+                  horizon === months ? 'bg-white text-primary-600 shadow-sm' : 'text-gray-500 hover:text-gray-900'
+                }`}
+              >
+                {months}M
+              </button>
+            ))}
+          </div>
+        </div>
       </div>
 
       <Card className="p-6 h-[400px]">
-        <h3 className="text-lg font-semibold mb-4">Projected Savings Growth</h3>
+        <h3 className="text-lg font-semibold mb-4">Projected Balance</h3>
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart data={projectionData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+          <ComposedChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 20 }}>
             <defs>
-              <linearGradient id="colorSavings" x1="0" y1="0" x2="0" y2="1">
+              <linearGradient id="colorBalance" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor="#0ea5e9" stopOpacity={0.8}/>
                 <stop offset="95%" stopColor="#0ea5e9" stopOpacity={0}/>
               </linearGradient>
             </defs>
-            <XAxis dataKey="month" />
+            <XAxis dataKey="date" minTickGap={40} />
             <YAxis />
             <CartesianGrid strokeDasharray="3 3" vertical={false} />
-            <Tooltip />
-            <Area type="monotone" dataKey="Savings" stroke="#0ea5e9" fillOpacity={1} fill="url(#colorSavings)" />
-          </AreaChart>
+            <Tooltip formatter={(value: number) => `$${value.toLocaleString()}`} />
+            <ReferenceLine y={0} stroke="#ef4444" strokeDasharray="4 4" />
+            <Area type="stepAfter" dataKey="Balance" name="Baseline" stroke="#0ea5e9" fillOpacity={1} fill="url(#colorBalance)" />
+            {comparisons.map((c, i) => (
+              <Line key={c.scenario.id} type="stepAfter" dataKey={c.scenario.id} name={c.scenario.name} stroke={SCENARIO_COLORS[i % SCENARIO_COLORS.length]} dot={false} strokeWidth={2} />
+            ))}
+            {comparisons.length > 0 && <Legend />}
+          </ComposedChart>
         </ResponsiveContainer>
       </Card>
 
+      {comparisons.length > 0 && (
+        <Card className="overflow-hidden">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scenario</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Closing Balance</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Lowest Point</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">vs Baseline</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                <tr>
+                  <td className="px-6 py-4 font-medium text-gray-900">Baseline</td>
+                  <td className="px-6 py-4">${projection.closingBalance.toFixed(2)}</td>
+                  <td className="px-6 py-4">${projection.lowest.balance.toFixed(2)} on {format(projection.lowest.date, 'MMM d')}</td>
+                  <td className="px-6 py-4 text-gray-400">-</td>
+                </tr>
+                {comparisons.map(c => {
+                  const diff = c.projection.closingBalance - projection.closingBalance;
+                  return (
+                    <tr key={c.scenario.id}>
+                      <td className="px-6 py-4 font-medium text-gray-900">{c.scenario.name}</td>
+                      <td className="px-6 py-4">${c.projection.closingBalance.toFixed(2)}</td>
+                      <td className={`px-6 py-4 ${c.projection.lowest.balance < 0 ? 'text-red-600' : ''}`}>
+                        ${c.projection.lowest.balance.toFixed(2)} on {format(c.projection.lowest.date, 'MMM d')}
+                      </td>
+                      <td className={`px-6 py-4 font-semibold ${diff >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                        {diff >= 0 ? '+' : '-'}${Math.abs(diff).toFixed(2)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
+
+      <ScenarioPanel scenarios={scenarios} streams={streams} compareIds={compareIds} onToggleCompare={toggleCompare} />
+
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <Card className="p-6">
            <h3 className="font-semibold text-gray-700 mb-4">Monthly Breakdown</h3>
            <div className="space-y-4">
-              {projectionData.map((d, i) => (
-                <div key={i} className="flex justify-between items-center text-sm border-b pb-2 last:border-0">
-                  <span className="font-medium text-gray-900">{d.month}</span>
+              {projection.months.map(m => (
+                <div key={m.label} className="flex justify-between items-center text-sm border-b pb-2 last:border-0">
+                  <div>
+                    <span className="font-medium text-gray-900">{m.label}</span>
+                    <span className={`block text-xs ${m.lowestBalance < 0 ? 'text-red-600' : 'text-gray-400'}`}>
+                      Lowest ${m.lowestBalance.toFixed(0)} on {format(m.lowestDate, 'MMM d')}
+                    </span>
+                  </div>
                   <div className="text-right">
-                    <span className="block text-green-600">+${d.Income.toFixed(0)}</span>
-                    <span className="block text-red-500">-${d.Expenses.toFixed(0)}</span>
+                    <span className="block text-green-600">+${m.income.toFixed(0)}</span>
+                    <span className="block text-red-500">-${m.expenses.toFixed(0)}</span>
+                    <span className="block text-xs text-gray-500">Closing ${m.closingBalance.toFixed(0)}</span>
                   </div>
                 </div>
               ))}
            </div>
         </Card>
-        
+
         <div className="space-y-6">
           <Card className="p-6 bg-primary-900 text-white">
-            <h3 className="font-semibold text-primary-100 mb-2">Projected 6-Month Result</h3>
+            <h3 className="font-semibold text-primary-100 mb-2">Projected {horizon}-Month Result</h3>
             <div className="mt-8 text-center">
-              <p className="text-primary-200">Estimated Total Savings</p>
+              <p className="text-primary-200">Estimated Closing Balance</p>
               <p className="text-4xl font-bold mt-2">
-                ${projectionData[projectionData.length - 1]?.Savings.toFixed(2)}
+                ${projection.closingBalance.toFixed(2)}
+              </p>
+              <p className="text-sm text-primary-200 mt-4">
+                Lowest point ${projection.lowest.balance.toFixed(2)} on {format(projection.lowest.date, 'MMM d, yyyy')}
               </p>
             </div>
           </Card>
-          
+
           <Card className="p-6">
              <h4 className="text-sm font-semibold text-gray-500 mb-2">Calculation Basis</h4>
              <ul className="text-sm text-gray-600 space-y-2">
+               <li className="flex justify-between">
+                 <span>Starting Balance:</span>
+                 <span className="font-medium">{balanceInput === '' ? 'Cash/Bank assets' : 'Entered manually'}</span>
+               </li>
+               <li className="flex justify-between">
+                 <span>Salary:</span>
+                 <span className="font-medium">{paydays.length > 0 ? `${paydays.length} pay stream${paydays.length > 1 ? 's' : ''}` : 'None set up'}</span>
+               </li>
                <li className="flex justify-between">
                  <span>Recurring Income:</span>
-                 <span className="font-medium">Active</span>
+                 <span className="font-medium">{benefits.length > 0 ? `${benefits.length} benefit${benefits.length > 1 ? 's' : ''}` : 'None'}</span>
                </li>
                <li className="flex justify-between">
                  <span>Recurring Bills:</span>
-                 <span className="font-medium">{recurringBills.length > 0 ? 'Active (Preferred)' : 'None (Using History)'}</span>
+                 <span className="font-medium">{recurringBills.length > 0 ? `${recurringBills.length} bill${recurringBills.length > 1 ? 's' : ''}` : 'None set up'}</span>
                </li>
              </ul>
           </Card>
         </div>
       </div>
+
+      {categoryOutlook.length > 0 && (
+        <Card className="overflow-hidden">
+          <div className="p-6 pb-2">
+            <h3 className="font-semibold text-gray-700">Spending by Category</h3>
+            <p className="text-sm text-gray-500">Monthly average over the last {HISTORY_MONTHS} months compared with the bills scheduled ahead.</p>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Recent / Month</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Scheduled / Month</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                {categoryOutlook.map(row => (
+                  <tr key={row.name}>
+                    <td className="px-6 py-3 font-medium text-gray-900">
+                      <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: row.color }} />
+                      {row.name}
+                    </td>
+                    <td className="px-6 py-3 text-right">${row.recent.toFixed(2)}</td>
+                    <td className="px-6 py-3 text-right">${row.scheduled.toFixed(2)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </Card>
+      )}
     </div>
   );
 };
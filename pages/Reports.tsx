@@ -1,13 +1,18 @@
 import React from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { fetchTransactions } from '../services/data';
+import { fetchTransactions, fetchCategories } from '../services/data';
+import { Transaction } from '../types';
 import { Button, Card } from '../components/UI';
+import { CategoryBreakdown } from '../components/CategoryBreakdown';
+import { getParentCategory } from '../lib/categories';
+import { getCategoryLines } from '../lib/splits';
 import { FileDown, Printer, FileSpreadsheet } from 'lucide-react';
 import { format } from 'date-fns';
 
 const Reports: React.FC = () => {
   const { data: income = [] } = useQuery({ queryKey: ['assetflow_income'], queryFn: () => fetchTransactions('INCOME') });
   const { data: expenses = [] } = useQuery({ queryKey: ['assetflow_expenses'], queryFn: () => fetchTransactions('EXPENSE') });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
 
   const downloadCSV = (data: any[], filename: string) => {
     if (!data.length) {
@@ -26,8 +31,12 @@ const Reports: React.FC = () => {
     document.body.removeChild(link);
   };
 
-  const cleanData = (data: any[]) => {
-    return data.map(({ id, user_id, attachment_url, created_at, ...rest }) => rest);
+  // One row per split line, plus the parent category so spreadsheets can group subcategories
+  const cleanData = (data: Transaction[]) => {
+    return getCategoryLines(data).map(({ id, user_id, attachment_url, created_at, splits, ...rest }) => ({
+      ...rest,
+      category_group: getParentCategory(categories, rest.type, rest.category)?.name || rest.category,
+    }));
   };
 
   return (
@@ -60,6 +69,11 @@ const Reports: React.FC = () => {
            </Button>
         </Card>
 
+        <div className="md:col-span-2 grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <CategoryBreakdown title="Spending by Category" transactions={expenses} categories={categories} kind="EXPENSE" />
+          <CategoryBreakdown title="Income by Category" transactions={income} categories={categories} kind="INCOME" />
+        </div>
+
         <Card className="p-8 text-center md:col-span-2 bg-gray-50 border-dashed border-2">
            <h3 className="text-lg font-bold text-gray-900 mb-2">Printer Friendly View</h3>
            <p className="text-sm text-gray-500 mb-6">Generate a clean browser print-out of your current dashboard stats.</p>
@@ -0,0 +1,247 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useForm, useWatch } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { supabase } from '../lib/supabase';
+import { fetchCategoryRules, deleteCategoryRule, fetchTransactions, updateTransactionCategories, fetchCategories } from '../services/data';
+import { Button, Input, Select, Card } from '../components/UI';
+import { useAuth } from '../context/AuthContext';
+import { CategoryRule, Transaction } from '../types';
+import {
+  RULE_APPLIES_TO_OPTIONS, RULE_MATCH_OPTIONS,
+  applyRule, describeCategoryRule, isValidRegex, matchesRule, parseTags
+} from '../lib/categoryRules';
+import { getCategoryOptions } from '../lib/categories';
+import { isSplit } from '../lib/splits';
+import { toDate } from '../lib/recurrence';
+import { format } from 'date-fns';
+import { Plus, X, Trash2, ArrowUp, ArrowDown, Wand2, Play } from 'lucide-react';
+
+const schema = z.object({
+  match_type: z.enum(['CONTAINS', 'REGEX']),
+  pattern: z.string().min(1, 'Pattern is required'),
+  applies_to: z.enum(['INCOME', 'EXPENSE', 'BOTH']),
+  min_amount: z.union([z.literal(''), z.coerce.number().min(0)]).optional(),
+  max_amount: z.union([z.literal(''), z.coerce.number().min(0)]).optional(),
+  category: z.string(),
+  notes: z.string().optional(),
+  tags: z.string().optional(),
+}).refine(data => data.match_type !== 'REGEX' || isValidRegex(data.pattern), {
+  message: 'Invalid regular expression',
+  path: ['pattern'],
+}).refine(data => data.category !== 'NONE' || !!data.notes || !!data.tags, {
+  message: 'A rule needs to set a category, notes or tags',
+  path: ['category'],
+});
+
+type FormData = z.infer<typeof schema>;
+
+type Change = { transaction: Transaction; updated: Transaction };
+
+const Rules: React.FC = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [isAdding, setIsAdding] = useState(false);
+  const [previewRuleId, setPreviewRuleId] = useState<string | null>(null);
+
+  const { data: rules = [], isLoading } = useQuery({ queryKey: ['assetflow_category_rules'], queryFn: fetchCategoryRules });
+  const { data: income = [] } = useQuery({ queryKey: ['assetflow_income'], queryFn: () => fetchTransactions('INCOME') });
+  const { data: expenses = [] } = useQuery({ queryKey: ['assetflow_expenses'], queryFn: () => fetchTransactions('EXPENSE') });
+  const { data: categories = [] } = useQuery({ queryKey: ['assetflow_categories'], queryFn: fetchCategories });
+
+  const { register, handleSubmit, reset, control, formState: { errors } } = useForm<FormData>({
+    resolver: zodResolver(schema),
+    defaultValues: { match_type: 'CONTAINS', applies_to: 'EXPENSE', category: 'NONE' }
+  });
+
+  // Only offer categories of the kind the rule applies to
+  const appliesTo = useWatch({ control, name: 'applies_to' });
+  const categoryOptions = [
+    { label: "Don't change", value: 'NONE' },
+    ...(appliesTo === 'BOTH'
+      ? getCategoryOptions(categories, 'EXPENSE').concat(getCategoryOptions(categories, 'INCOME'))
+        .filter((option, i, all) => all.findIndex(o => o.value === option.value) === i)
+      : getCategoryOptions(categories, appliesTo)),
+  ];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['assetflow_category_rules'] });
+
+  const mutation = useMutation({
+    mutationFn: async ({ min_amount, max_amount, category, notes, tags, ...data }: FormData) => {
+      const { error } = await supabase.from('assetflow_category_rules').insert([{
+        user_id: user?.id,
+        ...data,
+        min_amount: min_amount === '' ? null : min_amount,
+        max_amount: max_amount === '' ? null : max_amount,
+        category: category === 'NONE' ? null : category,
+        notes: notes || null,
+        tags: tags ? parseTags(tags) : null,
+        position: rules.length ? Math.max(...rules.map(r => r.position)) + 1 : 0
+      }]);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      invalidate();
+      setIsAdding(false);
+      reset();
+    }
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: async ([a, b]: [CategoryRule, CategoryRule]) => {
+      for (const [rule, position] of [[a, b.position], [b, a.position]] as const) {
+        const { error } = await supabase.from('assetflow_category_rules').update({ position }).eq('id', rule.id);
+        if (error) throw error;
+      }
+    },
+    onSuccess: invalidate
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteCategoryRule,
+    onSuccess: () => {
+      invalidate();
+      setPreviewRuleId(null);
+    }
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (changes: Change[]) => updateTransactionCategories(changes.map(c => c.updated)),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['assetflow_income'] });
+      queryClient.invalidateQueries({ queryKey: ['assetflow_expenses'] });
+      setPreviewRuleId(null);
+    }
+  });
+
+  const previewRule = rules.find(r => r.id === previewRuleId) || null;
+
+  // Existing transactions the rule matches and would actually change. Split and reconciled transactions are left as they are.
+  const changes = useMemo<Change[]>(() => {
+    if (!previewRule) return [];
+    return [...income, ...expenses]
+      .filter(t => !isSplit(t) && !t.reconciliation_id && matchesRule(previewRule, t))
+      .map(t => ({ transaction: t, updated: applyRule(t, previewRule) }))
+      .filter(({ transaction: t, updated: u }) =>
+        t.category !== u.category || t.notes !== u.notes || (t.tags || []).join() !== (u.tags || []).join());
+  }, [previewRule, income, expenses]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Categorization Rules</h1>
+          <p className="text-gray-500">Fill in category, notes and tags automatically on entry and import.</p>
+        </div>
+        <Button onClick={() => setIsAdding(!isAdding)} variant={isAdding ? 'secondary' : 'primary'}>
+          {isAdding ? <><X size={16} className="mr-2"/> Cancel</> : <><Plus size={16} className="mr-2"/> Add Rule</>}
+        </Button>
+      </div>
+
+      {isAdding && (
+        <Card className="p-6 animate-in slide-in-from-top-4 duration-200">
+          <h2 className="text-lg font-semibold mb-4">New Rule</h2>
+          <form onSubmit={handleSubmit((d) => mutation.mutate(d))} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Select label="Applies To" options={RULE_APPLIES_TO_OPTIONS} {...register('applies_to')} />
+              <Select label="Match" options={RULE_MATCH_OPTIONS} {...register('match_type')} />
+              <Input label="Pattern" {...register('pattern')} error={errors.pattern?.message} placeholder="e.g. TESCO or ^UBER\s" />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Input label="Min Amount (Optional)" type="number" step="0.01" {...register('min_amount')} error={errors.min_amount?.message} />
+              <Input label="Max Amount (Optional)" type="number" step="0.01" {...register('max_amount')} error={errors.max_amount?.message} />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Select label="Set Category" options={categoryOptions} {...register('category')} error={errors.category?.message} />
+              <Input label="Set Notes (Optional)" {...register('notes')} />
+              <Input label="Add Tags (Optional)" {...register('tags')} placeholder="comma separated" />
+            </div>
+            <div className="flex justify-end pt-2">
+              <Button type="submit" isLoading={mutation.isPending}>Save Rule</Button>
+            </div>
+          </form>
+        </Card>
+      )}
+
+      <Card className="overflow-hidden">
+        {isLoading ? (
+          <div className="p-8 text-center text-gray-500">Loading rules...</div>
+        ) : rules.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No rules yet. Rules run top to bottom and the first match wins.</div>
+        ) : (
+          <ol className="divide-y">
+            {rules.map((rule, i) => (
+              <li key={rule.id} className="flex flex-col md:flex-row md:items-center justify-between gap-2 px-6 py-4 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{i + 1}. {describeCategoryRule(rule)}</p>
+                  <p className="text-gray-500">
+                    {rule.category && <>Category <span className="font-medium">{rule.category}</span></>}
+                    {rule.notes && <> · Notes "{rule.notes}"</>}
+                    {rule.tags && rule.tags.length > 0 && <> · Tags {rule.tags.join(', ')}</>}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <button onClick={() => reorderMutation.mutate([rule, rules[i - 1]])} disabled={i === 0} className="text-gray-400 hover:text-gray-900 disabled:opacity-30" title="Move up"><ArrowUp size={16} /></button>
+                  <button onClick={() => reorderMutation.mutate([rule, rules[i + 1]])} disabled={i === rules.length - 1} className="text-gray-400 hover:text-gray-900 disabled:opacity-30" title="Move down"><ArrowDown size={16} /></button>
+                  <button onClick={() => setPreviewRuleId(previewRuleId === rule.id ? null : rule.id)} className="text-primary-600 hover:text-primary-900 inline-flex items-center gap-1" title="Apply to existing">
+                    <Wand2 size={16} /> Apply to existing
+                  </button>
+                  <button onClick={() => { if (confirm('Delete this rule?')) deleteMutation.mutate(rule.id) }} className="text-red-600 hover:text-red-900" title="Delete">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </Card>
+
+      {previewRule && (
+        <Card className="p-6 space-y-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h3 className="text-lg font-semibold">Preview: {describeCategoryRule(previewRule)}</h3>
+              <p className="text-sm text-gray-500">{changes.length} existing transaction{changes.length === 1 ? '' : 's'} would change.</p>
+            </div>
+            <Button onClick={() => applyMutation.mutate(changes)} isLoading={applyMutation.isPending} disabled={changes.length === 0}>
+              <Play size={16} className="mr-2" /> Apply Changes
+            </Button>
+          </div>
+
+          {changes.length > 0 && (
+            <div className="max-h-96 overflow-y-auto border rounded-lg">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Title</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Category</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes / Tags</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {changes.map(({ transaction: t, updated: u }) => (
+                    <tr key={t.id}>
+                      <td className="px-4 py-2 text-gray-500 whitespace-nowrap">{format(toDate(t.date), 'MMM d, yyyy')}</td>
+                      <td className="px-4 py-2 text-gray-900">{t.title} <span className="text-gray-400">${t.amount.toFixed(2)}</span></td>
+                      <td className="px-4 py-2">
+                        {t.category !== u.category ? <><span className="line-through text-gray-400">{t.category}</span> → {u.category}</> : t.category}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {u.notes}
+                        {u.tags && u.tags.length > 0 && <span className="block text-xs text-gray-400">{u.tags.join(', ')}</span>}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default Rules;
\ No newline at end of file
@@ -1,5 +1,14 @@
 import { supabase } from '../lib/supabase';
-import { Transaction, Benefit, Payday, RecurringExpense, Asset, Debt, Goal } from '../types';
+import { format } from 'date-fns';
+import { BillRollover, getBillRollover, isAskFirst } from '../lib/rollover';
+import { rebaseSchedule } from '../lib/recurrence';
+import { getInterestDue } from '../lib/debts';
+import { Transaction, Benefit, Payday, RecurringExpense, Asset, Debt, Goal, Scenario, UserSettings, DebtPayment, GoalContribution, AllocationRule, ImportMapping, CategoryRule, Category, CategoryKind, Account, Transfer, Reconciliation, Budget, Envelope, EnvelopeMove, PriceChange } from '../types';
+import { Allocation, getAllocations } from '../lib/allocations';
+import { ImportRow } from '../lib/imports';
+import { DEFAULT_CATEGORIES } from '../lib/categories';
+import { LedgerEntry, getAccountBalances } from '../lib/accounts';
+import { getAmountBefore, getAmountOn } from '../lib/priceHistory';
 
 // --- Transactions ---
 export const fetchTransactions = async (type: 'INCOME' | 'EXPENSE') => {
@@ -18,10 +27,93 @@ export const fetchTransactions = async (type: 'INCOME' | 'EXPENSE') => {
   })) as Transaction[];
 };
 
+export const RECONCILED_LOCK_MESSAGE = 'Reconciled transactions are locked. Undo the reconciliation to change them.';
+
+// Reconciled transactions are left alone; nothing deleted means the row was locked (or already gone)
 export const deleteTransaction = async (id: string, type: 'INCOME' | 'EXPENSE') => {
   const table = type === 'INCOME' ? 'assetflow_income' : 'assetflow_expenses';
-  const { error } = await supabase.from(table).delete().eq('id', id);
+  const { data, error } = await supabase
+    .from(table)
+    .delete()
+    .eq('id', id)
+    .is('reconciliation_id', null)
+    .select('id');
+  if (error) throw error;
+  if (!data?.length) throw new Error(RECONCILED_LOCK_MESSAGE);
+};
+
+// Reconciled transactions can't be edited; see deleteTransaction
+export const updateTransaction = async (id: string, type: 'INCOME' | 'EXPENSE', changes: Record<string, unknown>) => {
+  const table = type === 'INCOME' ? 'assetflow_income' : 'assetflow_expenses';
+  const { data, error } = await supabase
+    .from(table)
+    .update(changes)
+    .eq('id', id)
+    .is('reconciliation_id', null)
+    .select('id');
   if (error) throw error;
+  if (!data?.length) throw new Error(RECONCILED_LOCK_MESSAGE);
+};
+
+// Inserts reviewed rows (from a statement import) into income and expenses. Returns the number saved.
+// If the expenses fail to save, the income saved just before is removed so the statement isn't left half imported.
+// Allocation rules then sweep the imported income into goals, just as they do for income added by hand.
+export const insertTransactions = async (userId: string, rows: ImportRow[], accountId: string | null = null) => {
+  const selected = rows.filter(r => r.include);
+  const income = selected.filter(r => r.type === 'INCOME');
+  const expenses = selected.filter(r => r.type === 'EXPENSE');
+
+  let savedIncome: { id: string; amount: number; category: string; date_received: string }[] = [];
+  if (income.length) {
+    const { data, error } = await supabase.from('assetflow_income').insert(income.map(r => ({
+      user_id: userId,
+      title: r.title,
+      amount: r.amount,
+      date_received: r.date,
+      category: r.category,
+      notes: r.notes,
+      fitid: r.fitid,
+      tags: r.tags,
+      account_id: accountId,
+    }))).select('id, amount, category, date_received');
+    if (error) throw error;
+    savedIncome = data || [];
+  }
+  if (expenses.length) {
+    const { error } = await supabase.from('assetflow_expenses').insert(expenses.map(r => ({
+      user_id: userId,
+      title: r.title,
+      amount: r.amount,
+      date_paid: r.date,
+      category: r.category,
+      notes: r.notes,
+      fitid: r.fitid,
+      tags: r.tags,
+      account_id: accountId,
+    })));
+    if (error) {
+      if (savedIncome.length) {
+        const { error: undoError } = await supabase.from('assetflow_income').delete().in('id', savedIncome.map(i => i.id));
+        if (undoError) throw undoError;
+      }
+      throw error;
+    }
+  }
+
+  if (savedIncome.length) {
+    const [rules, goals] = await Promise.all([fetchAllocationRules(), fetchGoals()]);
+    // Oldest first, with each goal's progress carried forward so later income doesn't overfill it
+    let progress = goals;
+    for (const entry of [...savedIncome].sort((a, b) => a.date_received.localeCompare(b.date_received))) {
+      const allocations = getAllocations(entry, rules, progress);
+      await saveIncomeAllocations(entry.id, entry.date_received, allocations);
+      progress = progress.map(g => ({
+        ...g,
+        current_amount: g.current_amount + allocations.filter(a => a.goal.id === g.id).reduce((sum, a) => sum + a.amount, 0),
+      }));
+    }
+  }
+  return selected.length;
 };
 
 // --- Recurring Items ---
@@ -43,10 +135,12 @@ export const fetchPaydays = async () => {
   return data as Payday[];
 };
 
+// Bills whose schedule has ended are kept for their history but left out here
 export const fetchRecurringExpenses = async () => {
   const { data, error } = await supabase
     .from('assetflow_recurring_expenses')
     .select('*')
+    .is('ended_on', null)
     .order('next_due_date', { ascending: true });
   
   if (error && error.code === '42P01') { 
@@ -57,6 +151,18 @@ export const fetchRecurringExpenses = async () => {
   return data as RecurringExpense[];
 };
 
+const updateRow = async (table: string, id: string, changes: Record<string, unknown>) => {
+  const { error } = await supabase.from(table).update(changes).eq('id', id);
+  if (error) throw error;
+};
+
+export const updateBenefit = (id: string, changes: Partial<Benefit>) => updateRow('assetflow_benefits', id, changes);
+
+export const updatePayday = (id: string, changes: Partial<Payday>) => updateRow('assetflow_paydays', id, changes);
+
+export const updateRecurringExpense = (id: string, changes: Partial<RecurringExpense>) =>
+  updateRow('assetflow_recurring_expenses', id, changes);
+
 export const deleteBenefit = async (id: string) => {
   const { error } = await supabase.from('assetflow_benefits').delete().eq('id', id);
   if (error) throw error;
@@ -82,9 +188,21 @@ export const fetchAssets = async () => {
   // Graceful fallback if table missing during dev
   if (error && error.code === '42P01') return [];
   if (error) throw error;
-  return data as Asset[];
+
+  // Assets linked to an account take their value from its balance
+  const assets = data as Asset[];
+  if (!assets.some(a => a.account_id)) return assets;
+  const [accounts, transfers, income, expenses] = await Promise.all([
+    fetchAccounts(), fetchTransfers(), fetchTransactions('INCOME'), fetchTransactions('EXPENSE'),
+  ]);
+  const balances = getAccountBalances(accounts, [...income, ...expenses], transfers);
+  return assets
+    .map(a => (a.account_id && balances.has(a.account_id) ? { ...a, value: balances.get(a.account_id)! } : a))
+    .sort((a, b) => b.value - a.value);
 };
 
+export const updateAsset = (id: string, changes: Partial<Asset>) => updateRow('assetflow_assets', id, changes);
+
 export const deleteAsset = async (id: string) => {
   const { error } = await supabase.from('assetflow_assets').delete().eq('id', id);
   if (error) throw error;
@@ -100,11 +218,154 @@ export const fetchDebts = async () => {
   return data as Debt[];
 };
 
+export const updateDebt = (id: string, changes: Partial<Debt>) => updateRow('assetflow_debts', id, changes);
+
+// Saves an edit to a debt. A changed balance is logged in the ledger as an adjustment, and only applied if the
+// balance still matches the one the form was opened with; otherwise the adjustment is taken back.
+export const editDebt = async (debt: Debt, changes: Partial<Debt>) => {
+  if (changes.balance === undefined || changes.balance === debt.balance) return updateDebt(debt.id, changes);
+
+  const { data: entry, error: ledgerError } = await supabase.from('assetflow_debt_payments').insert([{
+    user_id: debt.user_id,
+    debt_id: debt.id,
+    type: 'ADJUSTMENT',
+    amount: Math.round((changes.balance - debt.balance) * 100) / 100,
+    date: format(new Date(), 'yyyy-MM-dd'),
+    balance_after: changes.balance,
+    notes: 'Balance edited',
+  }]).select('id').single();
+  if (ledgerError) throw ledgerError;
+
+  const { data, error } = await supabase
+    .from('assetflow_debts')
+    .update(changes)
+    .eq('id', debt.id)
+    .eq('balance', debt.balance)
+    .select('id');
+  if (error || !data?.length) {
+    const { error: undoError } = await supabase.from('assetflow_debt_payments').delete().eq('id', entry.id);
+    if (undoError) throw undoError;
+    throw error || new Error('The balance of this debt has changed. Refresh and try again.');
+  }
+};
+
 export const deleteDebt = async (id: string) => {
   const { error } = await supabase.from('assetflow_debts').delete().eq('id', id);
   if (error) throw error;
 };
 
+export const fetchDebtPayments = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_debt_payments')
+    .select('*')
+    .order('date', { ascending: false });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as DebtPayment[];
+};
+
+// Pays down a debt and logs it in the ledger, optionally recording the same money as a Debt expense.
+// The balance only moves if it still matches what the payment was worked out from, so interest charged or a payment
+// made in another tab meanwhile isn't overwritten; otherwise the ledger entry and expense are taken back.
+export const recordDebtPayment = async (
+  debt: Debt,
+  payment: { amount: number; date: string; notes?: string },
+  createExpense: boolean
+) => {
+  const amount = Math.min(payment.amount, debt.balance);
+  const balanceAfter = Math.round((debt.balance - amount) * 100) / 100;
+
+  let expenseId: string | undefined;
+  if (createExpense) {
+    const { data, error } = await supabase.from('assetflow_expenses').insert([{
+      user_id: debt.user_id,
+      title: `${debt.name} payment`,
+      amount,
+      category: 'Debt',
+      date_paid: payment.date,
+      notes: payment.notes,
+    }]).select('id').single();
+    if (error) throw error;
+    expenseId = data.id;
+  }
+
+  const undoExpense = async () => {
+    if (!expenseId) return;
+    const { error } = await supabase.from('assetflow_expenses').delete().eq('id', expenseId);
+    if (error) throw error;
+  };
+
+  const { data: entry, error: ledgerError } = await supabase.from('assetflow_debt_payments').insert([{
+    user_id: debt.user_id,
+    debt_id: debt.id,
+    type: 'PAYMENT',
+    amount,
+    date: payment.date,
+    balance_after: balanceAfter,
+    notes: payment.notes,
+    expense_id: expenseId,
+  }]).select('id').single();
+  if (ledgerError) {
+    await undoExpense();
+    throw ledgerError;
+  }
+
+  const { data, error } = await supabase
+    .from('assetflow_debts')
+    .update({ balance: balanceAfter })
+    .eq('id', debt.id)
+    .eq('balance', debt.balance)
+    .select('id');
+  if (error || !data?.length) {
+    const { error: undoError } = await supabase.from('assetflow_debt_payments').delete().eq('id', entry.id);
+    if (undoError) throw undoError;
+    await undoExpense();
+    throw error || new Error('The balance of this debt has changed. Refresh and try the payment again.');
+  }
+};
+
+// Charges a month of interest for every month boundary passed since interest_accrued_to.
+// Guarded on interest_accrued_to and the balance so two open tabs can't charge the same month twice,
+// and a payment made meanwhile isn't overwritten. If the ledger rows can't be written the balance is put back.
+export const accrueDebtInterest = async (today: Date = new Date()) => {
+  const debts = await fetchDebts();
+  let charged = 0;
+  for (const debt of debts) {
+    const accruals = getInterestDue(debt, today);
+    if (!accruals.length) continue;
+    const last = accruals[accruals.length - 1];
+
+    const { data, error } = await supabase
+      .from('assetflow_debts')
+      .update({ balance: last.balance_after, interest_accrued_to: format(last.date, 'yyyy-MM-dd') })
+      .eq('id', debt.id)
+      .eq('interest_accrued_to', debt.interest_accrued_to)
+      .eq('balance', debt.balance)
+      .select('id');
+    if (error) throw error;
+    if (!data?.length) continue;
+
+    const { error: ledgerError } = await supabase.from('assetflow_debt_payments').insert(accruals.map(a => ({
+      user_id: debt.user_id,
+      debt_id: debt.id,
+      type: 'INTEREST',
+      amount: a.interest,
+      date: format(a.date, 'yyyy-MM-dd'),
+      balance_after: a.balance_after,
+    })));
+    if (ledgerError) {
+      const { error: undoError } = await supabase
+        .from('assetflow_debts')
+        .update({ balance: debt.balance, interest_accrued_to: debt.interest_accrued_to })
+        .eq('id', debt.id);
+      if (undoError) throw undoError;
+      throw ledgerError;
+    }
+    charged += accruals.length;
+  }
+  return charged;
+};
+
 export const fetchGoals = async () => {
   const { data, error } = await supabase
     .from('assetflow_goals')
@@ -112,10 +373,566 @@ export const fetchGoals = async () => {
     .order('target_date', { ascending: true });
   if (error && error.code === '42P01') return [];
   if (error) throw error;
-  return data as Goal[];
+
+  // current_amount is derived from the contribution ledger when it exists
+  const { data: contributions, error: ledgerError } = await supabase
+    .from('assetflow_goal_contributions')
+    .select('goal_id, amount');
+  if (ledgerError && ledgerError.code === '42P01') return data as Goal[];
+  if (ledgerError) throw ledgerError;
+
+  return (data as Goal[]).map(goal => ({
+    ...goal,
+    current_amount: (contributions || [])
+      .filter(c => c.goal_id === goal.id)
+      .reduce((sum, c) => sum + c.amount, 0),
+  }));
 };
 
+// current_amount is kept in step with the goal's contributions, so it isn't editable here
+export const updateGoal = (id: string, changes: Partial<Omit<Goal, 'current_amount'>>) => updateRow('assetflow_goals', id, changes);
+
 export const deleteGoal = async (id: string) => {
   const { error } = await supabase.from('assetflow_goals').delete().eq('id', id);
   if (error) throw error;
-};
\ No newline at end of file
+};
+
+export const fetchGoalContributions = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_goal_contributions')
+    .select('*')
+    .order('date', { ascending: false })
+    .order('created_at', { ascending: false });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as GoalContribution[];
+};
+
+export const deleteGoalContribution = async (id: string) => {
+  const { error } = await supabase.from('assetflow_goal_contributions').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// --- Income allocation rules ---
+
+export const fetchAllocationRules = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_allocation_rules')
+    .select('*')
+    .order('position', { ascending: true });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as AllocationRule[];
+};
+
+export const deleteAllocationRule = async (id: string) => {
+  const { error } = await supabase.from('assetflow_allocation_rules').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Records the goal contributions produced by running the allocation rules on an income entry
+export const saveIncomeAllocations = async (incomeId: string, date: string, allocations: Allocation[]) => {
+  if (!allocations.length) return;
+  const { error } = await supabase.from('assetflow_goal_contributions').insert(allocations.map(a => ({
+    user_id: a.rule.user_id,
+    goal_id: a.goal.id,
+    amount: a.amount,
+    date,
+    notes: 'Allocation rule',
+    income_id: incomeId,
+    allocation_rule_id: a.rule.id,
+  })));
+  if (error) throw error;
+};
+
+// --- Recurring bill rollover ---
+
+// Posts a bill's due occurrences into expense history at the price on each date, then advances the bill past them.
+// The bill is only advanced if its next_due_date is unchanged, so two open tabs can't post twice; the losing tab takes its expenses back.
+// A bill whose schedule has run out (COUNT/UNTIL reached) is marked ended rather than deleted, so its posted expenses,
+// envelope and price history keep their link to it.
+export const settleRecurringExpense = async (rollover: BillRollover, post: boolean = true, priceChanges: PriceChange[] = []) => {
+  const { bill, due, next } = rollover;
+
+  let posted: string[] = [];
+  if (post) {
+    const { data, error } = await supabase.from('assetflow_expenses').insert(due.map(date => ({
+      user_id: bill.user_id,
+      title: bill.title,
+      amount: getAmountOn(bill, priceChanges, date),
+      category: bill.category,
+      date_paid: format(date, 'yyyy-MM-dd'),
+      recurring_expense_id: bill.id,
+    }))).select('id');
+    if (error) throw error;
+    posted = (data || []).map(e => e.id);
+  }
+
+  let changes: Record<string, unknown>;
+  if (next) {
+    const { start, frequency, custom_value, rrule } = rebaseSchedule(bill.next_due_date, bill, next);
+    changes = { next_due_date: start, frequency, custom_value, rrule };
+  } else {
+    changes = { ended_on: format(due[due.length - 1], 'yyyy-MM-dd') };
+  }
+
+  const { data, error } = await supabase
+    .from('assetflow_recurring_expenses')
+    .update(changes)
+    .eq('id', bill.id)
+    .eq('next_due_date', bill.next_due_date)
+    .is('ended_on', null)
+    .select('id');
+  if (error || !data?.length) {
+    if (posted.length) {
+      const { error: undoError } = await supabase.from('assetflow_expenses').delete().in('id', posted);
+      if (undoError) throw undoError;
+    }
+    if (error) throw error;
+    return 0;
+  }
+  return posted.length;
+};
+
+// Posts every auto-post bill that has come due. Returns the number of expenses created.
+export const postDueRecurringExpenses = async (today: Date = new Date()) => {
+  const [bills, priceChanges] = await Promise.all([fetchRecurringExpenses(), fetchPriceChanges()]);
+  let posted = 0;
+  for (const bill of bills) {
+    if (isAskFirst(bill)) continue;
+    const rollover = getBillRollover(bill, today);
+    if (rollover) posted += await settleRecurringExpense(rollover, true, priceChanges);
+  }
+  return posted;
+};
+
+// --- Scenarios ---
+
+export const fetchScenarios = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_scenarios')
+    .select('*')
+    .order('created_at', { ascending: true });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as Scenario[];
+};
+
+export const deleteScenario = async (id: string) => {
+  const { error } = await supabase.from('assetflow_scenarios').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// --- Settings ---
+
+export const fetchSettings = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_settings')
+    .select('*')
+    .maybeSingle();
+  if (error && error.code === '42P01') return null;
+  if (error) throw error;
+  return data as UserSettings | null;
+};
+
+export const saveSettings = async (settings: UserSettings) => {
+  const { error } = await supabase.from('assetflow_settings').upsert(settings, { onConflict: 'user_id' });
+  if (error) throw error;
+};
+
+// --- Import mappings ---
+
+export const fetchImportMappings = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_import_mappings')
+    .select('*')
+    .order('bank_name', { ascending: true });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as ImportMapping[];
+};
+
+export const deleteImportMapping = async (id: string) => {
+  const { error } = await supabase.from('assetflow_import_mappings').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// --- Categorization rules ---
+
+export const fetchCategoryRules = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_category_rules')
+    .select('*')
+    .order('position', { ascending: true });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as CategoryRule[];
+};
+
+export const deleteCategoryRule = async (id: string) => {
+  const { error } = await supabase.from('assetflow_category_rules').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// Writes rule results back onto existing transactions, leaving reconciled ones alone. Returns the number changed.
+export const updateTransactionCategories = async (
+  changes: Pick<Transaction, 'id' | 'type' | 'category' | 'notes' | 'tags'>[]
+) => {
+  let updated = 0;
+  for (const { id, type, category, notes, tags } of changes) {
+    const table = type === 'INCOME' ? 'assetflow_income' : 'assetflow_expenses';
+    const { data, error } = await supabase
+      .from(table)
+      .update({ category, notes, tags })
+      .eq('id', id)
+      .is('reconciliation_id', null)
+      .select('id');
+    if (error) throw error;
+    updated += data?.length || 0;
+  }
+  return updated;
+};
+
+// --- Categories ---
+
+export const fetchCategories = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_categories')
+    .select('*')
+    .order('position', { ascending: true });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as Category[];
+};
+
+// Gives a new user an editable copy of the built-in categories
+export const seedDefaultCategories = async (userId: string) => {
+  const { count, error } = await supabase
+    .from('assetflow_categories')
+    .select('id', { count: 'exact', head: true });
+  if (error && error.code === '42P01') return 0;
+  if (error) throw error;
+  if (count) return 0;
+
+  const { error: insertError } = await supabase.from('assetflow_categories').insert(
+    DEFAULT_CATEGORIES.map((c, i) => ({ user_id: userId, ...c, position: i }))
+  );
+  if (insertError) throw insertError;
+  return DEFAULT_CATEGORIES.length;
+};
+
+// Every column that stores a category name, per kind
+const CATEGORY_COLUMNS: Record<CategoryKind, { table: string; column: string }[]> = {
+  INCOME: [
+    { table: 'assetflow_income', column: 'category' },
+    { table: 'assetflow_allocation_rules', column: 'category' },
+  ],
+  EXPENSE: [
+    { table: 'assetflow_expenses', column: 'category' },
+    { table: 'assetflow_recurring_expenses', column: 'category' },
+    { table: 'assetflow_budgets', column: 'category' },
+    { table: 'assetflow_envelopes', column: 'category' },
+  ],
+  ASSET: [
+    { table: 'assetflow_assets', column: 'type' },
+  ],
+};
+
+// Reconciled transactions are locked, so they keep the old name
+const repointCategory = async (kind: CategoryKind, from: string, to: string) => {
+  const transactionTable = kind === 'INCOME' ? 'assetflow_income' : 'assetflow_expenses';
+  for (const { table, column } of CATEGORY_COLUMNS[kind]) {
+    let query = supabase.from(table).update({ [column]: to }).eq(column, from);
+    if (table === transactionTable) query = query.is('reconciliation_id', null);
+    const { error } = await query;
+    if (error && error.code !== '42P01') throw error;
+  }
+  if (kind === 'ASSET') return;
+
+  // Split lines carry their own category names
+  const { data: splitRows, error: splitError } = await supabase
+    .from(transactionTable)
+    .select('id, splits')
+    .not('splits', 'is', null)
+    .is('reconciliation_id', null);
+  if (splitError && splitError.code !== '42703') throw splitError;
+  for (const row of (splitRows || []) as Pick<Transaction, 'id' | 'splits'>[]) {
+    if (!row.splits?.some(line => line.category === from)) continue;
+    const splits = row.splits.map(line => (line.category === from ? { ...line, category: to } : line));
+    const { error } = await supabase.from(transactionTable).update({ splits }).eq('id', row.id);
+    if (error) throw error;
+  }
+
+  // Categorization rules are shared by income and expenses; leave the other kind's rules alone
+  const { error } = await supabase
+    .from('assetflow_category_rules')
+    .update({ category: to })
+    .eq('category', from)
+    .neq('applies_to', kind === 'INCOME' ? 'EXPENSE' : 'INCOME');
+  if (error && error.code !== '42P01') throw error;
+};
+
+export const renameCategory = async (category: Category, name: string) => {
+  const { error } = await supabase.from('assetflow_categories').update({ name }).eq('id', category.id);
+  if (error) throw error;
+  await repointCategory(category.kind, category.name, name);
+};
+
+// Moves everything filed under `source` to `target`, then removes `source`
+export const mergeCategories = async (source: Category, target: Category) => {
+  await repointCategory(source.kind, source.name, target.name);
+
+  // Subcategories follow, staying within two levels
+  const becomesTopLevel = target.parent_id === source.id;
+  if (becomesTopLevel) {
+    const { error } = await supabase.from('assetflow_categories').update({ parent_id: null }).eq('id', target.id);
+    if (error) throw error;
+  }
+  const { error: childError } = await supabase
+    .from('assetflow_categories')
+    .update({ parent_id: !becomesTopLevel && target.parent_id ? target.parent_id : target.id })
+    .eq('parent_id', source.id);
+  if (childError) throw childError;
+
+  await deleteCategory(source.id);
+};
+
+export const deleteCategory = async (id: string) => {
+  const { error } = await supabase.from('assetflow_categories').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// --- Accounts ---
+
+export const fetchAccounts = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_accounts')
+    .select('*')
+    .order('created_at', { ascending: true });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as Account[];
+};
+
+// A transfer belongs to both of its accounts, so removing it with one would change the other's balance
+export const deleteAccount = async (id: string) => {
+  const { count, error: transferError } = await supabase
+    .from('assetflow_transfers')
+    .select('id', { count: 'exact', head: true })
+    .or(`from_account_id.eq.${id},to_account_id.eq.${id}`);
+  if (transferError && transferError.code !== '42P01') throw transferError;
+  if (count) throw new Error('This account has transfers to or from other accounts. Delete those first so the other accounts keep their balances.');
+
+  // Its reconciliations would go with it and unlock every transaction they locked
+  const { count: reconciled, error: reconciliationError } = await supabase
+    .from('assetflow_reconciliations')
+    .select('id', { count: 'exact', head: true })
+    .eq('account_id', id);
+  if (reconciliationError && reconciliationError.code !== '42P01') throw reconciliationError;
+  if (reconciled) throw new Error('This account has been reconciled. Undo its reconciliations before deleting it.');
+
+  const { error } = await supabase.from('assetflow_accounts').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const fetchTransfers = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_transfers')
+    .select('*')
+    .order('date', { ascending: false });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as Transfer[];
+};
+
+export const deleteTransfer = async (id: string) => {
+  const { data, error } = await supabase
+    .from('assetflow_transfers')
+    .delete()
+    .eq('id', id)
+    .is('from_reconciliation_id', null)
+    .is('to_reconciliation_id', null)
+    .select('id');
+  if (error) throw error;
+  if (!data?.length) throw new Error(RECONCILED_LOCK_MESSAGE);
+};
+
+// --- Reconciliation ---
+
+export const fetchReconciliations = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_reconciliations')
+    .select('*')
+    .order('statement_date', { ascending: false });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as Reconciliation[];
+};
+
+// Records a matched statement and locks the ticked ledger entries against it, taking the record back if a lock fails
+export const completeReconciliation = async (
+  account: Account,
+  statementDate: string,
+  closingBalance: number,
+  entries: LedgerEntry[]
+) => {
+  const { data, error } = await supabase
+    .from('assetflow_reconciliations')
+    .insert({ user_id: account.user_id, account_id: account.id, statement_date: statementDate, closing_balance: closingBalance })
+    .select('id')
+    .single();
+  if (error) throw error;
+
+  const lock = async (table: string, column: string, ids: string[]) => {
+    if (!ids.length) return;
+    const { error } = await supabase.from(table).update({ [column]: data.id }).in('id', ids);
+    if (error) throw error;
+  };
+  const idsOf = (kind: LedgerEntry['kind']) => entries.filter(e => e.kind === kind).map(e => e.source_id);
+
+  try {
+    await lock('assetflow_income', 'reconciliation_id', idsOf('INCOME'));
+    await lock('assetflow_expenses', 'reconciliation_id', idsOf('EXPENSE'));
+    await lock('assetflow_transfers', 'to_reconciliation_id', idsOf('TRANSFER_IN'));
+    await lock('assetflow_transfers', 'from_reconciliation_id', idsOf('TRANSFER_OUT'));
+  } catch (lockError) {
+    // Deleting the record unlocks whatever was already locked against it
+    const { error: undoError } = await supabase.from('assetflow_reconciliations').delete().eq('id', data.id);
+    if (undoError) throw undoError;
+    throw lockError;
+  }
+};
+
+// Deleting the record unlocks its entries (the reconciliation columns are `on delete set null`)
+export const undoReconciliation = async (id: string) => {
+  const { error } = await supabase.from('assetflow_reconciliations').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// --- Budgets ---
+
+export const fetchBudgets = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_budgets')
+    .select('*')
+    .order('category', { ascending: true });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as Budget[];
+};
+
+export const updateBudget = (id: string, changes: Partial<Budget>) => updateRow('assetflow_budgets', id, changes);
+
+export const deleteBudget = async (id: string) => {
+  const { error } = await supabase.from('assetflow_budgets').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// --- Envelopes ---
+
+export const fetchEnvelopes = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_envelopes')
+    .select('*')
+    .order('created_at', { ascending: true });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as Envelope[];
+};
+
+// Moves between the envelope and "to be assigned" go with it, returning that money. Moves to or from other envelopes
+// are kept with this side nulled by the foreign key, so those envelopes keep their balance and history.
+export const deleteEnvelope = async (id: string) => {
+  const { error: moveError } = await supabase
+    .from('assetflow_envelope_moves')
+    .delete()
+    .or(`and(from_envelope_id.eq.${id},to_envelope_id.is.null),and(to_envelope_id.eq.${id},from_envelope_id.is.null)`);
+  if (moveError) throw moveError;
+
+  const { error } = await supabase.from('assetflow_envelopes').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const fetchEnvelopeMoves = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_envelope_moves')
+    .select('*')
+    .order('date', { ascending: false })
+    .order('created_at', { ascending: false });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as EnvelopeMove[];
+};
+
+export const deleteEnvelopeMove = async (id: string) => {
+  const { error } = await supabase.from('assetflow_envelope_moves').delete().eq('id', id);
+  if (error) throw error;
+};
+
+// --- Price history ---
+
+export const fetchPriceChanges = async () => {
+  const { data, error } = await supabase
+    .from('assetflow_price_changes')
+    .select('*')
+    .order('effective_date', { ascending: true });
+  if (error && error.code === '42P01') return [];
+  if (error) throw error;
+  return data as PriceChange[];
+};
+
+const PRICED_TABLES = {
+  BILL: { table: 'assetflow_recurring_expenses', column: 'recurring_expense_id' },
+  BENEFIT: { table: 'assetflow_benefits', column: 'benefit_id' },
+};
+
+// Records a new amount from a date, keeping the old one in the history. The stored amount only moves once the change is in effect.
+export const recordPriceChange = async (
+  kind: keyof typeof PRICED_TABLES,
+  item: RecurringExpense | Benefit,
+  amount: number,
+  effectiveDate: string,
+  history: PriceChange[],
+  today: Date = new Date()
+) => {
+  const { table, column } = PRICED_TABLES[kind];
+  const { data, error } = await supabase.from('assetflow_price_changes').insert([{
+    user_id: item.user_id,
+    [column]: item.id,
+    previous_amount: getAmountBefore(item, history, effectiveDate),
+    amount,
+    effective_date: effectiveDate,
+  }]).select('*').single();
+  if (error) throw error;
+
+  const current = getAmountOn(item, [...history, data as PriceChange], today);
+  if (current !== item.amount) await updateRow(table, item.id, { amount: current });
+};
+
+// Brings each stored amount up to date with scheduled changes that have since taken effect. Returns how many moved.
+export const applyDuePriceChanges = async (today: Date = new Date()) => {
+  const [bills, benefits, changes] = await Promise.all([fetchRecurringExpenses(), fetchBenefits(), fetchPriceChanges()]);
+  if (!changes.length) return 0;
+  let applied = 0;
+  for (const [kind, items] of [['BILL', bills], ['BENEFIT', benefits]] as const) {
+    for (const item of items) {
+      const current = getAmountOn(item, changes, today);
+      if (current === item.amount) continue;
+      await updateRow(PRICED_TABLES[kind].table, item.id, { amount: current });
+      applied++;
+    }
+  }
+  return applied;
+};
+
+// Only changes that haven't taken effect yet can be cancelled; earlier ones are already in the stored amount
+export const cancelPriceChange = async (id: string, today: Date = new Date()) => {
+  const { data, error } = await supabase
+    .from('assetflow_price_changes')
+    .delete()
+    .eq('id', id)
+    .gt('effective_date', format(today, 'yyyy-MM-dd'))
+    .select('id');
+  if (error) throw error;
+  if (!data?.length) throw new Error('This price change has already taken effect.');
+};
@@ -1,4 +1,8 @@
-export type Frequency = 'WEEKLY' | 'FORTNIGHTLY' | 'MONTHLY' | 'YEARLY' | 'EVERY_X_DAYS' | 'SPECIFIC_DAY';
+export type Frequency = 'WEEKLY' | 'FORTNIGHTLY' | 'MONTHLY' | 'YEARLY' | 'EVERY_X_DAYS' | 'SPECIFIC_DAY' | 'RRULE';
+
+export type BusinessDayRule = 'NONE' | 'PREVIOUS' | 'NEXT';
+
+export type HolidayCalendar = 'NONE' | 'ENGLAND_WALES' | 'SCOTLAND' | 'US_FEDERAL';
 
 export interface Profile {
   id: string;
@@ -15,9 +19,22 @@ export interface Transaction {
   category: string;
   notes?: string;
   attachment_url?: string;
+  recurring_expense_id?: string; // set when posted automatically from a recurring bill
+  fitid?: string; // bank's transaction id when imported from an OFX/QFX statement
+  tags?: string[];
+  splits?: TransactionSplit[] | null; // when set, the lines add up to `amount` and replace `category` in totals
+  account_id?: string | null;
+  reconciliation_id?: string | null; // set once ticked off against a statement; locks the transaction
+  created_at?: string;
   type: 'INCOME' | 'EXPENSE';
 }
 
+export interface TransactionSplit {
+  category: string;
+  amount: number;
+  notes?: string;
+}
+
 export interface Benefit {
   id: string;
   user_id: string;
@@ -25,14 +42,28 @@ export interface Benefit {
   amount: number;
   frequency: Frequency;
   custom_value?: number;
+  rrule?: string | null; // RFC 5545 rule, used when frequency is 'RRULE'
+  business_day_rule?: BusinessDayRule;
+  holiday_calendar?: HolidayCalendar;
   next_payment_date: string;
 }
 
 export interface Payday {
   id: string;
   user_id: string;
+  name?: string; // employer or job, one payday row per income stream
+  gross_amount?: number;
+  net_amount?: number;
+  tax?: number;
+  national_insurance?: number;
+  pension?: number;
+  student_loan?: number;
+  other_deductions?: number;
   frequency: Frequency;
   custom_value?: number;
+  rrule?: string | null; // RFC 5545 rule, used when frequency is 'RRULE'
+  business_day_rule?: BusinessDayRule;
+  holiday_calendar?: HolidayCalendar;
   next_payday_date: string;
 }
 
@@ -42,9 +73,26 @@ export interface RecurringExpense {
   title: string;
   amount: number;
   category: string;
+  auto_post?: boolean; // false = ask before posting due occurrences
   frequency: Frequency;
   custom_value?: number;
+  rrule?: string | null; // RFC 5545 rule, used when frequency is 'RRULE'
+  business_day_rule?: BusinessDayRule;
+  holiday_calendar?: HolidayCalendar;
   next_due_date: string;
+  ended_on?: string | null; // last occurrence, once a COUNT/UNTIL schedule has run out
+}
+
+// A new amount for a bill or benefit from `effective_date` on. `amount` on the bill or benefit is kept at today's price.
+export interface PriceChange {
+  id: string;
+  user_id: string;
+  recurring_expense_id?: string | null;
+  benefit_id?: string | null;
+  previous_amount: number;
+  amount: number;
+  effective_date: string;
+  created_at?: string;
 }
 
 export interface Asset {
@@ -54,6 +102,80 @@ export interface Asset {
   value: number;
   type: string; // Real Estate, Vehicle, Cash, Investment, Other
   notes?: string;
+  account_id?: string | null; // when linked, `value` is the account's balance
+}
+
+export type AccountType = 'CURRENT' | 'SAVINGS' | 'CREDIT' | 'CASH';
+
+export interface Account {
+  id: string;
+  user_id: string;
+  name: string;
+  type: AccountType;
+  opening_balance: number; // negative for money owed on a credit card
+  created_at?: string;
+}
+
+// Money moved between two of the user's accounts. Neither income nor expense.
+export interface Transfer {
+  id: string;
+  user_id: string;
+  from_account_id: string;
+  to_account_id: string;
+  amount: number;
+  date: string;
+  notes?: string;
+  from_reconciliation_id?: string | null; // each side is reconciled against its own account's statement
+  to_reconciliation_id?: string | null;
+}
+
+// A bank statement an account was checked against
+export interface Reconciliation {
+  id: string;
+  user_id: string;
+  account_id: string;
+  statement_date: string;
+  closing_balance: number;
+  created_at?: string;
+}
+
+export interface Budget {
+  id: string;
+  user_id: string;
+  category: string; // expense category; a top-level category's budget covers its subcategories, unless they have their own
+  amount: number;   // current monthly limit
+  limits?: BudgetLimit[] | null; // every limit it has had, oldest first
+  rollover: boolean; // carry what's left (or overspent) into the next month
+  created_at?: string; // rollover starts from this month
+}
+
+export interface BudgetLimit {
+  from: string; // yyyy-MM; applies until the next entry
+  amount: number;
+}
+
+export type EnvelopeKind = 'CATEGORY' | 'BILL' | 'GOAL';
+
+export interface Envelope {
+  id: string;
+  user_id: string;
+  kind: EnvelopeKind;
+  category?: string | null;             // CATEGORY: expense category; covers its subcategories
+  recurring_expense_id?: string | null; // BILL
+  goal_id?: string | null;              // GOAL
+  created_at?: string;                  // the envelope only draws down from this date
+}
+
+// Money moving into, out of or between envelopes. A null side is "to be assigned".
+export interface EnvelopeMove {
+  id: string;
+  user_id: string;
+  from_envelope_id?: string | null;
+  to_envelope_id?: string | null;
+  amount: number;
+  date: string;
+  notes?: string;
+  created_at?: string;
 }
 
 export interface Debt {
@@ -63,6 +185,21 @@ export interface Debt {
   balance: number;
   interest_rate: number;
   minimum_payment: number;
+  interest_accrued_to?: string; // interest has been charged up to this date
+}
+
+export type DebtEntryType = 'PAYMENT' | 'INTEREST' | 'ADJUSTMENT';
+
+export interface DebtPayment {
+  id: string;
+  user_id: string;
+  debt_id: string;
+  type: DebtEntryType;
+  amount: number; // adjustments are signed: positive raises the balance, negative lowers it
+  date: string;
+  balance_after: number;
+  notes?: string;
+  expense_id?: string; // matching expense, when the payment was also recorded as spending
 }
 
 export interface Goal {
@@ -70,8 +207,124 @@ export interface Goal {
   user_id: string;
   name: string;
   target_amount: number;
-  current_amount: number;
-  target_date?: string;
+  current_amount: number; // sum of the goal's contributions
+  target_date?: string | null;
+}
+
+export interface GoalContribution {
+  id: string;
+  user_id: string;
+  goal_id: string;
+  amount: number; // negative for withdrawals
+  date: string;
+  notes?: string;
+  income_id?: string;          // set when swept in from an income entry by an allocation rule
+  allocation_rule_id?: string;
+  created_at?: string;
+}
+
+export type AllocationRuleType = 'PERCENT' | 'FIXED';
+
+export interface AllocationRule {
+  id: string;
+  user_id: string;
+  goal_id: string;
+  category?: string | null; // income category to match, null for every income
+  type: AllocationRuleType;
+  value: number;            // percent of the income, or a fixed amount taken first
+  position: number;
+  paused: boolean;
+}
+
+export type ScenarioAdjustment =
+  | {
+      id: string;
+      type: 'ADD';
+      kind: 'PAYDAY' | 'BENEFIT' | 'BILL';
+      label: string;
+      amount: number;
+      frequency: Frequency;
+      custom_value?: number;
+      rrule?: string;
+      start: string;
+    }
+  | {
+      id: string;
+      type: 'ADD_DEBT';
+      label: string;
+      balance: number;
+      interest_rate: number;
+      payment: number;
+      start: string;
+    }
+  | { id: string; type: 'REMOVE'; stream_id: string }
+  | { id: string; type: 'MODIFY'; stream_id: string; amount: number };
+
+export interface Scenario {
+  id: string;
+  user_id: string;
+  name: string;
+  adjustments: ScenarioAdjustment[];
+  created_at?: string;
+}
+
+export interface UserSettings {
+  user_id: string;
+  low_balance_threshold: number;
+}
+
+export type CategoryKind = 'INCOME' | 'EXPENSE' | 'ASSET';
+
+// Transactions and assets store the category name; `parent_id` nests one level deep
+export interface Category {
+  id: string;
+  user_id: string;
+  kind: CategoryKind;
+  name: string;
+  parent_id?: string | null;
+  color: string;
+  icon: string;
+  position: number;
+}
+
+export type RuleMatchType = 'CONTAINS' | 'REGEX';
+
+// Sets category, notes and tags on transactions whose title (and optionally amount) match
+export interface CategoryRule {
+  id: string;
+  user_id: string;
+  match_type: RuleMatchType;
+  pattern: string;
+  min_amount?: number | null;
+  max_amount?: number | null;
+  applies_to: 'INCOME' | 'EXPENSE' | 'BOTH';
+  category?: string | null;
+  notes?: string | null;
+  tags?: string[] | null;
+  position: number;
+}
+
+export type AmountMode = 'SIGNED' | 'SPLIT';
+export type SignConvention = 'NEGATIVE_IS_EXPENSE' | 'POSITIVE_IS_EXPENSE';
+
+// Which CSV columns (by index) hold what, and how to read them
+export interface CsvMapping {
+  has_header: boolean;
+  date_column: number;
+  description_column: number;
+  amount_mode: AmountMode;
+  amount_column?: number;     // SIGNED: one column, direction from the sign
+  debit_column?: number;      // SPLIT: money out
+  credit_column?: number;     // SPLIT: money in
+  sign_convention: SignConvention;
+  date_format: string;
+}
+
+export interface ImportMapping {
+  id: string;
+  user_id: string;
+  bank_name: string;
+  mapping: CsvMapping;
 }
 
 export interface ProjectionData {
@@ -79,16 +332,4 @@ export interface ProjectionData {
   expectedIncome: number;
   expectedExpenses: number;
   projectedSavings: number;
-}
-
-export const INCOME_CATEGORIES = [
-  'Salary', 'Freelance', 'Business', 'Investment', 'Gift', 'Other'
-];
-
-export const EXPENSE_CATEGORIES = [
-  'Housing', 'Utilities', 'Food', 'Transport', 'Healthcare', 'Entertainment', 'Debt', 'Other'
-];
-
-export const ASSET_TYPES = [
-  'Real Estate', 'Vehicle', 'Cash/Bank', 'Investment', 'Crypto', 'Valuables', 'Other'
-];
\ No newline at end of file
+}
\ No newline at end of file